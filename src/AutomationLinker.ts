@@ -0,0 +1,112 @@
+import { AutomatedTestLink, AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+
+export interface AutomationManifestEntry extends AutomatedTestLink {
+    testCaseId: number;
+}
+
+export interface ParsedAutomationManifest {
+    entries: AutomationManifestEntry[];
+    errors: string[];
+}
+
+export interface AutomationLinkItem {
+    testCaseId: number;
+    automatedTestName: string;
+    success: boolean;
+    error?: string;
+}
+
+export interface AutomationManifestReport {
+    linkedCount: number;
+    failedCount: number;
+    items: AutomationLinkItem[];
+}
+
+/**
+ * Bulk-associates ADO test cases with automated tests from a manifest.
+ *
+ * Accepted manifest shapes:
+ * - a map of test case ID to test name or link: { "123": "Shop.Tests.CartTests.AddsItem", "124": { "automatedTestName": "..." } }
+ * - a list of links: [{ "testCaseId": 123, "automatedTestName": "...", "automatedTestStorage": "Shop.Tests.dll" }]
+ * - either of the above under "tests", with shared "defaults": { "defaults": { "automatedTestType": "Unit Test" }, "tests": ... }
+ */
+export class AutomationLinker {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Validate a manifest and normalize it into link entries
+     */
+    static parseManifest(manifest: any): ParsedAutomationManifest {
+        const errors: string[] = [];
+        const entries: AutomationManifestEntry[] = [];
+
+        if (!manifest || typeof manifest !== 'object') {
+            return { entries, errors: ['manifest must be an object or an array'] };
+        }
+
+        const defaults: Partial<AutomatedTestLink> = !Array.isArray(manifest) && manifest.defaults && typeof manifest.defaults === 'object' ? manifest.defaults : {};
+        const tests = Array.isArray(manifest) ? manifest : (manifest.tests ?? manifest);
+
+        const rawEntries: Array<{ key: string; testCaseId: any; value: any }> = Array.isArray(tests)
+            ? tests.map((value: any, index: number) => ({ key: `[${index}]`, testCaseId: value?.testCaseId, value }))
+            : Object.entries(tests)
+                .filter(([key]) => key !== 'defaults')
+                .map(([key, value]) => ({ key: `"${key}"`, testCaseId: key, value }));
+
+        for (const { key, testCaseId, value } of rawEntries) {
+            const id = parseInt(testCaseId);
+            const link = typeof value === 'string' ? { automatedTestName: value } : value;
+
+            if (isNaN(id)) {
+                errors.push(`${key}: testCaseId must be a number`);
+                continue;
+            }
+            if (!link || typeof link.automatedTestName !== 'string' || link.automatedTestName.trim().length === 0) {
+                errors.push(`${key}: automatedTestName is required`);
+                continue;
+            }
+
+            entries.push({
+                testCaseId: id,
+                automatedTestName: link.automatedTestName.trim(),
+                automatedTestStorage: link.automatedTestStorage ?? defaults.automatedTestStorage,
+                automatedTestType: link.automatedTestType ?? defaults.automatedTestType,
+                automatedTestId: link.automatedTestId
+            });
+        }
+
+        if (entries.length === 0 && errors.length === 0) {
+            errors.push('manifest contains no tests');
+        }
+
+        return { entries, errors };
+    }
+
+    /**
+     * Link every manifest entry, continuing past individual failures
+     */
+    async applyManifest(entries: AutomationManifestEntry[]): Promise<AutomationManifestReport> {
+        const items: AutomationLinkItem[] = [];
+
+        for (const entry of entries) {
+            const { testCaseId, ...link } = entry;
+            try {
+                await this.client.setTestCaseAutomation(testCaseId, link);
+                items.push({ testCaseId, automatedTestName: link.automatedTestName, success: true });
+            } catch (error) {
+                items.push({
+                    testCaseId,
+                    automatedTestName: link.automatedTestName,
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        return {
+            linkedCount: items.filter(item => item.success).length,
+            failedCount: items.filter(item => !item.success).length,
+            items
+        };
+    }
+}
@@ -4,19 +4,284 @@ import { ITestApi } from 'azure-devops-node-api/TestApi';
 import { ITestPlanApi } from 'azure-devops-node-api/TestPlanApi';
 import { IWorkItemTrackingApi } from 'azure-devops-node-api/WorkItemTrackingApi';
 import { ITestResultsApi } from 'azure-devops-node-api/TestResultsApi';
-import { TestPlan, TestPlanCreateParams, TestPlanUpdateParams } from 'azure-devops-node-api/interfaces/TestPlanInterfaces';
+import { IBuildApi } from 'azure-devops-node-api/BuildApi';
+import { Build, BuildQueryOrder, BuildStatus } from 'azure-devops-node-api/interfaces/BuildInterfaces';
+import { ResultDetails, RunCreateModel, ShallowTestCaseResult, TestAttachmentReference, TestCaseResult, TestRun } from 'azure-devops-node-api/interfaces/TestInterfaces';
+import { Outcome, PointState, SuiteExpand, TypeInfo as TestPlanTypeInfo, TestConfiguration, TestPlan, TestPlanCreateParams, TestPlanUpdateParams, TestPoint, TestSuite, TestSuiteCreateParams, TestSuiteType, TestSuiteUpdateParams } from 'azure-devops-node-api/interfaces/TestPlanInterfaces';
+import { WorkItemExpand, WorkItemRelation, WorkItemUpdate } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
 import { JsonPatchOperation, Operation } from 'azure-devops-node-api/interfaces/common/VSSInterfaces';
+import { ClientApiBase } from 'azure-devops-node-api/ClientApiBases';
+import { TestCaseParameters } from './TestCaseParameters';
+import { StepsXmlNode, TestStepAttachment, TestStepEdit, TestStepsXml } from './TestStepsXml';
+import { randomUUID } from 'crypto';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
+export interface TestStep {
+    id: string;
+    type: string;
+    /** Plain text of the step; line breaks kept */
+    action: string;
+    expectedResult: string;
+    /** Step formatting as sanitized HTML */
+    actionHtml?: string;
+    expectedResultHtml?: string;
+    /** Work item ID of the Shared Steps referenced by a 'SharedStepsReference' entry */
+    sharedStepsId?: number;
+    /** Id of the shared steps reference this step is grouped under */
+    groupId?: string;
+    attachments?: TestStepAttachment[];
+}
+
+export interface SuiteTestCase {
+    id: number;
+    name: string;
+    state?: string;
+    priority?: number;
+    steps: TestStep[];
+}
+
+export interface TestSuiteOptions {
+    suiteType?: 'StaticTestSuite' | 'RequirementTestSuite' | 'DynamicTestSuite';
+    requirementId?: number;
+    queryString?: string;
+}
+
+export interface TestSuiteNode {
+    id: number;
+    name: string;
+    suiteType: 'StaticTestSuite' | 'RequirementTestSuite' | 'DynamicTestSuite' | 'None';
+    planId: number;
+    parentSuiteId?: number;
+    requirementId?: number;
+    queryString?: string;
+    inheritDefaultConfigurations?: boolean;
+    defaultConfigurationIds?: number[];
+    testCases: SuiteTestCase[];
+    children: TestSuiteNode[];
+}
+
+export const TEST_OUTCOMES = ['Passed', 'Failed', 'Blocked', 'NotApplicable', 'Paused', 'InProgress', 'NotExecuted', 'Inconclusive', 'Timeout', 'Aborted', 'Error', 'Warning', 'None'] as const;
+export type TestOutcome = typeof TEST_OUTCOMES[number];
+
+export interface TestRunOptions {
+    suiteId?: number;
+    pointIds?: number[];
+    comment?: string;
+    buildId?: number;
+    automated?: boolean;
+}
+
+export interface TestStepOutcome {
+    stepId: number | string;
+    outcome: TestOutcome;
+    comment?: string;
+}
+
+export interface TestResultUpdate {
+    resultId: number;
+    outcome?: TestOutcome;
+    comment?: string;
+    durationInMs?: number;
+    errorMessage?: string;
+    steps?: TestStepOutcome[];
+}
+
+export interface TestAttachmentUpload {
+    fileName: string;
+    /** Base64-encoded file content */
+    content: string;
+    comment?: string;
+    attachmentType?: string;
+}
+
+export interface TestPointSummary {
+    id: number;
+    testCaseId: number;
+    testCaseTitle?: string;
+    configurationId: number;
+    configurationName?: string;
+    tester?: { id?: string; displayName?: string; uniqueName?: string };
+    /** Outcome of the latest result, 'None' if never run */
+    outcome: string;
+    state?: string;
+    isActive: boolean;
+    lastRunId?: number;
+    lastResultId?: number;
+    lastRunBuildNumber?: string;
+    lastUpdatedDate?: Date;
+    lastUpdatedBy?: string;
+}
+
+export interface TesterAssignment {
+    pointIds: number[];
+    /** ADO identity of the tester (the `tester.id` of a point or of a team member) */
+    tester: { id: string; displayName?: string; uniqueName?: string };
+}
+
+export interface AutomatedTestLink {
+    /** Fully qualified test name, e.g. Namespace.Class.Method or a Playwright title path */
+    automatedTestName: string;
+    /** Assembly, package or spec file containing the test */
+    automatedTestStorage?: string;
+    /** Framework or test type, e.g. "Unit Test", "JUnit", "Playwright" */
+    automatedTestType?: string;
+    /** GUID identifying the automated test; when omitted the current one is kept, or one is generated */
+    automatedTestId?: string;
+}
+
+export interface SharedStepsDetails {
+    id: number;
+    title: string;
+    steps: TestStep[];
+    parameters: string[];
+    revision?: number;
+}
+
+export interface ExpandedTestStep {
+    /** Step id; steps from shared steps are numbered '<compref id>.<shared step id>' */
+    stepId: string;
+    action: string;
+    expectedResult: string;
+    sharedStepsId?: number;
+    sharedStepsTitle?: string;
+}
+
+export interface TestCaseIteration {
+    iteration: number;
+    values: Record<string, string>;
+    steps: ExpandedTestStep[];
+}
+
+export interface ExpandedTestCase {
+    id: number;
+    title: string;
+    parameters: string[];
+    dataRows: Array<Record<string, string>>;
+    /** Parameters referenced as @name in steps but not defined on the test case */
+    missingParameters: string[];
+    steps: ExpandedTestStep[];
+    iterations: TestCaseIteration[];
+}
+
+export interface TestCaseUpdate {
+    title?: string;
+    priority?: number;
+    state?: string;
+    tags?: string[];
+    areaPath?: string;
+    iterationPath?: string;
+    /** null clears the assignee */
+    assignedTo?: string | null;
+    acceptanceCriteria?: string | null;
+    /** The complete new step list */
+    steps?: TestStepEdit[];
+}
+
+export interface TestCaseSuiteRemoval {
+    planId: number;
+    suiteId: number;
+    suiteName?: string;
+}
+
+export interface TestCaseFieldChange {
+    field: string;
+    oldValue?: any;
+    newValue?: any;
+}
+
+export interface TestCaseRevisionSummary {
+    revision: number;
+    changedBy?: string;
+    changedDate?: Date;
+    /** Reference names of the fields changed in this revision */
+    changedFields: string[];
+    /** Old and new values, except for the steps XML (see stepsChanged) */
+    fieldChanges: TestCaseFieldChange[];
+    stepsChanged: boolean;
+    /** Discussion comment added with the revision */
+    comment?: string;
+    relationsAdded: number;
+    relationsRemoved: number;
+}
+
+export interface TestCaseRevision {
+    id: number;
+    revision: number;
+    changedBy?: string;
+    changedDate?: Date;
+    fields: Record<string, any>;
+    parsedSteps: TestStep[];
+}
+
+// A list request issued by getAllPages; the values mirror the generated API method for the endpoint
+interface PagedRequest {
+    apiVersion: string;
+    area: string;
+    locationId: string;
+    routeValues: Record<string, unknown>;
+    queryValues?: Record<string, unknown>;
+    typeInfo?: any;
+}
+
+const AUTOMATED_TEST_FIELDS = [
+    'Microsoft.VSTS.TCM.AutomatedTestName',
+    'Microsoft.VSTS.TCM.AutomatedTestStorage',
+    'Microsoft.VSTS.TCM.AutomatedTestId',
+    'Microsoft.VSTS.TCM.AutomatedTestType'
+];
+
+// Work item fields behind the editable properties of TestCaseUpdate
+const TEST_CASE_UPDATE_FIELDS: Record<string, string> = {
+    title: 'System.Title',
+    priority: 'Microsoft.VSTS.Common.Priority',
+    state: 'System.State',
+    tags: 'System.Tags',
+    areaPath: 'System.AreaPath',
+    iterationPath: 'System.IterationPath',
+    assignedTo: 'System.AssignedTo',
+    acceptanceCriteria: 'Microsoft.VSTS.Common.AcceptanceCriteria'
+};
+
+// Fields ADO updates on every save; they say nothing about what changed
+export const REVISION_BOOKKEEPING_FIELDS = [
+    'System.Rev',
+    'System.AuthorizedDate',
+    'System.RevisedDate',
+    'System.ChangedDate',
+    'System.ChangedBy',
+    'System.AuthorizedAs',
+    'System.Watermark',
+    'System.PersonId',
+    'System.History'
+];
+
+// Link from a test case to the Shared Steps work items it references
+const SHARED_STEPS_LINK = 'Microsoft.VSTS.TestCase.SharedStepReferencedBy-Reverse';
+
+// Content carried over when a test case is copied; automation associations stay with the original
+const TEST_CASE_COPY_FIELDS = [
+    'System.Title',
+    'System.Description',
+    'System.Tags',
+    'Microsoft.VSTS.Common.Priority',
+    'Microsoft.VSTS.TCM.Steps',
+    'Microsoft.VSTS.TCM.Parameters',
+    'Microsoft.VSTS.TCM.LocalDataSource'
+];
+
+// Relations carried over to a copy; step attachments keep their [TestStep=N] comments since step ids are preserved
+const TEST_CASE_COPY_RELATIONS = [SHARED_STEPS_LINK, 'AttachedFile'];
+
 export class AzureDevOpsTestPlansClient {
     private webApi: WebApi | null = null;
     private testApi: ITestApi | null = null;
     private testPlanApi: ITestPlanApi | null = null;
     private workItemApi: IWorkItemTrackingApi | null = null;
     private testResultsApi: ITestResultsApi | null = null;
+    private buildApi: IBuildApi | null = null;
     private orgUrl: string;
     private project: string;
 
@@ -69,6 +334,7 @@ export class AzureDevOpsTestPlansClient {
         this.testPlanApi = await this.webApi.getTestPlanApi();
         this.workItemApi = await this.webApi.getWorkItemTrackingApi();
         this.testResultsApi = await this.webApi.getTestResultsApi();
+        this.buildApi = await this.webApi.getBuildApi();
     }
 
     /**
@@ -94,6 +360,7 @@ export class AzureDevOpsTestPlansClient {
         this.testPlanApi = await this.webApi.getTestPlanApi();
         this.workItemApi = await this.webApi.getWorkItemTrackingApi();
         this.testResultsApi = await this.webApi.getTestResultsApi();
+        this.buildApi = await this.webApi.getBuildApi();
     }
 
     /**
@@ -118,6 +385,7 @@ export class AzureDevOpsTestPlansClient {
         this.testPlanApi = await this.webApi.getTestPlanApi();
         this.workItemApi = await this.webApi.getWorkItemTrackingApi();
         this.testResultsApi = await this.webApi.getTestResultsApi();
+        this.buildApi = await this.webApi.getBuildApi();
     }
 
     /**
@@ -268,7 +536,7 @@ export class AzureDevOpsTestPlansClient {
     /**
      * Create a new test case work item
      */
-    async createTestCase(title: string, steps?: string, priority?: number, areaPath?: string, iterationPath?: string): Promise<any> {
+    async createTestCase(title: string, steps?: string, priority?: number, areaPath?: string, iterationPath?: string, tags?: string[]): Promise<any> {
         if (!this.workItemApi) {
             throw new Error('Client not initialized. Call initialize() first.');
         }
@@ -322,6 +590,14 @@ export class AzureDevOpsTestPlansClient {
                 });
             }
 
+            if (tags && tags.length > 0) {
+                patchDocument.push({
+                    op: Operation.Add,
+                    path: "/fields/System.Tags",
+                    value: tags.join('; ')
+                });
+            }
+
             const workItem = await this.workItemApi.createWorkItem({}, patchDocument, this.project, "Test Case");
             
             console.log(`Test case created successfully with ID: ${workItem.id}`);
@@ -333,288 +609,1586 @@ export class AzureDevOpsTestPlansClient {
     }
 
     /**
-     * Get list of test cases for a given test plan and suite
+     * Associate a test case with an automated test (sets the AutomatedTest* fields and marks it Automated)
      */
-    async getTestCaseList(planId: number, suiteId: number): Promise<any> {
-        if (!this.testPlanApi) {
+    async setTestCaseAutomation(testCaseId: number, link: AutomatedTestLink): Promise<any> {
+        if (!this.workItemApi) {
             throw new Error('Client not initialized. Call initialize() first.');
         }
 
         try {
-            console.log(`Fetching test cases for plan ${planId}, suite ${suiteId}`);
-            const testCases = await this.testPlanApi.getTestCaseList(this.project, planId, suiteId);
-            
-            console.log(`Found ${testCases.length} test case(s)`);
-            return testCases;
+            console.log(`Linking test case ${testCaseId} to automated test ${link.automatedTestName}`);
+            // Keep the current AutomatedTestId when relinking, so run history stays with the automated test
+            const automatedTestId = link.automatedTestId
+                || (await this.workItemApi.getWorkItem(testCaseId, ['Microsoft.VSTS.TCM.AutomatedTestId']))?.fields?.['Microsoft.VSTS.TCM.AutomatedTestId']
+                || randomUUID();
+            const fields: Record<string, string> = {
+                'Microsoft.VSTS.TCM.AutomatedTestName': link.automatedTestName,
+                'Microsoft.VSTS.TCM.AutomatedTestStorage': link.automatedTestStorage || '',
+                'Microsoft.VSTS.TCM.AutomatedTestType': link.automatedTestType || '',
+                // ADO expects a GUID identifying the automated test
+                'Microsoft.VSTS.TCM.AutomatedTestId': automatedTestId,
+                'Microsoft.VSTS.TCM.AutomationStatus': 'Automated'
+            };
+
+            const patchDocument: JsonPatchOperation[] = Object.entries(fields).map(([field, value]) => ({
+                op: Operation.Add,
+                path: `/fields/${field}`,
+                value
+            }));
+
+            const workItem = await this.workItemApi.updateWorkItem({}, patchDocument, testCaseId, this.project);
+
+            console.log('Automated test linked successfully');
+            return workItem;
         } catch (error) {
-            console.error('Error fetching test cases:', error);
+            console.error('Error linking automated test:', error);
             throw error;
         }
     }
 
     /**
-     * Get test results for a given build ID
+     * Remove the automated test association of a test case and mark it Not Automated
      */
-    async getTestResultsFromBuildId(buildId: number): Promise<any> {
-        if (!this.testResultsApi) {
+    async clearTestCaseAutomation(testCaseId: number): Promise<any> {
+        if (!this.workItemApi) {
             throw new Error('Client not initialized. Call initialize() first.');
         }
 
         try {
-            console.log(`Fetching test results for build ${buildId}`);
-            const testResults = await this.testResultsApi.getTestResultDetailsForBuild(this.project, buildId);
-            
-            console.log(`Test results fetched successfully`);
-            return testResults;
+            console.log(`Unlinking automated test from test case ${testCaseId}`);
+            const workItem = await this.workItemApi.getWorkItem(testCaseId, AUTOMATED_TEST_FIELDS);
+
+            // Removing a field that is not set fails, so only remove the ones present
+            const patchDocument: JsonPatchOperation[] = AUTOMATED_TEST_FIELDS
+                .filter(field => workItem.fields?.[field] !== undefined)
+                .map(field => ({ op: Operation.Remove, path: `/fields/${field}` }));
+
+            patchDocument.push({
+                op: Operation.Add,
+                path: '/fields/Microsoft.VSTS.TCM.AutomationStatus',
+                value: 'Not Automated'
+            });
+
+            const updated = await this.workItemApi.updateWorkItem({}, patchDocument, testCaseId, this.project);
+
+            console.log('Automated test unlinked successfully');
+            return updated;
         } catch (error) {
-            console.error('Error fetching test results:', error);
+            console.error('Error unlinking automated test:', error);
             throw error;
         }
     }
 
     /**
-     * Get detailed test case information by work item ID
-     * This includes test steps, expected results, outcomes, and all work item fields
+     * Run a WIQL query scoped to the project and return the matching work item IDs
      */
-    async getTestCaseDetails(testCaseId: number, includeHistory: boolean = false): Promise<any> {
+    async queryWorkItemIds(wiql: string, top?: number): Promise<number[]> {
         if (!this.workItemApi) {
             throw new Error('Client not initialized. Call initialize() first.');
         }
 
         try {
-            console.log(`Fetching test case details for ID: ${testCaseId}`);
-            
-            // Define the fields we want to retrieve
-            const fields = [
-                'System.Id',
-                'System.Title',
-                'System.Description',
-                'System.State',
-                'System.Reason',
-                'System.AssignedTo',
-                'System.CreatedBy',
-                'System.CreatedDate',
-                'System.ChangedBy',
-                'System.ChangedDate',
-                'System.AreaPath',
-                'System.IterationPath',
-                'System.Tags',
-                'Microsoft.VSTS.Common.Priority',
-                'Microsoft.VSTS.Common.Severity',
-                'Microsoft.VSTS.TCM.Steps',
-                'Microsoft.VSTS.TCM.LocalDataSource',
-                'Microsoft.VSTS.TCM.AutomatedTestName',
-                'Microsoft.VSTS.TCM.AutomatedTestStorage',
-                'Microsoft.VSTS.TCM.AutomatedTestId',
-                'Microsoft.VSTS.TCM.AutomatedTestType',
-                'Microsoft.VSTS.TCM.Parameters',
-                'Microsoft.VSTS.Common.AcceptanceCriteria'
-            ];
-
-            // Get the work item with specified fields
-            const workItem = await this.workItemApi.getWorkItem(testCaseId, fields, undefined, undefined, includeHistory ? 'all' : undefined);
-            
-            if (!workItem) {
-                throw new Error(`Test case with ID ${testCaseId} not found`);
-            }
+            const result = await this.workItemApi.queryByWiql({ query: wiql }, { project: this.project }, undefined, top);
+            return (result.workItems || [])
+                .map(reference => reference.id)
+                .filter((id): id is number => id !== undefined);
+        } catch (error) {
+            console.error('Error querying work items:', error);
+            throw error;
+        }
+    }
 
-            // Parse and format the test case details
-            const testCaseDetails = {
-                id: workItem.id,
-                url: workItem.url,
-                fields: {
-                    title: workItem.fields?.['System.Title'],
-                    description: workItem.fields?.['System.Description'],
-                    state: workItem.fields?.['System.State'],
-                    reason: workItem.fields?.['System.Reason'],
-                    assignedTo: workItem.fields?.['System.AssignedTo']?.displayName || workItem.fields?.['System.AssignedTo'],
-                    createdBy: workItem.fields?.['System.CreatedBy']?.displayName || workItem.fields?.['System.CreatedBy'],
-                    createdDate: workItem.fields?.['System.CreatedDate'],
-                    changedBy: workItem.fields?.['System.ChangedBy']?.displayName || workItem.fields?.['System.ChangedBy'],
-                    changedDate: workItem.fields?.['System.ChangedDate'],
-                    areaPath: workItem.fields?.['System.AreaPath'],
-                    iterationPath: workItem.fields?.['System.IterationPath'],
-                    tags: workItem.fields?.['System.Tags'],
-                    priority: workItem.fields?.['Microsoft.VSTS.Common.Priority'],
-                    severity: workItem.fields?.['Microsoft.VSTS.Common.Severity'],
-                    acceptanceCriteria: workItem.fields?.['Microsoft.VSTS.Common.AcceptanceCriteria']
-                },
-                testCaseFields: {
-                    steps: workItem.fields?.['Microsoft.VSTS.TCM.Steps'],
-                    localDataSource: workItem.fields?.['Microsoft.VSTS.TCM.LocalDataSource'],
-                    automatedTestName: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestName'],
-                    automatedTestStorage: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestStorage'],
-                    automatedTestId: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestId'],
-                    automatedTestType: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestType'],
-                    parameters: workItem.fields?.['Microsoft.VSTS.TCM.Parameters']
-                },
-                parsedSteps: this.parseTestStepsXml(workItem.fields?.['Microsoft.VSTS.TCM.Steps']),
-                relations: workItem.relations,
-                revision: workItem.rev
-            };
+    /**
+     * Create a work item of any type from a map of field reference names to values
+     */
+    async createWorkItem(workItemType: string, fields: Record<string, any>): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
 
-            console.log('Test Case Details:');
-            console.log(`- ID: ${testCaseDetails.id}`);
-            console.log(`- Title: ${testCaseDetails.fields.title}`);
-            console.log(`- State: ${testCaseDetails.fields.state}`);
-            console.log(`- Priority: ${testCaseDetails.fields.priority}`);
-            console.log(`- Assigned To: ${testCaseDetails.fields.assignedTo}`);
-            console.log(`- Steps Count: ${testCaseDetails.parsedSteps?.length || 0}`);
+        try {
+            console.log(`Creating ${workItemType}: ${fields['System.Title']}`);
+            const patchDocument: JsonPatchOperation[] = Object.entries(fields)
+                .filter(([, value]) => value !== undefined)
+                .map(([field, value]) => ({ op: Operation.Add, path: `/fields/${field}`, value }));
 
-            return testCaseDetails;
+            const workItem = await this.workItemApi.createWorkItem({}, patchDocument, this.project, workItemType);
+
+            console.log(`${workItemType} created successfully with ID: ${workItem.id}`);
+            return workItem;
         } catch (error) {
-            console.error('Error fetching test case details:', error);
+            console.error(`Error creating ${workItemType}:`, error);
             throw error;
         }
     }
 
     /**
-     * Get multiple test case details by work item IDs
+     * Set fields of an existing work item from a map of field reference names to values
      */
-    async getMultipleTestCaseDetails(testCaseIds: number[], includeHistory: boolean = false): Promise<any[]> {
+    async updateWorkItemFields(workItemId: number, fields: Record<string, any>): Promise<any> {
         if (!this.workItemApi) {
             throw new Error('Client not initialized. Call initialize() first.');
         }
 
         try {
-            console.log(`Fetching details for ${testCaseIds.length} test cases`);
-            
-            const promises = testCaseIds.map(id => this.getTestCaseDetails(id, includeHistory));
-            const results = await Promise.allSettled(promises);
-            
-            const successfulResults = results
-                .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-                .map(result => result.value);
-            
-            const failedResults = results
-                .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
-                .map((result, index) => ({
-                    testCaseId: testCaseIds[index],
-                    error: result.reason
-                }));
+            console.log(`Updating work item ${workItemId}`);
+            const patchDocument: JsonPatchOperation[] = Object.entries(fields)
+                .filter(([, value]) => value !== undefined)
+                .map(([field, value]) => ({ op: Operation.Add, path: `/fields/${field}`, value }));
 
-            if (failedResults.length > 0) {
-                console.warn(`Failed to fetch ${failedResults.length} test cases:`, failedResults);
-            }
+            const workItem = await this.workItemApi.updateWorkItem({}, patchDocument, workItemId, this.project);
 
-            console.log(`Successfully fetched ${successfulResults.length} test case details`);
-            return successfulResults;
+            console.log('Work item updated successfully');
+            return workItem;
         } catch (error) {
-            console.error('Error fetching multiple test case details:', error);
+            console.error('Error updating work item:', error);
             throw error;
         }
     }
 
     /**
-     * Helper function to convert steps text to XML format required for test cases
+     * Create a Shared Steps work item; @parameters used in the steps are declared on it automatically
      */
-    private convertStepsToXml(steps: string): string {
-        // Accepts steps in the format: '1. Step one|Expected result one\n2. Step two|Expected result two'
-        const stepsLines = steps.split('\n').filter(line => line.trim() !== '');
+    async createSharedSteps(title: string, steps: string, areaPath?: string, iterationPath?: string): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
 
-        let xmlSteps = `<steps id="0" last="${stepsLines.length}">`;
+        try {
+            console.log(`Creating shared steps: ${title}`);
+            const parameterNames = TestCaseParameters.referencedNames(steps);
+
+            const workItem = await this.createWorkItem('Shared Steps', {
+                'System.Title': title,
+                'Microsoft.VSTS.TCM.Steps': this.convertStepsToXml(steps),
+                'Microsoft.VSTS.TCM.Parameters': parameterNames.length > 0 ? TestCaseParameters.buildParametersXml(parameterNames) : undefined,
+                'System.AreaPath': areaPath,
+                'System.IterationPath': iterationPath
+            });
 
-        for (let i = 0; i < stepsLines.length; i++) {
-            const stepLine = stepsLines[i].trim();
-            if (stepLine) {
-                // Split step and expected result by '|', fallback to default if not provided
-                const [stepPart, expectedPart] = stepLine.split('|').map(s => s.trim());
-                const stepMatch = stepPart.match(/^(\d+)\.\s*(.+)$/);
-                const stepText = stepMatch ? stepMatch[2] : stepPart;
-                const expectedText = expectedPart || 'Verify step completes successfully';
+            console.log(`Shared steps created successfully with ID: ${workItem.id}`);
+            return workItem;
+        } catch (error) {
+            console.error('Error creating shared steps:', error);
+            throw error;
+        }
+    }
 
-                xmlSteps += `
-                <step id="${i + 1}" type="ActionStep">
-                    <parameterizedString isformatted="true">${this.escapeXml(stepText)}</parameterizedString>
-                    <parameterizedString isformatted="true">${this.escapeXml(expectedText)}</parameterizedString>
-                </step>`;
-            }
+    /**
+     * Get a Shared Steps work item with its parsed steps and declared parameters
+     */
+    async getSharedSteps(sharedStepsId: number): Promise<SharedStepsDetails> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
         }
 
-        xmlSteps += '</steps>';
-        return xmlSteps;
+        try {
+            console.log(`Fetching shared steps ${sharedStepsId}`);
+            const workItem = await this.workItemApi.getWorkItem(sharedStepsId, [
+                'System.Title',
+                'System.WorkItemType',
+                'Microsoft.VSTS.TCM.Steps',
+                'Microsoft.VSTS.TCM.Parameters'
+            ]);
+
+            if (workItem.fields?.['System.WorkItemType'] !== 'Shared Steps') {
+                const error: any = new Error(`Work item ${sharedStepsId} is not a Shared Steps work item`);
+                error.statusCode = 400;
+                throw error;
+            }
+
+            return {
+                id: workItem.id!,
+                title: workItem.fields?.['System.Title'],
+                steps: this.parseTestStepsXml(workItem.fields?.['Microsoft.VSTS.TCM.Steps']),
+                parameters: TestCaseParameters.parse(workItem.fields?.['Microsoft.VSTS.TCM.Parameters']).names,
+                revision: workItem.rev
+            };
+        } catch (error) {
+            console.error('Error fetching shared steps:', error);
+            throw error;
+        }
     }
 
     /**
-     * Helper function to parse test steps XML from Azure DevOps into a readable format
+     * Insert a shared steps reference into a test case, before the step entry at `position` (0-based) or at the end.
+     * Also adds the Shared Steps link the ADO UI creates.
      */
-    private parseTestStepsXml(stepsXml?: string): any[] {
-        if (!stepsXml) {
-            return [];
+    async insertSharedStepsReference(testCaseId: number, sharedStepsId: number, position?: number): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
         }
 
         try {
-            // This is a simple XML parser for test steps
-            // In a production environment, you might want to use a proper XML parser
-            const steps: any[] = [];
-            const stepMatches = stepsXml.match(/<step[^>]*>(.*?)<\/step>/gs);
-            
-            if (stepMatches) {
-                stepMatches.forEach((stepMatch, index) => {
-                    const idMatch = stepMatch.match(/id="([^"]*)"/);
-                    const typeMatch = stepMatch.match(/type="([^"]*)"/);
-                    const paramMatches = stepMatch.match(/<parameterizedString[^>]*>(.*?)<\/parameterizedString>/gs);
-                    
-                    const step = {
-                        id: idMatch ? idMatch[1] : (index + 1).toString(),
-                        type: typeMatch ? typeMatch[1] : 'ActionStep',
-                        action: '',
-                        expectedResult: ''
-                    };
+            console.log(`Inserting shared steps ${sharedStepsId} into test case ${testCaseId}`);
+            const sharedSteps = await this.workItemApi.getWorkItem(sharedStepsId, ['System.WorkItemType']);
+            if (sharedSteps.fields?.['System.WorkItemType'] !== 'Shared Steps') {
+                const error: any = new Error(`Work item ${sharedStepsId} is not a Shared Steps work item`);
+                error.statusCode = 400;
+                throw error;
+            }
 
-                    if (paramMatches && paramMatches.length >= 1) {
-                        step.action = this.cleanXmlContent(paramMatches[0]);
-                    }
-                    if (paramMatches && paramMatches.length >= 2) {
-                        step.expectedResult = this.cleanXmlContent(paramMatches[1]);
-                    }
+            const testCase = await this.workItemApi.getWorkItem(testCaseId, undefined, undefined, WorkItemExpand.Relations);
+            const document = TestStepsXml.parse(testCase.fields?.['Microsoft.VSTS.TCM.Steps']);
+            TestStepsXml.insert(document, { kind: 'compref', id: 0, ref: sharedStepsId, children: [] }, position);
+            const stepsXml = TestStepsXml.serialize(document);
+
+            const patchDocument: JsonPatchOperation[] = [{
+                op: Operation.Add,
+                path: '/fields/Microsoft.VSTS.TCM.Steps',
+                value: stepsXml
+            }];
 
-                    steps.push(step);
+            const alreadyLinked = (testCase.relations || []).some(relation =>
+                relation.rel === SHARED_STEPS_LINK && relation.url?.endsWith(`/${sharedStepsId}`));
+            if (!alreadyLinked && sharedSteps.url) {
+                patchDocument.push({
+                    op: Operation.Add,
+                    path: '/relations/-',
+                    value: { rel: SHARED_STEPS_LINK, url: sharedSteps.url }
                 });
             }
 
-            return steps;
+            const workItem = await this.workItemApi.updateWorkItem({}, patchDocument, testCaseId, this.project);
+
+            console.log('Shared steps reference inserted successfully');
+            return workItem;
         } catch (error) {
-            console.warn('Failed to parse test steps XML:', error);
-            return [];
+            console.error('Error inserting shared steps reference:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Define the parameters of a test case and its data rows (one test iteration per row)
+     */
+    async setTestCaseParameters(testCaseId: number, names: string[], rows: Array<Record<string, string>>): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Setting ${names.length} parameter(s) and ${rows.length} data row(s) on test case ${testCaseId}`);
+            return await this.updateWorkItemFields(testCaseId, {
+                'Microsoft.VSTS.TCM.Parameters': TestCaseParameters.buildParametersXml(names),
+                'Microsoft.VSTS.TCM.LocalDataSource': TestCaseParameters.buildDataSourceXml(names, rows)
+            });
+        } catch (error) {
+            console.error('Error setting test case parameters:', error);
+            throw error;
         }
     }
 
     /**
-     * Helper function to clean XML content and extract text
+     * Get a test case with shared steps expanded inline and one concrete iteration per data row
+     * (@parameters substituted with the row's values)
      */
-    private cleanXmlContent(xmlContent: string): string {
-        return xmlContent
-            .replace(/<parameterizedString[^>]*>/g, '')
-            .replace(/<\/parameterizedString>/g, '')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&amp;/g, '&')
-            .replace(/&apos;/g, "'")
-            .replace(/&quot;/g, '"')
-            .replace(/<[^>]*>/g, '') // Remove any remaining HTML/XML tags
-            .trim();
+    async getExpandedTestCase(testCaseId: number): Promise<ExpandedTestCase> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            const details = await this.getTestCaseDetails(testCaseId);
+            const parsedSteps: TestStep[] = details.parsedSteps || [];
+
+            const sharedIds = Array.from(new Set(parsedSteps
+                .map(step => step.sharedStepsId)
+                .filter((id): id is number => id !== undefined)));
+            const sharedSteps = new Map<number, SharedStepsDetails>();
+            for (const sharedId of sharedIds) {
+                sharedSteps.set(sharedId, await this.getSharedSteps(sharedId));
+            }
+
+            const steps: ExpandedTestStep[] = parsedSteps.flatMap(step => {
+                if (step.type !== 'SharedStepsReference') {
+                    return [{ stepId: step.id, action: step.action, expectedResult: step.expectedResult }];
+                }
+                const shared = step.sharedStepsId !== undefined ? sharedSteps.get(step.sharedStepsId) : undefined;
+                return (shared?.steps || []).map(sharedStep => ({
+                    stepId: `${step.id}.${sharedStep.id}`,
+                    action: sharedStep.action,
+                    expectedResult: sharedStep.expectedResult,
+                    sharedStepsId: shared!.id,
+                    sharedStepsTitle: shared!.title
+                }));
+            });
+
+            const parameters = TestCaseParameters.parse(details.testCaseFields.parameters, details.testCaseFields.localDataSource);
+            const referenced = Array.from(new Set(steps.flatMap(step => [
+                ...TestCaseParameters.referencedNames(step.action),
+                ...TestCaseParameters.referencedNames(step.expectedResult)
+            ])));
+
+            // Without data rows the test case runs once with its parameters unresolved
+            const rows = parameters.rows.length > 0 ? parameters.rows : [{}];
+            const iterations: TestCaseIteration[] = rows.map((values, index) => ({
+                iteration: index + 1,
+                values,
+                steps: steps.map(step => ({
+                    ...step,
+                    action: TestCaseParameters.substitute(step.action, values),
+                    expectedResult: TestCaseParameters.substitute(step.expectedResult, values)
+                }))
+            }));
+
+            return {
+                id: details.id,
+                title: details.fields.title,
+                parameters: parameters.names,
+                dataRows: parameters.rows,
+                missingParameters: referenced.filter(name => !parameters.names.includes(name)),
+                steps,
+                iterations
+            };
+        } catch (error) {
+            console.error('Error expanding test case:', error);
+            throw error;
+        }
     }
 
     /**
-     * Helper function to escape XML special characters
+     * Update fields and steps of a test case. When expectedRevision is given the update is rejected with
+     * statusCode 409 if the test case has changed since that revision.
      */
-    private escapeXml(unsafe: string): string {
-        return unsafe.replace(/[<>&'"]/g, (c) => {
-            switch (c) {
-                case '<':
-                    return '&lt;';
-                case '>':
-                    return '&gt;';
-                case '&':
-                    return '&amp;';
-                case "'":
-                    return '&apos;';
-                case '"':
-                    return '&quot;';
-                default:
-                    return c;
+    async updateTestCase(testCaseId: number, update: TestCaseUpdate, expectedRevision?: number): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Updating test case ${testCaseId}`);
+            const workItem = await this.workItemApi.getWorkItem(testCaseId, undefined, undefined, WorkItemExpand.Relations);
+            if (!workItem) {
+                const error: any = new Error(`Test case with ID ${testCaseId} not found`);
+                error.statusCode = 404;
+                throw error;
             }
-        });
+            if (expectedRevision !== undefined && workItem.rev !== expectedRevision) {
+                const error: any = new Error(`Test case ${testCaseId} has been changed (revision ${workItem.rev}, expected ${expectedRevision}). Reload it and retry.`);
+                error.statusCode = 409;
+                throw error;
+            }
+
+            // ADO rejects the whole patch if the revision moved on between the read above and this write
+            const patchDocument: JsonPatchOperation[] = expectedRevision !== undefined
+                ? [{ op: Operation.Test, path: '/rev', value: expectedRevision }]
+                : [];
+
+            for (const [property, field] of Object.entries(TEST_CASE_UPDATE_FIELDS)) {
+                const value = (update as any)[property];
+                if (value === undefined) {
+                    continue;
+                }
+                if (value === null) {
+                    // Removing a field that is not set fails
+                    if (workItem.fields?.[field] !== undefined) {
+                        patchDocument.push({ op: Operation.Remove, path: `/fields/${field}` });
+                    }
+                    continue;
+                }
+                patchDocument.push({ op: Operation.Add, path: `/fields/${field}`, value: property === 'tags' ? value.join('; ') : value });
+            }
+
+            if (update.steps) {
+                const document = TestStepsXml.applyEdits(TestStepsXml.parse(workItem.fields?.['Microsoft.VSTS.TCM.Steps']), update.steps);
+                patchDocument.push({ op: Operation.Add, path: '/fields/Microsoft.VSTS.TCM.Steps', value: TestStepsXml.serialize(document) });
+
+                const linkedIds = new Set((workItem.relations || [])
+                    .filter(relation => relation.rel === SHARED_STEPS_LINK)
+                    .map(relation => parseInt(relation.url?.split('/').pop() || '')));
+                const newSharedIds = new Set(TestStepsXml.flatten(document)
+                    .flatMap(node => node.kind === 'compref' && !linkedIds.has(node.ref) ? [node.ref] : []));
+                for (const sharedStepsId of newSharedIds) {
+                    const sharedSteps = await this.workItemApi.getWorkItem(sharedStepsId, ['System.WorkItemType']);
+                    if (sharedSteps?.fields?.['System.WorkItemType'] !== 'Shared Steps') {
+                        const error: any = new Error(`Work item ${sharedStepsId} is not a Shared Steps work item`);
+                        error.statusCode = 400;
+                        throw error;
+                    }
+                    patchDocument.push({ op: Operation.Add, path: '/relations/-', value: { rel: SHARED_STEPS_LINK, url: sharedSteps.url } });
+                }
+            }
+
+            if (patchDocument.every(operation => operation.op === Operation.Test)) {
+                const error: any = new Error('No changes to apply');
+                error.statusCode = 400;
+                throw error;
+            }
+
+            let updated;
+            try {
+                updated = await this.workItemApi.updateWorkItem({}, patchDocument, testCaseId, this.project);
+            } catch (error: any) {
+                if (expectedRevision !== undefined && error?.statusCode === 412) {
+                    error.statusCode = 409;
+                }
+                throw error;
+            }
+
+            console.log(`Test case updated successfully to revision ${updated.rev}`);
+            return updated;
+        } catch (error) {
+            console.error('Error updating test case:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a test case from suites: the given suite, or every suite that contains it
+     */
+    async removeTestCaseFromSuites(testCaseId: number, suite?: { planId: number; suiteId: number }): Promise<TestCaseSuiteRemoval[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            const targets: TestCaseSuiteRemoval[] = suite
+                ? [suite]
+                : (await this.testPlanApi.getSuitesByTestCaseId(testCaseId))
+                    .filter(found => found.id !== undefined && found.plan?.id !== undefined)
+                    .map(found => ({ planId: found.plan!.id!, suiteId: found.id!, suiteName: found.name }));
+
+            console.log(`Removing test case ${testCaseId} from ${targets.length} suite(s)`);
+            for (const target of targets) {
+                await this.testPlanApi.removeTestCasesFromSuite(this.project, target.planId, target.suiteId, String(testCaseId));
+            }
+
+            return targets;
+        } catch (error) {
+            console.error('Error removing test case from suites:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Permanently delete a test case work item along with its test points and results
+     */
+    async destroyTestCase(testCaseId: number): Promise<void> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Deleting test case ${testCaseId}`);
+            await this.testPlanApi.deleteTestCase(this.project, testCaseId);
+
+            console.log('Test case deleted successfully');
+        } catch (error) {
+            console.error('Error deleting test case:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a new test case with the content, shared steps links and attachments of an existing one,
+     * related to the original. Area and iteration paths default to the original's.
+     */
+    async copyTestCase(testCaseId: number, overrides: { areaPath?: string; iterationPath?: string } = {}): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Copying test case ${testCaseId}`);
+            const source = await this.workItemApi.getWorkItem(testCaseId, undefined, undefined, WorkItemExpand.All);
+            if (!source) {
+                const error: any = new Error(`Test case with ID ${testCaseId} not found`);
+                error.statusCode = 404;
+                throw error;
+            }
+
+            const fields: Record<string, any> = {
+                'System.AreaPath': overrides.areaPath || source.fields?.['System.AreaPath'],
+                'System.IterationPath': overrides.iterationPath || source.fields?.['System.IterationPath']
+            };
+            for (const field of TEST_CASE_COPY_FIELDS) {
+                fields[field] = source.fields?.[field];
+            }
+
+            const patchDocument: JsonPatchOperation[] = Object.entries(fields)
+                .filter(([, value]) => value !== undefined && value !== null)
+                .map(([field, value]) => ({ op: Operation.Add, path: `/fields/${field}`, value }));
+            for (const relation of (source.relations || []).filter(relation => TEST_CASE_COPY_RELATIONS.includes(relation.rel || ''))) {
+                patchDocument.push({ op: Operation.Add, path: '/relations/-', value: { rel: relation.rel, url: relation.url, attributes: relation.attributes } });
+            }
+            patchDocument.push({
+                op: Operation.Add,
+                path: '/relations/-',
+                value: { rel: 'System.LinkTypes.Related', url: source.url, attributes: { comment: `Copied from test case ${testCaseId}` } }
+            });
+
+            const workItem = await this.workItemApi.createWorkItem({}, patchDocument, this.project, 'Test Case');
+
+            console.log(`Test case ${testCaseId} copied to ${workItem.id}`);
+            return workItem;
+        } catch (error) {
+            console.error('Error copying test case:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * List every revision of a test case with who changed it, when, and which fields changed
+     */
+    async getTestCaseRevisions(testCaseId: number): Promise<TestCaseRevisionSummary[]> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching revision history of test case ${testCaseId}`);
+            const pageSize = 200;
+            const updates: WorkItemUpdate[] = [];
+            for (let skip = 0; ; skip += pageSize) {
+                const page = await this.workItemApi.getUpdates(testCaseId, pageSize, skip, this.project);
+                updates.push(...page);
+                if (page.length < pageSize) {
+                    break;
+                }
+            }
+
+            return updates
+                .filter(update => update.rev !== undefined)
+                .map(update => {
+                    const fields = update.fields || {};
+                    const changedFields = Object.keys(fields).filter(field => !REVISION_BOOKKEEPING_FIELDS.includes(field));
+
+                    return {
+                        revision: update.rev!,
+                        changedBy: AzureDevOpsTestPlansClient.identityName(fields['System.ChangedBy']?.newValue) || update.revisedBy?.displayName,
+                        changedDate: fields['System.ChangedDate']?.newValue,
+                        changedFields,
+                        fieldChanges: changedFields
+                            .filter(field => field !== 'Microsoft.VSTS.TCM.Steps')
+                            .map(field => ({
+                                field,
+                                oldValue: AzureDevOpsTestPlansClient.identityName(fields[field].oldValue),
+                                newValue: AzureDevOpsTestPlansClient.identityName(fields[field].newValue)
+                            })),
+                        stepsChanged: changedFields.includes('Microsoft.VSTS.TCM.Steps'),
+                        comment: fields['System.History']?.newValue,
+                        relationsAdded: update.relations?.added?.length || 0,
+                        relationsRemoved: update.relations?.removed?.length || 0
+                    };
+                });
+        } catch (error) {
+            console.error('Error fetching test case revisions:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a test case as it was at a revision, with its steps parsed
+     */
+    async getTestCaseRevision(testCaseId: number, revision: number): Promise<TestCaseRevision> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching revision ${revision} of test case ${testCaseId}`);
+            const workItem = await this.workItemApi.getRevision(testCaseId, revision, undefined, this.project);
+            if (!workItem) {
+                const error: any = new Error(`Revision ${revision} of test case ${testCaseId} not found`);
+                error.statusCode = 404;
+                throw error;
+            }
+
+            const fields: Record<string, any> = {};
+            for (const [field, value] of Object.entries(workItem.fields || {})) {
+                fields[field] = AzureDevOpsTestPlansClient.identityName(value);
+            }
+
+            return {
+                id: testCaseId,
+                revision: workItem.rev!,
+                changedBy: fields['System.ChangedBy'],
+                changedDate: fields['System.ChangedDate'],
+                fields,
+                parsedSteps: this.parseTestStepsXml(workItem.fields?.['Microsoft.VSTS.TCM.Steps'])
+            };
+        } catch (error) {
+            console.error('Error fetching test case revision:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get list of test cases for a given test plan and suite
+     */
+    async getTestCaseList(planId: number, suiteId: number): Promise<any> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test cases for plan ${planId}, suite ${suiteId}`);
+            const testCases = await this.testPlanApi.getTestCaseList(this.project, planId, suiteId);
+            
+            console.log(`Found ${testCases.length} test case(s)`);
+            return testCases;
+        } catch (error) {
+            console.error('Error fetching test cases:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a single test suite by ID
+     */
+    async getTestSuite(planId: number, suiteId: number): Promise<TestSuite> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test suite ${suiteId} in plan ${planId}`);
+            return await this.testPlanApi.getTestSuiteById(this.project, planId, suiteId, SuiteExpand.Children);
+        } catch (error) {
+            console.error('Error fetching test suite:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a static, requirement-based or query-based test suite.
+     * When no parent is given the suite is created under the plan's root suite.
+     */
+    async createTestSuite(planId: number, name: string, parentSuiteId?: number, options: TestSuiteOptions = {}): Promise<TestSuite> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            const suiteType = options.suiteType || 'StaticTestSuite';
+            if (suiteType === 'RequirementTestSuite' && !options.requirementId) {
+                throw new Error('requirementId is required for requirement-based suites');
+            }
+            if (suiteType === 'DynamicTestSuite' && !options.queryString) {
+                throw new Error('queryString is required for query-based suites');
+            }
+
+            let parentId = parentSuiteId;
+            if (parentId === undefined) {
+                const plan = await this.testPlanApi.getTestPlanById(this.project, planId);
+                parentId = plan.rootSuite?.id;
+                if (parentId === undefined) {
+                    throw new Error(`Test plan ${planId} has no root suite`);
+                }
+            }
+
+            const suiteData: TestSuiteCreateParams = {
+                name: name,
+                suiteType: TestSuiteType[suiteType],
+                parentSuite: { id: parentId, name: '' },
+                requirementId: suiteType === 'RequirementTestSuite' ? options.requirementId : undefined,
+                queryString: suiteType === 'DynamicTestSuite' ? options.queryString : undefined
+            };
+
+            console.log(`Creating ${suiteType} "${name}" under suite ${parentId} in plan ${planId}`);
+            const createdSuite = await this.testPlanApi.createTestSuite(suiteData, this.project, planId);
+
+            console.log(`Test suite created successfully with ID: ${createdSuite.id}`);
+            return createdSuite;
+        } catch (error) {
+            console.error('Error creating test suite:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Update a test suite (rename, change the WIQL query of a query-based suite, or reparent it)
+     */
+    async updateTestSuite(planId: number, suiteId: number, updates: { name?: string; queryString?: string; parentSuiteId?: number }): Promise<TestSuite> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            // The update API requires the suite name and revision, so start from the current suite
+            const existingSuite = await this.testPlanApi.getTestSuiteById(this.project, planId, suiteId);
+
+            const suiteData: TestSuiteUpdateParams = {
+                name: updates.name || existingSuite.name,
+                revision: existingSuite.revision
+            };
+            if (updates.queryString !== undefined) {
+                suiteData.queryString = updates.queryString;
+            }
+            if (updates.parentSuiteId !== undefined) {
+                suiteData.parentSuite = { id: updates.parentSuiteId, name: '' };
+            }
+
+            console.log(`Updating test suite ${suiteId} in plan ${planId}`);
+            const updatedSuite = await this.testPlanApi.updateTestSuite(suiteData, this.project, planId, suiteId);
+
+            console.log('Test suite updated successfully');
+            return updatedSuite;
+        } catch (error) {
+            console.error('Error updating test suite:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Move a test suite under a different parent suite in the same plan
+     */
+    async moveTestSuite(planId: number, suiteId: number, newParentSuiteId: number): Promise<TestSuite> {
+        if (suiteId === newParentSuiteId) {
+            throw new Error('A test suite cannot be its own parent');
+        }
+
+        console.log(`Moving test suite ${suiteId} under suite ${newParentSuiteId}`);
+        return this.updateTestSuite(planId, suiteId, { parentSuiteId: newParentSuiteId });
+    }
+
+    /**
+     * Delete a test suite (and its child suites)
+     */
+    async deleteTestSuite(planId: number, suiteId: number): Promise<void> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Deleting test suite ${suiteId} in plan ${planId}`);
+            await this.testPlanApi.deleteTestSuite(this.project, planId, suiteId);
+
+            console.log('Test suite deleted successfully');
+        } catch (error) {
+            console.error('Error deleting test suite:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get all test suites of a test plan as a flat list (every page, see getAllPages)
+     */
+    async getTestSuitesForPlan(planId: number): Promise<TestSuite[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test suites for plan ${planId}`);
+            const suites = await this.getAllPages<TestSuite>(this.testPlanApi, {
+                apiVersion: '7.2-preview.1',
+                area: 'testplan',
+                locationId: '1046d5d3-ab61-4ca7-a65a-36118a978256',
+                routeValues: { project: this.project, planId },
+                queryValues: { expand: SuiteExpand.None },
+                typeInfo: TestPlanTypeInfo.TestSuite
+            });
+
+            console.log(`Found ${suites.length} test suite(s)`);
+            return suites;
+        } catch (error) {
+            console.error('Error fetching test suites:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the suite hierarchy of a test plan (static, requirement-based and query-based suites),
+     * optionally populated with each suite's test cases and their parsed steps
+     */
+    async getTestSuiteHierarchy(planId: number, includeTestCases: boolean = true): Promise<TestSuiteNode[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            const suites = await this.getTestSuitesForPlan(planId);
+            const nodes = new Map<number, TestSuiteNode>();
+
+            for (const suite of suites) {
+                nodes.set(suite.id, {
+                    id: suite.id,
+                    name: suite.name,
+                    suiteType: (suite.suiteType !== undefined ? TestSuiteType[suite.suiteType] : 'None') as TestSuiteNode['suiteType'],
+                    planId,
+                    parentSuiteId: suite.parentSuite?.id,
+                    requirementId: suite.requirementId,
+                    queryString: suite.queryString,
+                    inheritDefaultConfigurations: suite.inheritDefaultConfigurations,
+                    defaultConfigurationIds: suite.defaultConfigurations?.map(configuration => configuration.id),
+                    testCases: [],
+                    children: []
+                });
+            }
+
+            if (includeTestCases) {
+                await this.populateSuiteTestCases(planId, Array.from(nodes.values()));
+            }
+
+            // Link children to their parents; suites without a known parent are roots
+            const roots: TestSuiteNode[] = [];
+            for (const node of nodes.values()) {
+                const parent = node.parentSuiteId !== undefined ? nodes.get(node.parentSuiteId) : undefined;
+                if (parent) {
+                    parent.children.push(node);
+                } else {
+                    roots.push(node);
+                }
+            }
+
+            return roots;
+        } catch (error) {
+            console.error('Error building test suite hierarchy:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Helper function to fill the test cases (with parsed steps) of every suite node
+     */
+    private async populateSuiteTestCases(planId: number, nodes: TestSuiteNode[]): Promise<void> {
+        const suiteCaseIds = new Map<number, number[]>();
+        for (const node of nodes) {
+            const testCases = await this.getTestCaseList(planId, node.id);
+            suiteCaseIds.set(node.id, testCases
+                .map((testCase: any) => testCase.workItem?.id)
+                .filter((id: number | undefined): id is number => id !== undefined));
+        }
+
+        const uniqueIds = Array.from(new Set(Array.from(suiteCaseIds.values()).flat()));
+        const details = uniqueIds.length > 0 ? await this.getMultipleTestCaseDetails(uniqueIds) : [];
+        const detailsById = new Map<number, any>(details.map(detail => [detail.id, detail]));
+
+        for (const node of nodes) {
+            node.testCases = (suiteCaseIds.get(node.id) || []).map(id => {
+                const detail = detailsById.get(id);
+                return {
+                    id,
+                    name: detail?.fields.title || `Test Case ${id}`,
+                    state: detail?.fields.state,
+                    priority: detail?.fields.priority,
+                    steps: detail?.parsedSteps || []
+                };
+            });
+        }
+    }
+
+    /**
+     * Get test results for a given build ID
+     */
+    async getTestResultsFromBuildId(buildId: number): Promise<any> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test results for build ${buildId}`);
+            const testResults = await this.testResultsApi.getTestResultDetailsForBuild(this.project, buildId);
+            
+            console.log(`Test results fetched successfully`);
+            return testResults;
+        } catch (error) {
+            console.error('Error fetching test results:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get every test result published for a build, across all of its runs (every page, see getAllPages)
+     */
+    async getTestResultsByBuild(buildId: number): Promise<ShallowTestCaseResult[]> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test results by build ${buildId}`);
+            const results = await this.getAllPages<ShallowTestCaseResult>(this.testResultsApi, {
+                apiVersion: '7.2-preview.1',
+                area: 'testresults',
+                locationId: 'f48cc885-dbc4-4efc-ab19-ae8c19d1e02a',
+                routeValues: { project: this.project },
+                queryValues: { buildId, '$top': 1000 }
+            });
+
+            console.log(`Found ${results.length} test result(s) for build ${buildId}`);
+            return results;
+        } catch (error) {
+            console.error('Error fetching test results by build:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get completed builds, newest first, either by ID or the latest ones of a pipeline definition
+     */
+    async getBuilds(options: { buildIds?: number[]; definitionId?: number; top?: number; branchName?: string }): Promise<Build[]> {
+        if (!this.buildApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(options.buildIds
+                ? `Fetching builds ${options.buildIds.join(', ')}`
+                : `Fetching the latest ${options.top ?? 10} build(s) of definition ${options.definitionId}`);
+
+            const builds = await this.buildApi.getBuilds(
+                this.project,
+                options.definitionId !== undefined ? [options.definitionId] : undefined,
+                undefined, undefined, undefined, undefined, undefined, undefined,
+                options.buildIds ? undefined : BuildStatus.Completed,
+                undefined, undefined, undefined,
+                options.buildIds ? undefined : options.top ?? 10,
+                undefined, undefined, undefined,
+                BuildQueryOrder.FinishTimeDescending,
+                options.branchName,
+                options.buildIds
+            );
+
+            console.log(`Found ${builds.length} build(s)`);
+            return builds;
+        } catch (error) {
+            console.error('Error fetching builds:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the test points of a suite (one per test case and configuration), every page (see getAllPages)
+     */
+    async getTestPoints(planId: number, suiteId: number, testCaseId?: number): Promise<TestPoint[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test points for suite ${suiteId} in plan ${planId}`);
+            const points = await this.getAllPages<TestPoint>(this.testPlanApi, {
+                apiVersion: '7.2-preview.2',
+                area: 'testplan',
+                locationId: '52df686e-bae4-4334-b0ee-b6cf4e6f6b73',
+                routeValues: { project: this.project, planId, suiteId },
+                queryValues: { testCaseId: testCaseId !== undefined ? testCaseId.toString() : undefined },
+                typeInfo: TestPlanTypeInfo.TestPoint
+            });
+
+            console.log(`Found ${points.length} test point(s)`);
+            return points;
+        } catch (error) {
+            console.error('Error fetching test points:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the test points of a suite in a readable form: configuration, tester and current outcome per point
+     */
+    async getTestPointSummaries(planId: number, suiteId: number, testCaseId?: number): Promise<TestPointSummary[]> {
+        const points = await this.getTestPoints(planId, suiteId, testCaseId);
+
+        return points.map(point => ({
+            id: point.id,
+            testCaseId: Number(point.testCaseReference?.id),
+            testCaseTitle: point.testCaseReference?.name,
+            configurationId: point.configuration?.id,
+            configurationName: point.configuration?.name,
+            tester: point.tester
+                ? { id: point.tester.id, displayName: point.tester.displayName, uniqueName: point.tester.uniqueName }
+                : undefined,
+            outcome: point.results?.outcome !== undefined && point.results.outcome !== Outcome.Unspecified
+                ? Outcome[point.results.outcome]
+                : 'None',
+            state: point.results?.state !== undefined ? PointState[point.results.state] : undefined,
+            isActive: point.isActive,
+            lastRunId: point.results?.lastTestRunId || undefined,
+            lastResultId: point.results?.lastResultId || undefined,
+            lastRunBuildNumber: point.results?.lastRunBuildNumber || undefined,
+            lastUpdatedDate: point.lastUpdatedDate,
+            lastUpdatedBy: point.lastUpdatedBy?.displayName
+        }));
+    }
+
+    /**
+     * Assign testers to test points; each assignment gives one tester a set of points
+     */
+    async assignTesters(planId: number, suiteId: number, assignments: TesterAssignment[]): Promise<TestPoint[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            const updates = assignments.flatMap(assignment => assignment.pointIds.map(id => ({ id, tester: assignment.tester })));
+            console.log(`Assigning testers to ${updates.length} test point(s) in suite ${suiteId}`);
+
+            const updated = await this.testPlanApi.updateTestPoints(updates, this.project, planId, suiteId);
+
+            console.log('Testers assigned successfully');
+            return updated;
+        } catch (error) {
+            console.error('Error assigning testers:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get all test configurations of the project (every page, see getAllPages)
+     */
+    async getTestConfigurations(): Promise<TestConfiguration[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log('Fetching test configurations');
+            const configurations = await this.getAllPages<TestConfiguration>(this.testPlanApi, {
+                apiVersion: '7.2-preview.1',
+                area: 'testplan',
+                locationId: '8369318e-38fa-4e84-9043-4b2a75d2c256',
+                routeValues: { project: this.project },
+                typeInfo: TestPlanTypeInfo.TestConfiguration
+            });
+
+            console.log(`Found ${configurations.length} test configuration(s)`);
+            return configurations;
+        } catch (error) {
+            console.error('Error fetching test configurations:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a test configuration from configuration variables, e.g. { Browser: 'Edge', 'Operating System': 'Windows 11' }
+     */
+    async createTestConfiguration(name: string, values: Record<string, string>, description?: string, isDefault: boolean = false): Promise<TestConfiguration> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Creating test configuration: ${name}`);
+            const configuration = await this.testPlanApi.createTestConfiguration({
+                name,
+                description,
+                isDefault,
+                values: Object.entries(values).map(([variable, value]) => ({ name: variable, value }))
+            }, this.project);
+
+            console.log(`Test configuration created successfully with ID: ${configuration.id}`);
+            return configuration;
+        } catch (error) {
+            console.error('Error creating test configuration:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Set the default configurations of a suite, used for test cases added to it later.
+     * Passing null makes the suite inherit the configurations of its parent again.
+     */
+    async setSuiteConfigurations(planId: number, suiteId: number, configurationIds: number[] | null): Promise<TestSuite> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            // The update API requires the suite name and revision, so start from the current suite
+            const existingSuite = await this.testPlanApi.getTestSuiteById(this.project, planId, suiteId);
+
+            const suiteData: TestSuiteUpdateParams = {
+                name: existingSuite.name,
+                revision: existingSuite.revision,
+                inheritDefaultConfigurations: configurationIds === null,
+                defaultConfigurations: configurationIds === null ? undefined : configurationIds.map(id => ({ id, name: '' }))
+            };
+
+            console.log(`Setting configurations of test suite ${suiteId} in plan ${planId}`);
+            const updatedSuite = await this.testPlanApi.updateTestSuite(suiteData, this.project, planId, suiteId);
+
+            console.log('Suite configurations updated successfully');
+            return updatedSuite;
+        } catch (error) {
+            console.error('Error setting suite configurations:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Set the configurations of test cases in a suite: one test point per test case and configuration.
+     * Points of configurations no longer listed are removed.
+     */
+    async setTestCaseConfigurations(planId: number, suiteId: number, testCaseIds: number[], configurationIds: number[]): Promise<any[]> {
+        if (!this.testPlanApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Assigning ${configurationIds.length} configuration(s) to ${testCaseIds.length} test case(s) in suite ${suiteId}`);
+            const testCases = await this.testPlanApi.updateSuiteTestCases(
+                testCaseIds.map(id => ({
+                    workItem: { id },
+                    pointAssignments: configurationIds.map(configurationId => ({ configurationId }))
+                })),
+                this.project,
+                planId,
+                suiteId
+            );
+
+            console.log('Test case configurations updated successfully');
+            return testCases;
+        } catch (error) {
+            console.error('Error setting test case configurations:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a test run for a plan from explicit test point IDs or from every point of a suite.
+     * ADO creates one pending result per point.
+     */
+    async createTestRun(planId: number, name: string, options: TestRunOptions = {}): Promise<TestRun> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            let pointIds = options.pointIds;
+            if (!pointIds || pointIds.length === 0) {
+                if (options.suiteId === undefined) {
+                    throw new Error('Either suiteId or pointIds is required to create a test run');
+                }
+                const points = await this.getTestPoints(planId, options.suiteId);
+                pointIds = points.filter(point => point.isActive !== false).map(point => point.id);
+            }
+
+            if (pointIds.length === 0) {
+                throw new Error(`Suite ${options.suiteId} has no test points to run`);
+            }
+
+            console.log(`Creating test run "${name}" in plan ${planId} with ${pointIds.length} point(s)`);
+            const runCreateModel: RunCreateModel = {
+                name,
+                plan: { id: planId.toString() },
+                pointIds,
+                configurationIds: [],
+                comment: options.comment,
+                automated: options.automated ?? false,
+                build: options.buildId !== undefined ? { id: options.buildId.toString() } : undefined
+            };
+
+            const run = await this.testResultsApi.createTestRun(runCreateModel, this.project);
+
+            console.log(`Test run created successfully with ID: ${run.id}`);
+            return run;
+        } catch (error) {
+            console.error('Error creating test run:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a test run by ID
+     */
+    async getTestRun(runId: number): Promise<TestRun> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test run ${runId}`);
+            return await this.testResultsApi.getTestRunById(this.project, runId, true);
+        } catch (error) {
+            console.error('Error fetching test run:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the results of a test run, including iteration and step outcomes
+     */
+    async getTestRunResults(runId: number): Promise<TestCaseResult[]> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching results for test run ${runId}`);
+            const results = await this.testResultsApi.getTestResults(this.project, runId, ResultDetails.Iterations);
+
+            console.log(`Found ${results.length} result(s)`);
+            return results;
+        } catch (error) {
+            console.error('Error fetching test run results:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Record outcomes, comments, durations and per-step outcomes for results of a test run
+     */
+    async updateTestResults(runId: number, updates: TestResultUpdate[]): Promise<TestCaseResult[]> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Updating ${updates.length} result(s) in test run ${runId}`);
+            const stepPaths = await this.getResultStepPaths(runId, updates);
+            const results: TestCaseResult[] = updates.map(update => {
+                const result: TestCaseResult = {
+                    id: update.resultId,
+                    outcome: update.outcome,
+                    comment: update.comment,
+                    durationInMs: update.durationInMs,
+                    errorMessage: update.errorMessage
+                };
+
+                if (update.outcome) {
+                    result.state = update.outcome === 'InProgress' || update.outcome === 'Paused' ? 'InProgress' : 'Completed';
+                }
+
+                if (update.steps && update.steps.length > 0) {
+                    // Manual runs record step outcomes on the first iteration, keyed by the step's action path
+                    result.iterationDetails = [{
+                        id: 1,
+                        outcome: update.outcome,
+                        durationInMs: update.durationInMs,
+                        actionResults: update.steps.map(step => {
+                            const path = AzureDevOpsTestPlansClient.stepPath(step.stepId, stepPaths.get(update.resultId));
+                            return {
+                                actionPath: path.map(AzureDevOpsTestPlansClient.toActionPath).join(''),
+                                iterationId: 1,
+                                stepIdentifier: path.join(';'),
+                                outcome: step.outcome,
+                                comment: step.comment
+                            };
+                        })
+                    }];
+                }
+
+                return result;
+            });
+
+            const updated = await this.testResultsApi.updateTestResults(results, this.project, runId);
+
+            console.log('Test results updated successfully');
+            return updated;
+        } catch (error) {
+            console.error('Error updating test results:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Attach evidence (logs, screenshots) to a test run
+     */
+    async addTestRunAttachment(runId: number, attachment: TestAttachmentUpload): Promise<TestAttachmentReference> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Attaching ${attachment.fileName} to test run ${runId}`);
+            return await this.testResultsApi.createTestRunAttachment({
+                fileName: attachment.fileName,
+                stream: attachment.content,
+                comment: attachment.comment,
+                attachmentType: attachment.attachmentType || 'GeneralAttachment'
+            }, this.project, runId);
+        } catch (error) {
+            console.error('Error attaching file to test run:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Attach evidence (logs, screenshots) to a single result of a test run
+     */
+    async addTestResultAttachment(runId: number, resultId: number, attachment: TestAttachmentUpload): Promise<TestAttachmentReference> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Attaching ${attachment.fileName} to result ${resultId} of test run ${runId}`);
+            return await this.testResultsApi.createTestResultAttachment({
+                fileName: attachment.fileName,
+                stream: attachment.content,
+                comment: attachment.comment,
+                attachmentType: attachment.attachmentType || 'GeneralAttachment'
+            }, this.project, runId, resultId);
+        } catch (error) {
+            console.error('Error attaching file to test result:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Mark a test run as completed
+     */
+    async completeTestRun(runId: number, comment?: string): Promise<TestRun> {
+        if (!this.testResultsApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Completing test run ${runId}`);
+            const run = await this.testResultsApi.updateTestRun({
+                state: 'Completed',
+                comment,
+                completedDate: new Date().toISOString()
+            }, this.project, runId);
+
+            console.log('Test run completed successfully');
+            return run;
+        } catch (error) {
+            console.error('Error completing test run:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Id paths of the steps of each updated result's test case (see TestStepsXml.idPaths), keyed by result ID.
+     * Only fetched for results that record step outcomes.
+     */
+    private async getResultStepPaths(runId: number, updates: TestResultUpdate[]): Promise<Map<number, Map<number, number[]>>> {
+        const paths = new Map<number, Map<number, number[]>>();
+        const resultIds = new Set(updates.filter(update => update.steps && update.steps.length > 0).map(update => update.resultId));
+        if (resultIds.size === 0) {
+            return paths;
+        }
+
+        const testCaseIds = new Map<number, number>();
+        for (const result of await this.getTestRunResults(runId)) {
+            if (result.id !== undefined && resultIds.has(result.id) && result.testCase?.id !== undefined) {
+                testCaseIds.set(result.id, parseInt(String(result.testCase.id)));
+            }
+        }
+
+        const byTestCase = new Map<number, Map<number, number[]>>();
+        for (const testCaseId of new Set(testCaseIds.values())) {
+            const workItem = await this.workItemApi!.getWorkItem(testCaseId, ['Microsoft.VSTS.TCM.Steps']);
+            byTestCase.set(testCaseId, TestStepsXml.idPaths(TestStepsXml.parse(workItem?.fields?.['Microsoft.VSTS.TCM.Steps'])));
+        }
+        for (const [resultId, testCaseId] of testCaseIds) {
+            paths.set(resultId, byTestCase.get(testCaseId)!);
+        }
+        return paths;
+    }
+
+    /**
+     * Helper function to resolve a step ID to the chain of ids ADO keys its result by. Steps grouped under a
+     * shared steps reference are nested under the reference; '<compref id>.<shared step id>' (as returned by
+     * the expanded steps) addresses a step inside the shared steps.
+     */
+    private static stepPath(stepId: number | string, testCasePaths?: Map<number, number[]>): number[] {
+        const [first, ...rest] = String(stepId).split('.').map(part => parseInt(part));
+        return [...(testCasePaths?.get(first) || [first]), ...rest];
+    }
+
+    /**
+     * Helper function to convert a test step ID to an ADO action path segment (8-digit hex)
+     */
+    private static toActionPath(stepId: number | string): string {
+        return Number(stepId).toString(16).toUpperCase().padStart(8, '0');
+    }
+
+    /**
+     * Get detailed test case information by work item ID
+     * This includes test steps, expected results, outcomes, and all work item fields
+     */
+    async getTestCaseDetails(testCaseId: number, includeHistory: boolean = false): Promise<any> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching test case details for ID: ${testCaseId}`);
+            
+            // A field list can't be combined with an expand, so fetch every field along with the relations
+            // (the relations carry the step attachments)
+            const workItem = await this.workItemApi.getWorkItem(testCaseId, undefined, undefined, WorkItemExpand.Relations);
+
+            if (!workItem) {
+                throw new Error(`Test case with ID ${testCaseId} not found`);
+            }
+
+            // Parse and format the test case details
+            const testCaseDetails = {
+                id: workItem.id,
+                url: workItem.url,
+                fields: {
+                    title: workItem.fields?.['System.Title'],
+                    description: workItem.fields?.['System.Description'],
+                    state: workItem.fields?.['System.State'],
+                    reason: workItem.fields?.['System.Reason'],
+                    assignedTo: workItem.fields?.['System.AssignedTo']?.displayName || workItem.fields?.['System.AssignedTo'],
+                    createdBy: workItem.fields?.['System.CreatedBy']?.displayName || workItem.fields?.['System.CreatedBy'],
+                    createdDate: workItem.fields?.['System.CreatedDate'],
+                    changedBy: workItem.fields?.['System.ChangedBy']?.displayName || workItem.fields?.['System.ChangedBy'],
+                    changedDate: workItem.fields?.['System.ChangedDate'],
+                    areaPath: workItem.fields?.['System.AreaPath'],
+                    iterationPath: workItem.fields?.['System.IterationPath'],
+                    tags: workItem.fields?.['System.Tags'],
+                    priority: workItem.fields?.['Microsoft.VSTS.Common.Priority'],
+                    severity: workItem.fields?.['Microsoft.VSTS.Common.Severity'],
+                    acceptanceCriteria: workItem.fields?.['Microsoft.VSTS.Common.AcceptanceCriteria']
+                },
+                testCaseFields: {
+                    steps: workItem.fields?.['Microsoft.VSTS.TCM.Steps'],
+                    localDataSource: workItem.fields?.['Microsoft.VSTS.TCM.LocalDataSource'],
+                    automatedTestName: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestName'],
+                    automatedTestStorage: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestStorage'],
+                    automatedTestId: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestId'],
+                    automatedTestType: workItem.fields?.['Microsoft.VSTS.TCM.AutomatedTestType'],
+                    parameters: workItem.fields?.['Microsoft.VSTS.TCM.Parameters']
+                },
+                parsedSteps: this.parseTestStepsXml(workItem.fields?.['Microsoft.VSTS.TCM.Steps'], workItem.relations),
+                relations: workItem.relations,
+                revision: workItem.rev,
+                history: includeHistory ? await this.getTestCaseRevisions(testCaseId) : undefined
+            };
+
+            console.log('Test Case Details:');
+            console.log(`- ID: ${testCaseDetails.id}`);
+            console.log(`- Title: ${testCaseDetails.fields.title}`);
+            console.log(`- State: ${testCaseDetails.fields.state}`);
+            console.log(`- Priority: ${testCaseDetails.fields.priority}`);
+            console.log(`- Assigned To: ${testCaseDetails.fields.assignedTo}`);
+            console.log(`- Steps Count: ${testCaseDetails.parsedSteps?.length || 0}`);
+
+            return testCaseDetails;
+        } catch (error) {
+            console.error('Error fetching test case details:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get multiple test case details by work item IDs
+     */
+    async getMultipleTestCaseDetails(testCaseIds: number[], includeHistory: boolean = false): Promise<any[]> {
+        if (!this.workItemApi) {
+            throw new Error('Client not initialized. Call initialize() first.');
+        }
+
+        try {
+            console.log(`Fetching details for ${testCaseIds.length} test cases`);
+            
+            const promises = testCaseIds.map(id => this.getTestCaseDetails(id, includeHistory));
+            const results = await Promise.allSettled(promises);
+            
+            const successfulResults = results
+                .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
+                .map(result => result.value);
+            
+            const failedResults = results
+                .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+                .map((result, index) => ({
+                    testCaseId: testCaseIds[index],
+                    error: result.reason
+                }));
+
+            if (failedResults.length > 0) {
+                console.warn(`Failed to fetch ${failedResults.length} test cases:`, failedResults);
+            }
+
+            console.log(`Successfully fetched ${successfulResults.length} test case details`);
+            return successfulResults;
+        } catch (error) {
+            console.error('Error fetching multiple test case details:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Helper function to reduce identity field values to the display name
+     */
+    /**
+     * Fetch every page of a list endpoint. The generated API methods take a continuation token but drop the
+     * x-ms-continuationtoken response header that carries the next one, so the request is issued through the
+     * API's REST client (as the generated method would) and the header is fed back until it is absent.
+     */
+    private async getAllPages<T>(api: ClientApiBase, request: PagedRequest): Promise<T[]> {
+        const items: T[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const versioningData = await api.vsoClient.getVersioningData(
+                request.apiVersion,
+                request.area,
+                request.locationId,
+                request.routeValues,
+                { ...request.queryValues, continuationToken }
+            );
+            const response = await api.rest.get<any[]>(versioningData.requestUrl!, api.createRequestOptions('application/json', versioningData.apiVersion));
+            items.push(...(api.formatResponse(response.result, request.typeInfo, true) || []));
+
+            const header = (response.headers as Record<string, string | string[] | undefined>)['x-ms-continuationtoken'];
+            continuationToken = Array.isArray(header) ? header[0] : header || undefined;
+        } while (continuationToken);
+
+        return items;
+    }
+
+    private static identityName(value: any): any {
+        return value && typeof value === 'object' && 'displayName' in value ? value.displayName : value;
+    }
+
+    /**
+     * Helper function to convert steps text to XML format required for test cases
+     */
+    private convertStepsToXml(steps: string): string {
+        // Accepts steps in the format: '1. Step one|Expected result one\n2. Step two|Expected result two'
+        // A line of the form '[shared:123]' inserts a reference to Shared Steps work item 123
+        return TestStepsXml.serialize(TestStepsXml.fromText(steps));
+    }
+
+    /**
+     * Helper function to parse test steps XML from Azure DevOps into a readable format,
+     * with each step's attachments when the work item relations are given
+     */
+    private parseTestStepsXml(stepsXml?: string, relations?: WorkItemRelation[]): TestStep[] {
+        if (!stepsXml) {
+            return [];
+        }
+
+        try {
+            const attachments = TestStepsXml.stepAttachments(relations);
+            const steps: TestStep[] = [];
+
+            const visit = (nodes: StepsXmlNode[], groupId?: string) => {
+                for (const node of nodes) {
+                    if (node.kind === 'compref') {
+                        steps.push({
+                            id: String(node.id),
+                            type: 'SharedStepsReference',
+                            action: '',
+                            expectedResult: '',
+                            sharedStepsId: node.ref || undefined,
+                            groupId
+                        });
+                        visit(node.children, String(node.id));
+                        continue;
+                    }
+
+                    const actionHtml = node.formatted ? TestStepsXml.sanitizeHtml(node.action) : TestStepsXml.textToHtml(node.action);
+                    const expectedResultHtml = node.formatted ? TestStepsXml.sanitizeHtml(node.expectedResult) : TestStepsXml.textToHtml(node.expectedResult);
+                    steps.push({
+                        id: String(node.id),
+                        type: node.type,
+                        action: node.formatted ? TestStepsXml.htmlToText(node.action) : node.action.trim(),
+                        expectedResult: node.formatted ? TestStepsXml.htmlToText(node.expectedResult) : node.expectedResult.trim(),
+                        actionHtml,
+                        expectedResultHtml,
+                        groupId,
+                        attachments: attachments.get(node.id)
+                    });
+                }
+            };
+            visit(TestStepsXml.parse(stepsXml).nodes);
+
+            return steps;
+        } catch (error) {
+            console.warn('Failed to parse test steps XML:', error);
+            return [];
+        }
     }
 }
@@ -0,0 +1,32 @@
+import OpenAI from 'openai';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+/**
+ * Provider for an Azure OpenAI deployment (deployment-name base URL, api-key header, api-version query)
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+    readonly name: string = 'azure';
+
+    constructor() {
+        const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+        const apiKey = process.env.AZURE_OPENAI_API_KEY;
+        const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
+        const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-02-15-preview';
+
+        if (!endpoint || !apiKey) {
+            throw new Error('Azure OpenAI configuration missing. Please set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY environment variables.');
+        }
+
+        const client = new OpenAI({
+            apiKey,
+            baseURL: `${endpoint}/openai/deployments/${deploymentName}`,
+            defaultQuery: { 'api-version': apiVersion },
+            defaultHeaders: {
+                'api-key': apiKey,
+            }
+        });
+
+        // For Azure OpenAI, the model is the deployment name
+        super(client, deploymentName);
+    }
+}
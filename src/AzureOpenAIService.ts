@@ -1,16 +1,28 @@
-import OpenAI from 'openai';
+import { JsonArrayStreamParser } from './JsonArrayStreamParser';
+import { LlmMessage, LlmProvider, createLlmProvider } from './LlmProvider';
+import { PrdParser } from './PrdParser';
+
+export const RECOMMENDATION_PRIORITIES = ['Critical', 'High', 'Medium', 'Low'] as const;
+export const RECOMMENDATION_TEST_TYPES = ['Functional', 'Integration', 'Performance', 'Security', 'Usability', 'Regression'] as const;
+
+export interface RecommendedTestStep {
+    action: string;
+    expectedResult: string;
+}
 
 export interface TestPlanRecommendation {
     name: string;
     description: string;
     objective: string;
+    prdReference: string;
+    missingInAdo: boolean;
     testCases: {
         title: string;
         description: string;
-        steps: string[];
+        steps: RecommendedTestStep[];
         expectedResult: string;
-        priority: 'Critical' | 'High' | 'Medium' | 'Low';
-        testType: 'Functional' | 'Integration' | 'Performance' | 'Security' | 'Usability' | 'Regression';
+        priority: typeof RECOMMENDATION_PRIORITIES[number];
+        testType: typeof RECOMMENDATION_TEST_TYPES[number];
     }[];
     coverage: {
         functionalAreas: string[];
@@ -19,67 +31,73 @@ export interface TestPlanRecommendation {
     };
 }
 
+// Share of LLM_MAX_PROMPT_CHARS the existing test case summary may use
+const EXISTING_SUMMARY_SHARE = 0.4;
+
+interface ExistingTestCaseSummary {
+    text: string;
+    /** Test cases left out to stay within the budget */
+    omitted: number;
+}
+
+export interface RecommendationStreamHandlers {
+    /** Called before each PRD chunk is sent to the model */
+    onChunk?(index: number, count: number): void;
+    /** Called with every content delta streamed by the model */
+    onToken?(text: string): void;
+    /** Called as soon as a complete, valid, non-duplicate recommendation has been streamed */
+    onRecommendation?(recommendation: TestPlanRecommendation): void;
+    /** Aborts the model request, e.g. when the HTTP client disconnects */
+    signal?: AbortSignal;
+}
+
+/**
+ * Generates test plan recommendations from a PRD. The model backend is a pluggable
+ * LlmProvider (Azure OpenAI by default, see LLM_PROVIDER).
+ */
 export class AzureOpenAIService {
-    private client: OpenAI;
-    private deploymentName: string;
+    private provider: LlmProvider;
+    private maxPromptChars: number;
+    private maxTokens: number;
     
-    constructor() {
-        const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-        const apiKey = process.env.AZURE_OPENAI_API_KEY;
-        const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
-        const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-02-15-preview';
-        
-        if (!endpoint || !apiKey) {
-            throw new Error('Azure OpenAI configuration missing. Please set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY environment variables.');
-        }
-        
-        this.client = new OpenAI({
-            apiKey,
-            baseURL: `${endpoint}/openai/deployments/${deploymentName}`,
-            defaultQuery: { 'api-version': apiVersion },
-            defaultHeaders: {
-                'api-key': apiKey,
-            }
-        });
-        this.deploymentName = deploymentName;
+    constructor(provider: LlmProvider = createLlmProvider()) {
+        this.provider = provider;
+        // Budget per request for PRD text plus the existing test case summary (roughly 4 characters per token)
+        this.maxPromptChars = parseInt(process.env.LLM_MAX_PROMPT_CHARS || '24000');
+        this.maxTokens = parseInt(process.env.LLM_MAX_TOKENS || '4000');
     }
     
     async generateTestPlanRecommendations(
         prd: string, 
         existingTestPlans: any[], 
-        testPlanId: string
+        testPlanId: string,
+        handlers: RecommendationStreamHandlers = {}
     ): Promise<TestPlanRecommendation[]> {
         try {
             const systemPrompt = this.buildSystemPrompt();
-            const userPrompt = this.buildUserPrompt(prd, existingTestPlans, testPlanId);
+            // The summary gets at most a share of the budget so that the PRD chunks keep most of it
+            const existingSummary = this.summarizeExistingTestCases(existingTestPlans, Math.floor(this.maxPromptChars * EXISTING_SUMMARY_SHARE));
             
-            const response = await this.client.chat.completions.create({
-                model: this.deploymentName, // For Azure OpenAI, this is the deployment name
-                messages: [
-                    {
-                        role: 'system',
-                        content: systemPrompt
-                    },
-                    {
-                        role: 'user',
-                        content: userPrompt
-                    }
-                ],
-                temperature: 0.7,
-                max_tokens: 4000,
-                top_p: 0.9,
-                frequency_penalty: 0,
-                presence_penalty: 0
-            });
+            // Large PRDs are split by heading so each request fits the model context
+            const prdBudget = Math.max(2000, this.maxPromptChars - existingSummary.text.length);
+            const chunks = PrdParser.chunk(prd, prdBudget);
+            if (chunks.length > 1) {
+                console.log(`PRD split into ${chunks.length} chunks of up to ${prdBudget} characters`);
+            }
             
-            const content = response.choices[0]?.message?.content;
-            if (!content) {
-                throw new Error('No response content received from Azure OpenAI');
+            const streaming = !!(handlers.onToken || handlers.onRecommendation);
+            const recommendations: TestPlanRecommendation[] = [];
+            const streamed: TestPlanRecommendation[] = [];
+            for (let i = 0; i < chunks.length; i++) {
+                handlers.onChunk?.(i, chunks.length);
+                const userPrompt = this.buildUserPrompt(chunks[i], existingSummary, testPlanId, i, chunks.length);
+                const content = streaming
+                    ? await this.streamCompletion(systemPrompt, userPrompt, handlers, streamed)
+                    : await this.requestCompletion(systemPrompt, userPrompt, handlers.signal);
+                recommendations.push(...this.parseRecommendations(content));
             }
             
-            // Parse the JSON response
-            const recommendations = this.parseRecommendations(content);
-            return recommendations;
+            return this.deduplicateRecommendations(recommendations);
             
         } catch (error) {
             console.error('Error generating test plan recommendations:', error);
@@ -87,6 +105,121 @@ export class AzureOpenAIService {
         }
     }
     
+    private async requestCompletion(systemPrompt: string, userPrompt: string, signal?: AbortSignal): Promise<string> {
+        const content = await this.provider.complete(this.buildMessages(systemPrompt, userPrompt), {
+            maxTokens: this.maxTokens,
+            temperature: 0.7,
+            signal
+        });
+        
+        if (!content) {
+            throw new Error(`No response content received from the ${this.provider.name} LLM provider`);
+        }
+        
+        return content;
+    }
+    
+    /**
+     * Stream a completion, reporting tokens and every recommendation as soon as its JSON object is complete.
+     * `streamed` holds the recommendations already reported (across chunks) and is used to skip duplicates.
+     */
+    private async streamCompletion(
+        systemPrompt: string,
+        userPrompt: string,
+        handlers: RecommendationStreamHandlers,
+        streamed: TestPlanRecommendation[]
+    ): Promise<string> {
+        const stream = this.provider.stream(this.buildMessages(systemPrompt, userPrompt), {
+            maxTokens: this.maxTokens,
+            temperature: 0.7,
+            signal: handlers.signal
+        });
+        
+        const parser = new JsonArrayStreamParser('recommended_e2e_tests');
+        let content = '';
+        
+        for await (const delta of stream) {
+            content += delta;
+            handlers.onToken?.(delta);
+            
+            for (const element of parser.feed(delta)) {
+                try {
+                    const [recommendation] = this.parseRecommendations(`{"recommended_e2e_tests":[${element}]}`);
+                    if (this.deduplicateRecommendations([...streamed, recommendation]).length > streamed.length) {
+                        streamed.push(recommendation);
+                        handlers.onRecommendation?.(recommendation);
+                    }
+                } catch (error) {
+                    // Invalid elements are reported by the final parse of the full response
+                }
+            }
+        }
+        
+        if (!content) {
+            throw new Error(`No response content received from the ${this.provider.name} LLM provider`);
+        }
+        
+        return content;
+    }
+    
+    private buildMessages(systemPrompt: string, userPrompt: string): LlmMessage[] {
+        return [
+            {
+                role: 'system',
+                content: systemPrompt
+            },
+            {
+                role: 'user',
+                content: userPrompt
+            }
+        ];
+    }
+    
+    /**
+     * One line per existing test case (ID, title, step count) instead of the raw ADO payload.
+     * Lines past maxChars are left out and counted in `omitted`.
+     */
+    private summarizeExistingTestCases(existingTestPlans: any[], maxChars: number): ExistingTestCaseSummary {
+        const lines: string[] = [];
+        let length = 0;
+        
+        for (const testCase of existingTestPlans) {
+            const id = testCase.workItem?.id ?? testCase.id ?? '?';
+            const title = String(testCase.workItem?.name ?? testCase.name ?? testCase.title ?? '').slice(0, 120);
+            const stepCount = Array.isArray(testCase.steps) ? ` (${testCase.steps.length} steps)` : '';
+            const line = `- [${id}] ${title}${stepCount}`;
+            if (length + line.length + 1 > maxChars) {
+                break;
+            }
+            lines.push(line);
+            length += line.length + 1;
+        }
+        
+        return { text: lines.join('\n'), omitted: existingTestPlans.length - lines.length };
+    }
+    
+    /**
+     * Merge recommendations from several chunks, dropping near-duplicate titles (keeps the first)
+     */
+    private deduplicateRecommendations(recommendations: TestPlanRecommendation[]): TestPlanRecommendation[] {
+        const normalize = (title: string) => new Set(title.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean));
+        const kept: { words: Set<string>; recommendation: TestPlanRecommendation }[] = [];
+        
+        for (const recommendation of recommendations) {
+            const words = normalize(recommendation.name);
+            const isDuplicate = kept.some(existing => {
+                const shared = Array.from(words).filter(word => existing.words.has(word)).length;
+                const union = new Set([...words, ...existing.words]).size;
+                return union > 0 && shared / union >= 0.8;
+            });
+            if (!isDuplicate) {
+                kept.push({ words, recommendation });
+            }
+        }
+        
+        return kept.map(entry => entry.recommendation);
+    }
+    
     private buildSystemPrompt(): string {
         return `You are an intelligent QA assistant tasked with analyzing two inputs:
 A Product Requirements Document (PRD) – this contains detailed functional and non-functional requirements for a product or feature.
@@ -104,31 +237,48 @@ Compare the two inputs to detect missing tests.
 Generate a structured list of recommended E2E test scenarios to ensure full PRD coverage.
 
 📤 Output Format
-Return your findings in the following JSON format:
+Return ONLY a JSON object (no markdown, no commentary) in exactly this format:
  
 {
   "recommended_e2e_tests": [
     {
       "title": "<Descriptive scenario title>",
-      "prd_reference": "<Section or line in PRD that defines the requirement>",
+      "prd_reference": "<Section number and heading in the PRD that defines the requirement, e.g. 2.1.1 Test Execution>",
       "reason": "<Why this test is required>",
       "missing_in_ado": true,
+      "priority": "<One of: Critical, High, Medium, Low>",
+      "test_type": "<One of: Functional, Integration, Performance, Security, Usability, Regression>",
+      "functional_areas": ["<Product area exercised by the scenario>"],
+      "risk_areas": ["<What could break for users if this is not tested>"],
+      "user_scenarios": ["<User journey covered>"],
       "steps": [
-        "<Step 1>",
-        "<Step 2>"
-      ]
+        { "action": "<Step 1 action>", "expected_result": "<Observable result of step 1>" },
+        { "action": "<Step 2 action>", "expected_result": "<Observable result of step 2>" }
+      ],
+      "expected_result": "<Overall outcome when the scenario passes>"
     }
   ]
-}`;
+}
+
+Rules
+- Every step must have both an action and a concrete, verifiable expected result.
+- Use Critical only for scenarios whose failure blocks core user journeys or causes data loss or security exposure.
+- Set missing_in_ado to false only when the scenario is partially covered and the recommendation extends an existing test.`;
     }
     
-    private buildUserPrompt(prd: string, existingTestPlans: any[], testPlanId: string): string {
-        const existingPlansText = existingTestPlans.length > 0 
-            ? `Here are the existing test plans and test cases for Test Plan ID ${testPlanId}:\n${JSON.stringify(existingTestPlans, null, 2)}\n\n`
+    private buildUserPrompt(prdChunk: string, existingSummary: ExistingTestCaseSummary, testPlanId: string, chunkIndex: number, chunkCount: number): string {
+        const omittedText = existingSummary.omitted > 0
+            ? `\n(The list is truncated: ${existingSummary.omitted} more existing test case(s) are not shown. Do not assume a scenario is missing only because it is not listed.)`
+            : '';
+        const existingPlansText = existingSummary.text || existingSummary.omitted > 0
+            ? `Here are the existing test cases for Test Plan ID ${testPlanId} ([work item ID] title):\n${existingSummary.text}${omittedText}\n\n`
             : 'No existing test plans provided.\n\n';
+        const chunkText = chunkCount > 1
+            ? ` (part ${chunkIndex + 1} of ${chunkCount}; only recommend tests for requirements in this part)`
+            : '';
             
-        return `${existingPlansText}Product Requirements Document (PRD):
-${prd}
+        return `${existingPlansText}Product Requirements Document (PRD)${chunkText}:
+${prdChunk}
 
 Please analyze the PRD and existing test plans to identify missing end-to-end test scenarios. Focus on critical user journeys and business workflows that are not covered by the existing tests.`;
     }
@@ -142,51 +292,182 @@ Please analyze the PRD and existing test plans to identify missing end-to-end te
                 .trim();
             
             const parsed = JSON.parse(cleanContent);
+            const e2eTests = AzureOpenAIService.validateRecommendations(parsed);
+            
+            return e2eTests.map(test => ({
+                name: test.title,
+                description: test.reason,
+                objective: `Ensure ${test.title.toLowerCase()} works correctly as described in ${test.prd_reference}`,
+                prdReference: test.prd_reference,
+                missingInAdo: test.missing_in_ado,
+                testCases: [{
+                    title: test.title,
+                    description: test.reason,
+                    steps: test.steps.map((step: any) => ({
+                        action: step.action.trim(),
+                        expectedResult: step.expected_result.trim()
+                    })),
+                    expectedResult: test.expected_result,
+                    priority: test.priority,
+                    testType: test.test_type
+                }],
+                coverage: {
+                    functionalAreas: test.functional_areas,
+                    riskAreas: test.risk_areas,
+                    userScenarios: test.user_scenarios || [test.title]
+                }
+            }));
+            
+        } catch (error) {
+            console.error('Error parsing recommendations:', error);
+            console.error('Content received:', content);
+            throw new Error(`Failed to parse recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+    
+    /**
+     * Validate the model output against the recommendation schema.
+     * Collects every problem (with its JSON path) instead of stopping at the first one,
+     * and normalizes the casing of enum values. Returns the validated tests.
+     */
+    static validateRecommendations(parsed: any): any[] {
+        if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.recommended_e2e_tests)) {
+            throw new Error('Response must be a JSON object with a recommended_e2e_tests array');
+        }
+        
+        const errors: string[] = [];
+        const { requireString, requireStringArray, requireEnum } = AzureOpenAIService.schemaChecks(errors);
+        
+        parsed.recommended_e2e_tests.forEach((test: any, index: number) => {
+            const path = `recommended_e2e_tests[${index}]`;
+            if (!test || typeof test !== 'object') {
+                errors.push(`${path}: expected an object but got ${JSON.stringify(test)}`);
+                return;
+            }
             
-            // Handle new format with recommended_e2e_tests
-            let e2eTests: any[] = [];
+            requireString(test.title, `${path}.title`);
+            requireString(test.prd_reference, `${path}.prd_reference`);
+            requireString(test.reason, `${path}.reason`);
+            requireString(test.expected_result, `${path}.expected_result`);
+            if (typeof test.missing_in_ado !== 'boolean') {
+                errors.push(`${path}.missing_in_ado: expected a boolean but got ${JSON.stringify(test.missing_in_ado)}`);
+            }
+            requireEnum(test, 'priority', RECOMMENDATION_PRIORITIES, path);
+            requireEnum(test, 'test_type', RECOMMENDATION_TEST_TYPES, path);
+            requireStringArray(test.functional_areas, `${path}.functional_areas`, false);
+            requireStringArray(test.risk_areas, `${path}.risk_areas`, true);
+            if (test.user_scenarios !== undefined) {
+                requireStringArray(test.user_scenarios, `${path}.user_scenarios`, true);
+            }
             
-            if (parsed.recommended_e2e_tests && Array.isArray(parsed.recommended_e2e_tests)) {
-                e2eTests = parsed.recommended_e2e_tests;
-            } else if (Array.isArray(parsed)) {
-                // Fallback for old format
-                return parsed as TestPlanRecommendation[];
+            if (!Array.isArray(test.steps) || test.steps.length === 0) {
+                errors.push(`${path}.steps: expected a non-empty array of { action, expected_result } but got ${JSON.stringify(test.steps)}`);
             } else {
-                throw new Error('Response must contain recommended_e2e_tests array or be an array of test plan recommendations');
+                test.steps.forEach((step: any, stepIndex: number) => {
+                    const stepPath = `${path}.steps[${stepIndex}]`;
+                    if (!step || typeof step !== 'object') {
+                        errors.push(`${stepPath}: expected an object with action and expected_result but got ${JSON.stringify(step)}`);
+                        return;
+                    }
+                    requireString(step.action, `${stepPath}.action`);
+                    requireString(step.expected_result, `${stepPath}.expected_result`);
+                });
+            }
+        });
+        
+        if (errors.length > 0) {
+            throw new Error(`Response does not match the recommendation schema (${errors.length} error(s)):\n- ${errors.join('\n- ')}`);
+        }
+        
+        return parsed.recommended_e2e_tests;
+    }
+    
+    /**
+     * Validate recommendations sent back by a client (e.g. to apply them) against the TestPlanRecommendation shape.
+     * Returns every problem with its JSON path, or an empty array when they are valid; enum casing is normalized.
+     */
+    static validateTestPlanRecommendations(recommendations: any): string[] {
+        if (!Array.isArray(recommendations)) {
+            return [`recommendations: expected an array but got ${JSON.stringify(recommendations)}`];
+        }
+        
+        const errors: string[] = [];
+        const { requireString, requireEnum } = AzureOpenAIService.schemaChecks(errors);
+        
+        recommendations.forEach((recommendation: any, index: number) => {
+            const path = `recommendations[${index}]`;
+            if (!recommendation || typeof recommendation !== 'object') {
+                errors.push(`${path}: expected an object but got ${JSON.stringify(recommendation)}`);
+                return;
             }
             
-            // Convert new format to TestPlanRecommendation format
-            const recommendations: TestPlanRecommendation[] = e2eTests.map((test, index) => {
-                if (!test.title || !test.reason || !Array.isArray(test.steps)) {
-                    throw new Error(`Invalid E2E test structure at index ${index}`);
+            requireString(recommendation.name, `${path}.name`);
+            if (!Array.isArray(recommendation.testCases) || recommendation.testCases.length === 0) {
+                errors.push(`${path}.testCases: expected a non-empty array but got ${JSON.stringify(recommendation.testCases)}`);
+                return;
+            }
+            
+            recommendation.testCases.forEach((testCase: any, testCaseIndex: number) => {
+                const testCasePath = `${path}.testCases[${testCaseIndex}]`;
+                if (!testCase || typeof testCase !== 'object') {
+                    errors.push(`${testCasePath}: expected an object but got ${JSON.stringify(testCase)}`);
+                    return;
                 }
                 
-                return {
-                    name: test.title,
-                    description: test.reason,
-                    objective: `Ensure ${test.title.toLowerCase()} works correctly as described in ${test.prd_reference || 'PRD'}`,
-                    testCases: [{
-                        title: test.title,
-                        description: test.reason,
-                        steps: test.steps,
-                        expectedResult: "All steps complete successfully and the workflow functions as expected",
-                        priority: 'High' as const,
-                        testType: 'Functional' as const
-                    }],
-                    coverage: {
-                        functionalAreas: [test.title.split(' ').slice(0, 2).join(' ')],
-                        riskAreas: ["User workflow", "Business process"],
-                        userScenarios: [test.title]
+                requireString(testCase.title, `${testCasePath}.title`);
+                if (testCase.expectedResult !== undefined && typeof testCase.expectedResult !== 'string') {
+                    errors.push(`${testCasePath}.expectedResult: expected a string but got ${JSON.stringify(testCase.expectedResult)}`);
+                }
+                requireEnum(testCase, 'priority', RECOMMENDATION_PRIORITIES, testCasePath);
+                requireEnum(testCase, 'testType', RECOMMENDATION_TEST_TYPES, testCasePath);
+                
+                if (!Array.isArray(testCase.steps) || testCase.steps.length === 0) {
+                    errors.push(`${testCasePath}.steps: expected a non-empty array of { action, expectedResult } but got ${JSON.stringify(testCase.steps)}`);
+                    return;
+                }
+                testCase.steps.forEach((step: any, stepIndex: number) => {
+                    const stepPath = `${testCasePath}.steps[${stepIndex}]`;
+                    if (!step || typeof step !== 'object') {
+                        errors.push(`${stepPath}: expected an object with action and expectedResult but got ${JSON.stringify(step)}`);
+                        return;
+                    }
+                    requireString(step.action, `${stepPath}.action`);
+                    if (typeof step.expectedResult !== 'string') {
+                        errors.push(`${stepPath}.expectedResult: expected a string but got ${JSON.stringify(step.expectedResult)}`);
                     }
-                };
+                });
             });
-            
-            return recommendations;
-            
-        } catch (error) {
-            console.error('Error parsing recommendations:', error);
-            console.error('Content received:', content);
-            throw new Error(`Failed to parse recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+        });
+        
+        return errors;
+    }
+    
+    /**
+     * Field checks shared by the schema validators; each pushes its problem onto errors
+     */
+    private static schemaChecks(errors: string[]) {
+        const requireString = (value: any, path: string) => {
+            if (typeof value !== 'string' || value.trim() === '') {
+                errors.push(`${path}: expected a non-empty string but got ${JSON.stringify(value)}`);
+            }
+        };
+        const requireStringArray = (value: any, path: string, allowEmpty: boolean) => {
+            if (!Array.isArray(value) || (!allowEmpty && value.length === 0)) {
+                errors.push(`${path}: expected ${allowEmpty ? 'an' : 'a non-empty'} array of strings but got ${JSON.stringify(value)}`);
+                return;
+            }
+            value.forEach((item, index) => requireString(item, `${path}[${index}]`));
+        };
+        const requireEnum = (target: any, field: string, allowed: readonly string[], path: string) => {
+            const match = typeof target[field] === 'string'
+                ? allowed.find(option => option.toLowerCase() === target[field].trim().toLowerCase())
+                : undefined;
+            if (!match) {
+                errors.push(`${path}.${field}: expected one of ${allowed.join(', ')} but got ${JSON.stringify(target[field])}`);
+            } else {
+                target[field] = match;
+            }
+        };
+        return { requireString, requireStringArray, requireEnum };
     }
 }
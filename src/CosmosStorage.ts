@@ -0,0 +1,157 @@
+import { Container, CosmosClient } from '@azure/cosmos';
+import { DefaultAzureCredential } from '@azure/identity';
+import { Connection, IssueLink, PlanTemplate, RecommendationRecord, StorageProvider, TestSuite } from './Storage';
+
+type DocumentKind = 'connection' | 'suites' | 'issueLink' | 'recommendation' | 'planTemplate';
+
+/**
+ * Storage backed by an Azure Cosmos DB (NoSQL) container.
+ * All documents share one container, partitioned by their `kind`. Document ids are the base64url encoding of the
+ * resource id or template name (Cosmos rejects ids containing /, \, ? or #); the original is kept in `key`.
+ */
+export class CosmosStorage implements StorageProvider {
+    readonly name: string = 'cosmos';
+    private client: CosmosClient;
+    private databaseId: string;
+    private containerId: string;
+    private container: Container | null = null;
+
+    constructor() {
+        const endpoint = process.env.COSMOS_ENDPOINT;
+        const key = process.env.COSMOS_KEY;
+
+        if (!endpoint) {
+            throw new Error('Cosmos DB configuration missing. Please set COSMOS_ENDPOINT (and COSMOS_KEY, or use Azure AD credentials).');
+        }
+
+        // Prefer the account key; otherwise authenticate with Azure AD (managed identity, service principal, CLI)
+        this.client = key
+            ? new CosmosClient({ endpoint, key })
+            : new CosmosClient({ endpoint, aadCredentials: new DefaultAzureCredential() });
+        this.databaseId = process.env.COSMOS_DATABASE || 'testplans';
+        this.containerId = process.env.COSMOS_CONTAINER || 'server-state';
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            const { database } = await this.client.databases.createIfNotExists({ id: this.databaseId });
+            const { container } = await database.containers.createIfNotExists({
+                id: this.containerId,
+                partitionKey: { paths: ['/kind'] }
+            });
+            this.container = container;
+            console.log(`Connected to Cosmos DB container ${this.databaseId}/${this.containerId}`);
+        } catch (error) {
+            console.error('Failed to initialize Cosmos DB storage:', error);
+            throw error;
+        }
+    }
+
+    async getConnection(resourceId: string): Promise<Connection | undefined> {
+        const document = await this.readDocument('connection', resourceId);
+        return document?.connection;
+    }
+
+    async saveConnection(connection: Connection): Promise<void> {
+        await this.upsertDocument('connection', connection.resourceId, { connection });
+    }
+
+    async getSuites(resourceId: string): Promise<TestSuite[] | undefined> {
+        const document = await this.readDocument('suites', resourceId);
+        return document?.suites;
+    }
+
+    async saveSuites(resourceId: string, suites: TestSuite[]): Promise<void> {
+        await this.upsertDocument('suites', resourceId, { suites });
+    }
+
+    async getIssueLinks(resourceId: string): Promise<IssueLink[]> {
+        const { resources } = await this.getContainer().items.query({
+            query: 'SELECT * FROM c WHERE c.kind = @kind AND c.link.resourceId = @resourceId',
+            parameters: [
+                { name: '@kind', value: 'issueLink' },
+                { name: '@resourceId', value: resourceId }
+            ]
+        }).fetchAll();
+
+        return resources.map(document => document.link);
+    }
+
+    async saveIssueLink(link: IssueLink): Promise<void> {
+        await this.upsertDocument('issueLink', `${link.resourceId}:${link.testCaseId}`, { link });
+    }
+
+    async getRecommendationHistory(testPlanId?: string): Promise<RecommendationRecord[]> {
+        const filter = testPlanId ? ' AND c.record.testPlanId = @testPlanId' : '';
+        const { resources } = await this.getContainer().items.query({
+            query: `SELECT * FROM c WHERE c.kind = @kind${filter} ORDER BY c.record.generatedAt DESC`,
+            parameters: [
+                { name: '@kind', value: 'recommendation' },
+                { name: '@testPlanId', value: testPlanId || '' }
+            ]
+        }).fetchAll();
+
+        return resources.map(document => document.record);
+    }
+
+    async saveRecommendations(record: RecommendationRecord): Promise<void> {
+        await this.upsertDocument('recommendation', record.id, { record });
+    }
+
+    async getPlanTemplates(): Promise<PlanTemplate[]> {
+        const { resources } = await this.getContainer().items.query({
+            query: 'SELECT * FROM c WHERE c.kind = @kind ORDER BY c.template.name',
+            parameters: [{ name: '@kind', value: 'planTemplate' }]
+        }).fetchAll();
+
+        return resources.map(document => document.template);
+    }
+
+    async getPlanTemplate(name: string): Promise<PlanTemplate | undefined> {
+        const document = await this.readDocument('planTemplate', name);
+        return document?.template;
+    }
+
+    async savePlanTemplate(template: PlanTemplate): Promise<void> {
+        await this.upsertDocument('planTemplate', template.name, { template });
+    }
+
+    async deletePlanTemplate(name: string): Promise<boolean> {
+        try {
+            await this.getContainer().item(CosmosStorage.documentId(name), 'planTemplate').delete();
+            return true;
+        } catch (error: any) {
+            if (error.code === 404) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private getContainer(): Container {
+        if (!this.container) {
+            throw new Error('Storage not initialized. Call initialize() first.');
+        }
+        return this.container;
+    }
+
+    private async readDocument(kind: DocumentKind, key: string): Promise<any | undefined> {
+        try {
+            const { resource } = await this.getContainer().item(CosmosStorage.documentId(key), kind).read();
+            return resource;
+        } catch (error: any) {
+            if (error.code === 404) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    private async upsertDocument(kind: DocumentKind, key: string, body: Record<string, unknown>): Promise<void> {
+        await this.getContainer().items.upsert({ id: CosmosStorage.documentId(key), key, kind, ...body });
+    }
+
+    private static documentId(key: string): string {
+        return Buffer.from(key, 'utf8').toString('base64url');
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Quote a single CSV field when it contains a delimiter, quote or line break
+ */
+export function escapeCsvField(value: unknown): string {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize a header row plus data rows into RFC 4180 CSV
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+    return [header, ...rows]
+        .map(row => row.map(escapeCsvField).join(','))
+        .join('\r\n');
+}
+
+export interface CsvRecord {
+    /** 1-based line the record starts on; quoted fields can span lines */
+    line: number;
+    fields: string[];
+}
+
+/**
+ * Parse RFC 4180 CSV, including files saved by Excel: a byte order mark, CRLF line endings and,
+ * in locales that use a decimal comma, ';' or tab delimiters (detected from the header line when not given).
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter?: string): CsvRecord[] {
+    const content = text.replace(/^\uFEFF/, '');
+    const separator = delimiter || detectCsvDelimiter(content);
+    const records: CsvRecord[] = [];
+
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+        fields.push(field);
+        if (fields.length > 1 || fields[0] !== '') {
+            records.push({ line: recordLine, fields });
+        }
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else if (char === '\r' && content[i + 1] === '\n') {
+                // Keep line breaks inside fields as \n
+                continue;
+            } else {
+                if (char === '\n') {
+                    line++;
+                }
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === separator) {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || fields.length > 0) {
+        endRecord();
+    }
+
+    return records;
+}
+
+/**
+ * Pick ',', ';' or tab, whichever occurs most often outside quotes on the first line
+ */
+export function detectCsvDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+    return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+}
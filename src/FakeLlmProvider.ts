@@ -0,0 +1,70 @@
+import { LlmCompletionOptions, LlmMessage, LlmProvider } from './LlmProvider';
+import { PrdParser } from './PrdParser';
+
+export type FakeResponder = (messages: LlmMessage[]) => string;
+
+/**
+ * Deterministic provider for tests, CI and offline development.
+ * By default it answers recommendation prompts with one scenario per numbered PRD requirement
+ * section found in the user message; a custom responder can be supplied for other prompts.
+ */
+export class FakeLlmProvider implements LlmProvider {
+    readonly name: string = 'fake';
+    private responder: FakeResponder;
+
+    constructor(responder?: FakeResponder) {
+        this.responder = responder || FakeLlmProvider.recommendationResponder;
+    }
+
+    async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<string> {
+        if (options.signal?.aborted) {
+            throw new Error('Request aborted');
+        }
+        return this.responder(messages);
+    }
+
+    async *stream(messages: LlmMessage[], options: LlmCompletionOptions = {}): AsyncIterable<string> {
+        const content = await this.complete(messages, options);
+
+        // Emit fixed-size slices so consumers see a realistic token stream
+        for (let i = 0; i < content.length; i += 16) {
+            if (options.signal?.aborted) {
+                throw new Error('Request aborted');
+            }
+            yield content.slice(i, i + 16);
+        }
+    }
+
+    /**
+     * Build a schema-valid recommendation response from the PRD text in the last user message
+     */
+    static recommendationResponder(messages: LlmMessage[]): string {
+        const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+        const sections = PrdParser.requirementSections(prompt);
+
+        const tests = sections.map(section => {
+            const bullets = section.content
+                .split('\n')
+                .map(line => line.replace(/^\s*(?:[-*]|\d+\.)\s+/, '').replace(/\*\*/g, '').trim())
+                .filter(line => line.length > 0 && !line.endsWith(':'))
+                .slice(0, 5);
+            const actions = bullets.length > 0 ? bullets : [`Exercise "${section.title}"`];
+
+            return {
+                title: `Verify ${section.title}`,
+                prd_reference: `${section.id} ${section.title}`,
+                reason: `Section ${section.id} has no dedicated end-to-end coverage.`,
+                missing_in_ado: true,
+                priority: 'High',
+                test_type: 'Functional',
+                functional_areas: [section.parentTitle || section.title],
+                risk_areas: [`${section.title} regressions`],
+                user_scenarios: [section.title],
+                steps: actions.map(action => ({ action, expected_result: `${action} completes as described in ${section.id}` })),
+                expected_result: `${section.title} works as specified`
+            };
+        });
+
+        return JSON.stringify({ recommended_e2e_tests: tests }, null, 2);
+    }
+}
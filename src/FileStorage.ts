@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { InMemoryStorage } from './InMemoryStorage';
+import { Connection, IssueLink, PlanTemplate, RecommendationRecord, TestSuite } from './Storage';
+
+interface StorageFileContents {
+    connections: Record<string, Connection>;
+    suites: Record<string, TestSuite[]>;
+    issueLinks: Record<string, IssueLink>;
+    recommendations: RecommendationRecord[];
+    planTemplates: Record<string, PlanTemplate>;
+}
+
+/**
+ * Storage backed by a local JSON file. Suitable for development and single-instance deployments.
+ */
+export class FileStorage extends InMemoryStorage {
+    readonly name: string = 'file';
+    private filePath: string;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        super();
+        this.filePath = path.resolve(filePath);
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            const raw = await fs.readFile(this.filePath, 'utf8');
+            const contents: Partial<StorageFileContents> = JSON.parse(raw);
+
+            this.connections = new Map(Object.entries(contents.connections || {}));
+            this.suites = new Map(Object.entries(contents.suites || {}));
+            this.issueLinks = new Map(Object.entries(contents.issueLinks || {}));
+            this.recommendations = contents.recommendations || [];
+            this.planTemplates = new Map(Object.entries(contents.planTemplates || {}));
+
+            console.log(`Loaded storage from ${this.filePath}`);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`Failed to load storage file ${this.filePath}: ${error.message}`);
+            }
+            console.log(`Storage file ${this.filePath} not found, starting empty`);
+        }
+    }
+
+    protected async persist(): Promise<void> {
+        const contents: StorageFileContents = {
+            connections: Object.fromEntries(this.connections),
+            suites: Object.fromEntries(this.suites),
+            issueLinks: Object.fromEntries(this.issueLinks),
+            recommendations: this.recommendations,
+            planTemplates: Object.fromEntries(this.planTemplates)
+        };
+
+        // Serialize writes so concurrent requests cannot interleave partial files;
+        // a failed write must not block the ones queued after it
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(tempPath, JSON.stringify(contents, null, 2), 'utf8');
+            await fs.rename(tempPath, this.filePath);
+        });
+
+        return this.writeQueue;
+    }
+}
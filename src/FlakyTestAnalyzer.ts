@@ -0,0 +1,267 @@
+import { Build } from 'azure-devops-node-api/interfaces/BuildInterfaces';
+import { ShallowTestCaseResult } from 'azure-devops-node-api/interfaces/TestInterfaces';
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { TestResultsAnalytics } from './TestResultsAnalytics';
+
+export interface FlakyAnalysisOptions {
+    buildIds?: number[];
+    definitionId?: number;
+    /** Number of latest builds to analyze when using definitionId (default 20) */
+    top?: number;
+    branchName?: string;
+    /** Minimum number of builds a test must have run in (default 3) */
+    minRuns?: number;
+    /** Minimum flip rate (0-1) to flag a test as flaky (default 0.2) */
+    threshold?: number;
+}
+
+export interface FlakyTrackingOptions {
+    /** Work item type for tracking items (default Bug) */
+    workItemType?: string;
+    areaPath?: string;
+    iterationPath?: string;
+}
+
+export interface FlakyTestHistoryEntry {
+    buildId: number;
+    outcome: 'passed' | 'failed';
+    /** The test both passed and failed within the build (re-run) */
+    retried: boolean;
+}
+
+export interface FlakyTest {
+    key: string;
+    name: string;
+    storage?: string;
+    runs: number;
+    passes: number;
+    failures: number;
+    /** Outcome changes between consecutive builds */
+    flips: number;
+    /** Flips not explained by a change: same commit, re-run in one build, or reverted by the next build */
+    unexplainedFlips: number;
+    retryFlips: number;
+    /** Unexplained flips per opportunity to flip (0-1) */
+    flipRate: number;
+    lastOutcome: 'passed' | 'failed';
+    history: FlakyTestHistoryEntry[];
+    workItemId?: number;
+    workItemAction?: 'created' | 'updated';
+    workItemError?: string;
+}
+
+export interface FlakyTestReport {
+    builds: Array<{ buildId: number; buildNumber?: string; sourceVersion?: string; finishTime?: Date }>;
+    analyzedTests: number;
+    threshold: number;
+    minRuns: number;
+    flakyTests: FlakyTest[];
+}
+
+export interface FlakyBuildOutcome {
+    build: Build;
+    outcome: 'passed' | 'failed';
+    retried: boolean;
+}
+
+const FLAKY_TAG = 'flaky-test';
+
+/**
+ * Finds tests whose outcome flips across builds without a related change and scores them by flip rate
+ */
+export class FlakyTestAnalyzer {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Analyze the given builds (or the latest builds of a definition) for flaky tests, most flaky first
+     */
+    async analyze(options: FlakyAnalysisOptions): Promise<FlakyTestReport> {
+        const builds = await this.client.getBuilds({
+            buildIds: options.buildIds,
+            definitionId: options.definitionId,
+            top: options.top ?? 20,
+            branchName: options.branchName
+        });
+
+        // Oldest first, so flips are counted in build order
+        const ordered = builds
+            .filter(build => build.id !== undefined)
+            .sort((a, b) => (a.finishTime?.getTime() ?? a.id!) - (b.finishTime?.getTime() ?? b.id!));
+
+        const resultsByBuild = new Map<number, ShallowTestCaseResult[]>();
+        for (const build of ordered) {
+            resultsByBuild.set(build.id!, await this.client.getTestResultsByBuild(build.id!));
+        }
+
+        return FlakyTestAnalyzer.computeReport(ordered, resultsByBuild, options.minRuns ?? 3, options.threshold ?? 0.2);
+    }
+
+    /**
+     * Create or update a tracking work item for each flaky test in the report (matched by title and tag)
+     */
+    async trackFlakyTests(report: FlakyTestReport, options: FlakyTrackingOptions = {}): Promise<FlakyTestReport> {
+        const workItemType = options.workItemType || 'Bug';
+
+        for (const test of report.flakyTests) {
+            const title = FlakyTestAnalyzer.workItemTitle(test);
+            const summary = FlakyTestAnalyzer.describe(test, report);
+
+            try {
+                const existingIds = await this.client.queryWorkItemIds(
+                    `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project ` +
+                    `AND [System.WorkItemType] = '${FlakyTestAnalyzer.escapeWiql(workItemType)}' ` +
+                    `AND [System.Title] = '${FlakyTestAnalyzer.escapeWiql(title)}' ` +
+                    `AND [System.Tags] CONTAINS '${FLAKY_TAG}' AND [System.State] <> 'Closed' AND [System.State] <> 'Removed'`,
+                    1
+                );
+
+                if (existingIds.length > 0) {
+                    await this.client.updateWorkItemFields(existingIds[0], { 'System.History': summary });
+                    test.workItemId = existingIds[0];
+                    test.workItemAction = 'updated';
+                } else {
+                    const workItem = await this.client.createWorkItem(workItemType, {
+                        'System.Title': title,
+                        'System.Tags': FLAKY_TAG,
+                        'System.AreaPath': options.areaPath,
+                        'System.IterationPath': options.iterationPath,
+                        // Bugs show repro steps; other types use the description
+                        [workItemType === 'Bug' ? 'Microsoft.VSTS.TCM.ReproSteps' : 'System.Description']: summary
+                    });
+                    test.workItemId = workItem.id;
+                    test.workItemAction = 'created';
+                }
+            } catch (error) {
+                test.workItemError = error instanceof Error ? error.message : 'Unknown error';
+            }
+        }
+
+        return report;
+    }
+
+    static computeReport(builds: Build[], resultsByBuild: Map<number, ShallowTestCaseResult[]>, minRuns: number, threshold: number): FlakyTestReport {
+        const outcomesByTest = new Map<string, { name: string; storage?: string; outcomes: FlakyBuildOutcome[] }>();
+
+        for (const build of builds) {
+            const byKey = new Map<string, ShallowTestCaseResult[]>();
+            for (const result of resultsByBuild.get(build.id!) || []) {
+                const key = TestResultsAnalytics.testKey(result);
+                byKey.set(key, [...(byKey.get(key) || []), result]);
+            }
+
+            for (const [key, attempts] of byKey) {
+                // Only executed pass/fail outcomes say anything about flakiness
+                const categories = attempts
+                    .sort((a, b) => (a.runId ?? 0) - (b.runId ?? 0) || (a.id ?? 0) - (b.id ?? 0))
+                    .map(attempt => TestResultsAnalytics.categorize(attempt.outcome))
+                    .filter((category): category is 'passed' | 'failed' => category === 'passed' || category === 'failed');
+                if (categories.length === 0) {
+                    continue;
+                }
+
+                const test = outcomesByTest.get(key) || {
+                    name: attempts[0].automatedTestName || attempts[0].testCaseTitle || key,
+                    storage: attempts[0].automatedTestStorage,
+                    outcomes: []
+                };
+                test.outcomes.push({
+                    build,
+                    outcome: categories[categories.length - 1],
+                    retried: categories.includes('passed') && categories.includes('failed')
+                });
+                outcomesByTest.set(key, test);
+            }
+        }
+
+        const flakyTests: FlakyTest[] = [];
+        for (const [key, test] of outcomesByTest) {
+            if (test.outcomes.length < minRuns) {
+                continue;
+            }
+
+            const scored = FlakyTestAnalyzer.score(key, test.name, test.storage, test.outcomes);
+            if (scored.flipRate >= threshold && scored.unexplainedFlips > 0) {
+                flakyTests.push(scored);
+            }
+        }
+
+        flakyTests.sort((a, b) => b.flipRate - a.flipRate || b.unexplainedFlips - a.unexplainedFlips);
+
+        return {
+            builds: builds.map(build => ({ buildId: build.id!, buildNumber: build.buildNumber, sourceVersion: build.sourceVersion, finishTime: build.finishTime })),
+            analyzedTests: outcomesByTest.size,
+            threshold,
+            minRuns,
+            flakyTests
+        };
+    }
+
+    /**
+     * Count flips between consecutive builds. A flip is unexplained when both builds ran the same commit,
+     * or when the next build flips back (a blip rather than a lasting regression or fix).
+     * A pass and a fail inside one build (re-run) always counts as unexplained.
+     */
+    static score(key: string, name: string, storage: string | undefined, outcomes: FlakyBuildOutcome[]): FlakyTest {
+        let flips = 0;
+        let unexplainedFlips = 0;
+        const retryFlips = outcomes.filter(entry => entry.retried).length;
+
+        for (let i = 1; i < outcomes.length; i++) {
+            const previous = outcomes[i - 1];
+            const current = outcomes[i];
+            if (previous.outcome === current.outcome) {
+                continue;
+            }
+
+            flips++;
+            const sameCommit = !!current.build.sourceVersion && current.build.sourceVersion === previous.build.sourceVersion;
+            const revertedNext = outcomes[i + 1] !== undefined && outcomes[i + 1].outcome === previous.outcome;
+            if (sameCommit || revertedNext) {
+                unexplainedFlips++;
+            }
+        }
+
+        // Each build boundary and each build (for re-runs) is an opportunity to flip
+        const opportunities = (outcomes.length - 1) + outcomes.length;
+        const totalUnexplained = unexplainedFlips + retryFlips;
+
+        return {
+            key,
+            name,
+            storage,
+            runs: outcomes.length,
+            passes: outcomes.filter(entry => entry.outcome === 'passed').length,
+            failures: outcomes.filter(entry => entry.outcome === 'failed').length,
+            flips,
+            unexplainedFlips: totalUnexplained,
+            retryFlips,
+            flipRate: opportunities > 0 ? Math.round((totalUnexplained / opportunities) * 1000) / 1000 : 0,
+            lastOutcome: outcomes[outcomes.length - 1].outcome,
+            history: outcomes.map(entry => ({ buildId: entry.build.id!, outcome: entry.outcome, retried: entry.retried }))
+        };
+    }
+
+    private static workItemTitle(test: FlakyTest): string {
+        // Work item titles are limited to 255 characters
+        return `Flaky test: ${test.name}`.slice(0, 255);
+    }
+
+    private static describe(test: FlakyTest, report: FlakyTestReport): string {
+        const buildNumbers = new Map(report.builds.map(build => [build.buildId, build.buildNumber || String(build.buildId)]));
+        const history = test.history
+            .map(entry => `${buildNumbers.get(entry.buildId)}: ${entry.outcome}${entry.retried ? ' (passed on re-run)' : ''}`)
+            .join('<br/>');
+
+        return `<p>Flaky test detected: <b>${FlakyTestAnalyzer.escapeHtml(test.name)}</b>${test.storage ? ` (${FlakyTestAnalyzer.escapeHtml(test.storage)})` : ''}</p>` +
+            `<p>Flip rate ${Math.round(test.flipRate * 100)}% over ${test.runs} builds: ${test.passes} passed, ${test.failures} failed, ` +
+            `${test.unexplainedFlips} unexplained flip(s).</p><p>${history}</p>`;
+    }
+
+    private static escapeWiql(value: string): string {
+        return value.replace(/'/g, "''");
+    }
+
+    private static escapeHtml(value: string): string {
+        return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+}
@@ -0,0 +1,256 @@
+export type GherkinStepType = 'context' | 'action' | 'outcome';
+
+export interface GherkinStep {
+    /** Keyword as written: Given, When, Then, And, But or * */
+    keyword: string;
+    text: string;
+    /** Given, When or Then; And, But and * take the type of the step before them */
+    type: GherkinStepType;
+    docString?: string;
+    dataTable?: string[][];
+    line: number;
+}
+
+export interface GherkinExamples {
+    name: string;
+    tags: string[];
+    header: string[];
+    rows: string[][];
+    line: number;
+}
+
+export interface GherkinScenario {
+    name: string;
+    description: string;
+    /** Tags written on the scenario, without '@' */
+    tags: string[];
+    /** Steps of the feature and rule backgrounds, run before the scenario's own */
+    background: GherkinStep[];
+    steps: GherkinStep[];
+    /** Examples of a Scenario Outline; empty for plain scenarios */
+    examples: GherkinExamples[];
+    outline: boolean;
+    rule?: string;
+    line: number;
+}
+
+export interface GherkinFeature {
+    name: string;
+    description: string;
+    tags: string[];
+    scenarios: GherkinScenario[];
+    line: number;
+}
+
+const STEP_TYPES: Record<string, GherkinStepType> = { given: 'context', when: 'action', then: 'outcome' };
+
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const BLOCK_PATTERN = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+
+/**
+ * Parses Gherkin feature files (English keywords): Feature, Rule, Background, Scenario, Scenario Outline with Examples,
+ * tags, descriptions, doc strings and data tables. Syntax errors are thrown with their line number.
+ */
+export class GherkinParser {
+    static parse(text: string): GherkinFeature {
+        const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+        let feature: GherkinFeature | undefined;
+        let featureBackground: GherkinStep[] = [];
+        let ruleBackground: GherkinStep[] = [];
+        let rule: string | undefined;
+
+        // The block that free text, steps and tables currently belong to
+        let block: { kind: 'feature' | 'rule' | 'background' | 'scenario' | 'examples'; steps?: GherkinStep[]; description: string[] } | undefined;
+        let scenario: GherkinScenario | undefined;
+        let examples: GherkinExamples | undefined;
+        let step: GherkinStep | undefined;
+        let pendingTags: string[] = [];
+
+        const fail = (lineNumber: number, message: string): never => {
+            throw new Error(`Gherkin line ${lineNumber}: ${message}`);
+        };
+
+        const closeBlock = () => {
+            if (!block) {
+                return;
+            }
+            const description = block.description.join('\n').trim();
+            if (block.kind === 'feature' && feature) {
+                feature.description = description;
+            } else if (block.kind === 'scenario' && scenario) {
+                scenario.description = description;
+            }
+            block = undefined;
+            step = undefined;
+            examples = undefined;
+        };
+
+        for (let index = 0; index < lines.length; index++) {
+            const lineNumber = index + 1;
+            const line = lines[index].trim();
+
+            if (line === '' || line.startsWith('#')) {
+                if (line === '' && block && block.description.length > 0 && !step) {
+                    block.description.push('');
+                }
+                continue;
+            }
+
+            if (line.startsWith('@')) {
+                pendingTags.push(...GherkinParser.readTags(line));
+                continue;
+            }
+
+            const blockMatch = line.match(BLOCK_PATTERN);
+            if (blockMatch) {
+                const [, keyword, name] = blockMatch;
+                const tags = pendingTags;
+                pendingTags = [];
+                closeBlock();
+
+                if (keyword === 'Feature') {
+                    if (feature) {
+                        fail(lineNumber, 'only one Feature is allowed per file');
+                    }
+                    feature = { name: name.trim(), description: '', tags, scenarios: [], line: lineNumber };
+                    block = { kind: 'feature', description: [] };
+                    continue;
+                }
+                if (!feature) {
+                    fail(lineNumber, `${keyword} must be inside a Feature`);
+                }
+
+                if (keyword === 'Rule') {
+                    rule = name.trim();
+                    ruleBackground = [];
+                    block = { kind: 'rule', description: [] };
+                } else if (keyword === 'Background') {
+                    const steps: GherkinStep[] = [];
+                    if (rule !== undefined) {
+                        ruleBackground = steps;
+                    } else {
+                        featureBackground = steps;
+                    }
+                    block = { kind: 'background', steps, description: [] };
+                } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+                    if (!scenario || !scenario.outline) {
+                        fail(lineNumber, 'Examples must follow a Scenario Outline');
+                    }
+                    examples = { name: name.trim(), tags, header: [], rows: [], line: lineNumber };
+                    scenario!.examples.push(examples);
+                    block = { kind: 'examples', description: [] };
+                } else {
+                    scenario = {
+                        name: name.trim(),
+                        description: '',
+                        tags,
+                        background: [...featureBackground, ...ruleBackground],
+                        steps: [],
+                        examples: [],
+                        outline: keyword === 'Scenario Outline' || keyword === 'Scenario Template',
+                        rule,
+                        line: lineNumber
+                    };
+                    feature!.scenarios.push(scenario);
+                    block = { kind: 'scenario', steps: scenario.steps, description: [] };
+                }
+                continue;
+            }
+
+            if (line.startsWith('"""') || line.startsWith('```')) {
+                if (!step) {
+                    fail(lineNumber, 'doc string must follow a step');
+                }
+                const delimiter = line.slice(0, 3);
+                const indent = lines[index].indexOf(delimiter);
+                const content: string[] = [];
+                index++;
+                while (index < lines.length && lines[index].trim() !== delimiter) {
+                    content.push(lines[index].slice(Math.min(indent, lines[index].search(/\S|$/))));
+                    index++;
+                }
+                if (index === lines.length) {
+                    fail(lineNumber, 'doc string is not closed');
+                }
+                step!.docString = content.join('\n');
+                continue;
+            }
+
+            if (line.startsWith('|')) {
+                const cells = GherkinParser.readRow(line);
+                if (block?.kind === 'examples' && examples) {
+                    if (examples.header.length === 0) {
+                        examples.header = cells;
+                    } else if (cells.length !== examples.header.length) {
+                        fail(lineNumber, `row has ${cells.length} cells but the Examples header has ${examples.header.length}`);
+                    } else {
+                        examples.rows.push(cells);
+                    }
+                } else if (step) {
+                    step.dataTable = [...(step.dataTable || []), cells];
+                } else {
+                    fail(lineNumber, 'table must follow a step or an Examples header');
+                }
+                continue;
+            }
+
+            const stepMatch = line.match(STEP_PATTERN);
+            if (stepMatch && block?.steps) {
+                const keyword = stepMatch[1];
+                const previous = block.steps[block.steps.length - 1];
+                const type = STEP_TYPES[keyword.toLowerCase()] || previous?.type || 'context';
+                step = { keyword, text: stepMatch[2].trim(), type, line: lineNumber };
+                block.steps.push(step);
+                continue;
+            }
+            if (stepMatch) {
+                fail(lineNumber, 'steps must be inside a Background, Scenario or Scenario Outline');
+            }
+
+            // Free text is a description when it comes before the block's first step
+            if (block && !step && (!block.steps || block.steps.length === 0)) {
+                block.description.push(line);
+                continue;
+            }
+            fail(lineNumber, `unexpected text "${line}"`);
+        }
+
+        closeBlock();
+        if (!feature) {
+            throw new Error('Gherkin: no Feature found');
+        }
+        return feature;
+    }
+
+    /**
+     * Split a table row into cells, unescaping \|, \n and \\
+     */
+    static readRow(line: string): string[] {
+        const cells: string[] = [];
+        let cell = '';
+        const content = line.trim().replace(/^\|/, '');
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+            if (char === '\\' && i + 1 < content.length) {
+                const next = content[++i];
+                cell += next === 'n' ? '\n' : next;
+            } else if (char === '|') {
+                cells.push(cell.trim());
+                cell = '';
+            } else {
+                cell += char;
+            }
+        }
+        // Text after the last '|' is not a cell
+        return cells;
+    }
+
+    private static readTags(line: string): string[] {
+        return line
+            .replace(/\s#.*$/, '')
+            .split(/\s+/)
+            .filter(tag => tag.startsWith('@') && tag.length > 1)
+            .map(tag => tag.slice(1));
+    }
+}
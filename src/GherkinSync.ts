@@ -0,0 +1,341 @@
+import { TestSuiteType } from 'azure-devops-node-api/interfaces/TestPlanInterfaces';
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { GherkinWriter } from './GherkinWriter';
+import { ImportedTestCase, TestCaseImportParser } from './TestCaseImportParser';
+import { TestCaseImporter } from './TestCaseImporter';
+import { ExportedTestCase, TestPlanExporter } from './TestPlanExporter';
+
+export interface FeatureFile {
+    /** Path relative to the feature directory, used in the report */
+    path: string;
+    content: string;
+}
+
+export interface GherkinSyncOptions {
+    /** Report what would change without changing anything */
+    dryRun?: boolean;
+    /** Area and iteration paths of created test cases */
+    areaPath?: string;
+    iterationPath?: string;
+    /** Remove test cases that no scenario refers to from the suite (they are not deleted) */
+    removeOrphans?: boolean;
+}
+
+export type GherkinSyncStatus = 'created' | 'updated' | 'unchanged' | 'invalid' | 'failed';
+
+/** Parts of a test case a scenario can change; 'suite' means it was added to the suite */
+export type GherkinSyncChange = 'title' | 'description' | 'steps' | 'priority' | 'tags' | 'parameters' | 'suite';
+
+export interface GherkinSyncScenario {
+    file: string;
+    line: number;
+    name: string;
+    /** From the scenario's @TC-123 tag, or the ID of the created test case */
+    testCaseId?: number;
+    status: GherkinSyncStatus;
+    changes: GherkinSyncChange[];
+    errors: string[];
+    warnings: string[];
+    /** Why creating or updating the test case failed */
+    error?: string;
+}
+
+export interface GherkinSyncOrphan {
+    testCaseId: number;
+    title?: string;
+    removed: boolean;
+    error?: string;
+}
+
+export interface GherkinSyncFile {
+    path: string;
+    scenarioCount: number;
+    /** The file with @TC tags added to the scenarios whose test cases were created, to save over the original; set only when there are any */
+    content?: string;
+}
+
+export interface GherkinSyncReport {
+    planId: number;
+    suiteId: number;
+    dryRun: boolean;
+    createdCount: number;
+    updatedCount: number;
+    unchangedCount: number;
+    invalidCount: number;
+    failedCount: number;
+    orphanedCount: number;
+    scenarios: GherkinSyncScenario[];
+    /** Test cases in the suite that no scenario refers to */
+    orphans: GherkinSyncOrphan[];
+    files: GherkinSyncFile[];
+}
+
+export interface SuiteFeature {
+    fileName: string;
+    content: string;
+}
+
+// Test case IDs per request when adding to a suite; they travel in the URL
+const ADD_TEST_CASES_BATCH_SIZE = 100;
+
+// Work item fields written for each kind of change
+const CHANGE_FIELDS: Record<Exclude<GherkinSyncChange, 'suite'>, string[]> = {
+    title: ['System.Title'],
+    description: ['System.Description'],
+    steps: ['Microsoft.VSTS.TCM.Steps'],
+    priority: ['Microsoft.VSTS.Common.Priority'],
+    tags: ['System.Tags'],
+    parameters: ['Microsoft.VSTS.TCM.Parameters', 'Microsoft.VSTS.TCM.LocalDataSource']
+};
+
+/**
+ * Keeps a suite in step with a directory of feature files. Scenarios are matched to test cases by their @TC-123 tag:
+ * untagged scenarios create test cases, tagged ones update theirs, and test cases no scenario refers to are orphans.
+ */
+export class GherkinSync {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Sync the feature files with the suite and report what was (or, on a dry run, would be) created, updated and orphaned
+     */
+    async sync(planId: number, suiteId: number, files: FeatureFile[], options: GherkinSyncOptions = {}): Promise<GherkinSyncReport> {
+        // A file that does not parse fails the whole sync, since its test cases would otherwise look orphaned
+        const parsed = files.map(file => {
+            try {
+                return { file, testCases: TestCaseImportParser.parseGherkin(file.content) };
+            } catch (error: any) {
+                error.message = `${file.path}: ${error.message}`;
+                error.statusCode = 400;
+                throw error;
+            }
+        });
+
+        const suite = await this.client.getTestSuite(planId, suiteId);
+        if (suite.suiteType === TestSuiteType.DynamicTestSuite) {
+            const error: any = new Error(`Suite ${suiteId} is query-based; test cases cannot be added to it`);
+            error.statusCode = 400;
+            throw error;
+        }
+
+        const suiteTestCaseIds: number[] = (await this.client.getTestCaseList(planId, suiteId))
+            .map((testCase: any) => testCase.workItem?.id)
+            .filter((id: number | undefined): id is number => id !== undefined);
+
+        const entries: Array<{ scenario: GherkinSyncScenario; testCase: ImportedTestCase }> = [];
+        const claimed = new Map<number, string>();
+        for (const { file, testCases } of parsed) {
+            for (const testCase of testCases) {
+                const scenario: GherkinSyncScenario = {
+                    file: file.path,
+                    line: testCase.line,
+                    name: testCase.title,
+                    testCaseId: testCase.id,
+                    status: 'unchanged',
+                    changes: [],
+                    errors: [...testCase.errors],
+                    warnings: [...testCase.warnings]
+                };
+                if (testCase.id !== undefined) {
+                    const owner = claimed.get(testCase.id);
+                    if (owner) {
+                        scenario.errors.push(`Line ${testCase.line}: @TC-${testCase.id} is already used by ${owner}`);
+                    } else {
+                        claimed.set(testCase.id, `${file.path}:${testCase.line}`);
+                    }
+                }
+                entries.push({ scenario, testCase });
+            }
+        }
+
+        const existing = new Map((await new TestPlanExporter(this.client)
+            .exportTestCases(Array.from(new Set([...suiteTestCaseIds, ...claimed.keys()]))))
+            .map(testCase => [testCase.id, testCase]));
+
+        for (const { scenario, testCase } of entries) {
+            if (scenario.errors.length > 0) {
+                scenario.status = 'invalid';
+            } else if (testCase.id === undefined) {
+                scenario.status = 'created';
+            } else if (!existing.has(testCase.id)) {
+                scenario.errors.push(`Line ${testCase.line}: test case ${testCase.id} not found`);
+                scenario.status = 'invalid';
+            } else {
+                const current = existing.get(testCase.id)!;
+                scenario.changes = GherkinSync.compare(current, testCase);
+                if (!suiteTestCaseIds.includes(testCase.id)) {
+                    scenario.changes.push('suite');
+                }
+                scenario.status = scenario.changes.length > 0 ? 'updated' : 'unchanged';
+                if (scenario.changes.includes('steps') && current.steps.some(step => step.sharedStepsId !== undefined)) {
+                    scenario.warnings.push(`Line ${testCase.line}: shared steps of test case ${testCase.id} are replaced by the scenario's steps`);
+                }
+            }
+        }
+
+        const orphans: GherkinSyncOrphan[] = suiteTestCaseIds
+            .filter(id => !claimed.has(id))
+            .map(id => ({ testCaseId: id, title: existing.get(id)?.title, removed: false }));
+
+        if (!options.dryRun) {
+            await this.apply(planId, suiteId, entries, options);
+            if (options.removeOrphans) {
+                for (const orphan of orphans) {
+                    try {
+                        await this.client.removeTestCaseFromSuites(orphan.testCaseId, { planId, suiteId });
+                        orphan.removed = true;
+                    } catch (error) {
+                        orphan.error = error instanceof Error ? error.message : 'Unknown error';
+                    }
+                }
+            }
+        }
+
+        const scenarios = entries.map(entry => entry.scenario);
+        const count = (status: GherkinSyncStatus) => scenarios.filter(scenario => scenario.status === status).length;
+        return {
+            planId,
+            suiteId,
+            dryRun: !!options.dryRun,
+            createdCount: count('created'),
+            updatedCount: count('updated'),
+            unchangedCount: count('unchanged'),
+            invalidCount: count('invalid'),
+            failedCount: count('failed'),
+            orphanedCount: orphans.length,
+            scenarios,
+            orphans,
+            files: files.map(file => {
+                // Including test cases created but not added to the suite, so the next sync does not create them again
+                const created = new Map(entries
+                    .filter(({ scenario, testCase }) => scenario.file === file.path && testCase.id === undefined && scenario.testCaseId !== undefined)
+                    .map(({ scenario }) => [scenario.line, scenario.testCaseId!]));
+                return {
+                    path: file.path,
+                    scenarioCount: scenarios.filter(scenario => scenario.file === file.path).length,
+                    content: created.size > 0 ? GherkinSync.tagScenarios(file.content, created) : undefined
+                };
+            })
+        };
+    }
+
+    /**
+     * The test cases of a suite as a feature file
+     */
+    async writeSuiteFeature(planId: number, suiteId: number): Promise<SuiteFeature> {
+        const suite = await this.client.getTestSuite(planId, suiteId);
+        const ids: number[] = (await this.client.getTestCaseList(planId, suiteId))
+            .map((testCase: any) => testCase.workItem?.id)
+            .filter((id: number | undefined): id is number => id !== undefined);
+        const testCases = await new TestPlanExporter(this.client).exportTestCases(ids);
+        const name = suite.name || `Suite ${suiteId}`;
+
+        return {
+            fileName: `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || `suite-${suiteId}`}.feature`,
+            content: GherkinWriter.writeFeature(name, testCases, [`Test plan ${planId}, suite ${suiteId}`])
+        };
+    }
+
+    /**
+     * Parts of a test case that differ from the scenario. Priority only counts when the scenario sets one.
+     * Step keywords and the underscores that stand in for spaces in tags are ignored, since writing a test case
+     * as Gherkin adds them.
+     */
+    static compare(current: ExportedTestCase, testCase: ImportedTestCase): GherkinSyncChange[] {
+        const normalize = (text?: string) => (text || '').replace(/\s+/g, ' ').trim();
+        const stepText = (text: string) => normalize(text.replace(/^\s*(?:Given|When|Then|And|But|\*)\s+/gm, ''));
+        const changes: GherkinSyncChange[] = [];
+
+        if (normalize(current.title) !== normalize(testCase.title)) {
+            changes.push('title');
+        }
+        if (normalize(current.description) !== normalize(testCase.description)) {
+            changes.push('description');
+        }
+        if (current.steps.length !== testCase.steps.length || current.steps.some((step, index) =>
+            stepText(step.action) !== stepText(testCase.steps[index].action)
+            || stepText(step.expectedResult) !== stepText(testCase.steps[index].expectedResult))) {
+            changes.push('steps');
+        }
+        if (testCase.priority !== undefined && testCase.priority !== current.priority) {
+            changes.push('priority');
+        }
+        const tags = (list: string[]) => list.map(tag => tag.toLowerCase().replace(/\s+/g, '_')).sort().join(';');
+        if (tags(current.tags) !== tags(testCase.tags)) {
+            changes.push('tags');
+        }
+        const parameters = (set?: { names: string[]; rows: Array<Record<string, string>> }) =>
+            JSON.stringify(set && set.names.length > 0 ? [set.names, set.rows.map(row => set.names.map(name => row[name] ?? ''))] : []);
+        if (parameters(current.parameters) !== parameters(testCase.parameters)) {
+            changes.push('parameters');
+        }
+
+        return changes;
+    }
+
+    /**
+     * Add a @TC-<id> tag line above each scenario that starts on one of the given lines
+     */
+    static tagScenarios(content: string, testCaseIds: Map<number, number>): string {
+        const newline = content.includes('\r\n') ? '\r\n' : '\n';
+        const lines = content.split(/\r?\n/);
+        const output: string[] = [];
+        lines.forEach((line, index) => {
+            const id = testCaseIds.get(index + 1);
+            if (id !== undefined) {
+                output.push(`${line.match(/^\s*/)![0]}@TC-${id}`);
+            }
+            output.push(line);
+        });
+        return output.join(newline);
+    }
+
+    /**
+     * Create and update the test cases of the scenarios, then add new and moved test cases to the suite
+     */
+    private async apply(planId: number, suiteId: number, entries: Array<{ scenario: GherkinSyncScenario; testCase: ImportedTestCase }>,
+        options: GherkinSyncOptions): Promise<void> {
+        const toAdd: GherkinSyncScenario[] = [];
+
+        for (const { scenario, testCase } of entries) {
+            try {
+                if (scenario.status === 'created') {
+                    const workItem = await this.client.createWorkItem('Test Case', TestCaseImporter.toWorkItemFields({
+                        ...testCase,
+                        areaPath: options.areaPath,
+                        iterationPath: options.iterationPath
+                    }));
+                    scenario.testCaseId = workItem.id;
+                    toAdd.push(scenario);
+                } else if (scenario.status === 'updated') {
+                    const fields = TestCaseImporter.toWorkItemFields(testCase);
+                    // An empty value clears a field the scenario no longer sets
+                    const changed = Object.fromEntries(scenario.changes
+                        .flatMap(change => change === 'suite' ? [] : CHANGE_FIELDS[change])
+                        .map(field => [field, fields[field] ?? '']));
+                    if (Object.keys(changed).length > 0) {
+                        await this.client.updateWorkItemFields(testCase.id!, changed);
+                    }
+                    if (scenario.changes.includes('suite')) {
+                        toAdd.push(scenario);
+                    }
+                }
+            } catch (error) {
+                scenario.status = 'failed';
+                scenario.error = error instanceof Error ? error.message : 'Unknown error';
+            }
+        }
+
+        for (let i = 0; i < toAdd.length; i += ADD_TEST_CASES_BATCH_SIZE) {
+            const batch = toAdd.slice(i, i + ADD_TEST_CASES_BATCH_SIZE);
+            try {
+                await this.client.addTestCasesToSuite(planId, suiteId, batch.map(scenario => String(scenario.testCaseId)));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                batch.forEach(scenario => {
+                    scenario.error = `Test case ${scenario.testCaseId} was not added to the suite: ${message}`;
+                    scenario.status = 'failed';
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,127 @@
+import { GherkinStepType } from './GherkinParser';
+import { PARAMETER_REFERENCE_PATTERN } from './TestCaseParameters';
+import { ExportedTestCase } from './TestPlanExporter';
+
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const STEP_TYPES: Record<string, GherkinStepType> = { given: 'context', when: 'action', then: 'outcome' };
+const DEFAULT_KEYWORDS: Record<GherkinStepType, string> = { context: 'Given', action: 'When', outcome: 'Then' };
+
+interface WrittenStep {
+    line: string;
+    docString: string[];
+    table: string[];
+}
+
+/**
+ * Writes test cases as Gherkin, the reverse of the Gherkin import: actions become Given/When lines and expected results Then lines,
+ * step text that already starts with a keyword is kept as it is, and a parameterized test case becomes a Scenario Outline
+ * with @name turned back into <name> and the parameter rows as Examples.
+ */
+export class GherkinWriter {
+    /**
+     * A feature with a scenario per test case; comment lines go above the Feature line
+     */
+    static writeFeature(name: string, testCases: ExportedTestCase[], comments: string[] = []): string {
+        const lines = [...comments.map(comment => `# ${comment}`), `Feature: ${GherkinWriter.singleLine(name)}`];
+        for (const testCase of testCases) {
+            lines.push('', ...GherkinWriter.writeScenario(testCase));
+        }
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Lines of one scenario, indented to sit under a Feature. The test case ID is written as a @TC-123 tag.
+     */
+    static writeScenario(testCase: ExportedTestCase): string[] {
+        const parameters = testCase.parameters && testCase.parameters.names.length > 0 ? testCase.parameters : undefined;
+        const tags = [
+            `@TC-${testCase.id}`,
+            ...(testCase.priority !== undefined ? [`@priority:${testCase.priority}`] : []),
+            // Tags cannot contain spaces in Gherkin
+            ...testCase.tags.map(tag => `@${tag.replace(/\s+/g, '_')}`)
+        ];
+        const lines = [
+            `  ${tags.join(' ')}`,
+            `  ${parameters ? 'Scenario Outline' : 'Scenario'}: ${GherkinWriter.singleLine(testCase.title)}`
+        ];
+
+        if (testCase.description) {
+            lines.push(...testCase.description.split('\n').map(line => line.trim() ? `    ${line.trim()}` : ''), '');
+        }
+
+        const placeholders = parameters
+            ? (text: string) => text.replace(PARAMETER_REFERENCE_PATTERN, (match, name) => parameters.names.includes(name) ? `<${name}>` : match)
+            : (text: string) => text;
+        let previous: GherkinStepType | undefined;
+        const writeText = (text: string, type: GherkinStepType) => {
+            for (const step of GherkinWriter.splitSteps(placeholders(text), type, previous)) {
+                lines.push(`    ${step.line}`);
+                if (step.docString.length > 0) {
+                    const delimiter = step.docString.some(line => line.includes('"""')) ? '```' : '"""';
+                    lines.push(`      ${delimiter}`, ...step.docString.map(line => line ? `      ${line}` : ''), `      ${delimiter}`);
+                }
+                lines.push(...step.table.map(row => `      ${row}`));
+                previous = STEP_TYPES[step.line.split(' ')[0].toLowerCase()] || previous || type;
+            }
+        };
+        for (const step of testCase.steps) {
+            writeText(step.action, 'action');
+            writeText(step.expectedResult, 'outcome');
+        }
+
+        if (parameters) {
+            const row = (cells: string[]) => `| ${cells.map(GherkinWriter.escapeCell).join(' | ')} |`;
+            lines.push('', '    Examples:', `      ${row(parameters.names)}`);
+            lines.push(...parameters.rows.map(values => `      ${row(parameters.names.map(name => values[name] ?? ''))}`));
+        }
+
+        return lines;
+    }
+
+    /**
+     * Split step text into Gherkin steps. A line starting with a keyword starts a step, table rows belong to the step
+     * before them, and other lines after the first are kept as its doc string. A first line without a keyword gets one
+     * for the given type ('And' when the step before has the same type).
+     */
+    static splitSteps(text: string, type: GherkinStepType, previous?: GherkinStepType): WrittenStep[] {
+        const steps: WrittenStep[] = [];
+        let current: WrittenStep | undefined;
+
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            const keyword = line.match(STEP_PATTERN);
+            if (keyword) {
+                current = { line: `${keyword[1]} ${keyword[2].trim()}`, docString: [], table: [] };
+                steps.push(current);
+                previous = STEP_TYPES[keyword[1].toLowerCase()] || previous || type;
+            } else if (!current) {
+                if (line === '') {
+                    continue;
+                }
+                current = { line: `${previous === type ? 'And' : DEFAULT_KEYWORDS[type]} ${line}`, docString: [], table: [] };
+                steps.push(current);
+                previous = type;
+            } else if (line.startsWith('|') && current.docString.length === 0) {
+                current.table.push(line);
+            } else {
+                current.docString.push(rawLine.trimEnd());
+            }
+        }
+
+        // Blank lines around a doc string are not part of it
+        for (const step of steps) {
+            while (step.docString.length > 0 && step.docString[step.docString.length - 1] === '') {
+                step.docString.pop();
+            }
+        }
+        return steps;
+    }
+
+    private static escapeCell(value: string): string {
+        return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '\\n');
+    }
+
+    private static singleLine(text: string): string {
+        return text.replace(/\s*\r?\n\s*/g, ' ').trim();
+    }
+}
@@ -0,0 +1,146 @@
+export interface GitHubRepository {
+    owner: string;
+    repo: string;
+}
+
+export interface GitHubIssueRequest {
+    title: string;
+    body: string;
+    labels?: string[];
+    assignees?: string[];
+}
+
+export interface GitHubIssue {
+    number: number;
+    url: string;
+    state: 'open' | 'closed';
+    title: string;
+}
+
+export class GitHubService {
+    private baseUrl: string;
+    private token: string;
+
+    constructor() {
+        // GITHUB_API_URL lets the server talk to GitHub Enterprise (https://host/api/v3) or a local mock
+        this.baseUrl = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+        this.token = process.env.GITHUB_TOKEN || '';
+
+        if (!this.token) {
+            throw new Error('GitHub configuration missing. Please set the GITHUB_TOKEN environment variable.');
+        }
+    }
+
+    /**
+     * Parse a repository URL into owner/repo.
+     * Accepts https://github.com/owner/repo(.git), GitHub Enterprise URLs, git@host:owner/repo.git and "owner/repo".
+     */
+    static parseRepositoryUrl(repositoryUrl: string): GitHubRepository {
+        const trimmed = repositoryUrl.trim();
+        const match = trimmed.match(/^git@[^:]+:([^/]+)\/([^/]+?)(?:\.git)?\/?$/)
+            || trimmed.match(/^https?:\/\/[^/]+\/([^/]+)\/([^/#?]+?)(?:\.git)?(?:[/#?].*)?$/)
+            || trimmed.match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?$/);
+
+        if (!match) {
+            throw new Error(`Could not parse GitHub repository from URL: ${repositoryUrl}`);
+        }
+
+        return { owner: match[1], repo: match[2] };
+    }
+
+    /**
+     * Create an issue in the given repository
+     */
+    async createIssue(repository: GitHubRepository, issue: GitHubIssueRequest): Promise<GitHubIssue> {
+        try {
+            console.log(`Creating GitHub issue in ${repository.owner}/${repository.repo}: ${issue.title}`);
+            const created = await this.request('POST', `/repos/${repository.owner}/${repository.repo}/issues`, {
+                title: issue.title,
+                body: issue.body,
+                labels: issue.labels || [],
+                assignees: issue.assignees || []
+            });
+
+            console.log(`GitHub issue #${created.number} created: ${created.html_url}`);
+            return this.toIssue(created);
+        } catch (error) {
+            console.error('Error creating GitHub issue:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get an issue by number
+     */
+    async getIssue(repository: GitHubRepository, issueNumber: number): Promise<GitHubIssue> {
+        try {
+            const issue = await this.request('GET', `/repos/${repository.owner}/${repository.repo}/issues/${issueNumber}`);
+            return this.toIssue(issue);
+        } catch (error) {
+            console.error(`Error fetching GitHub issue #${issueNumber}:`, error);
+            throw error;
+        }
+    }
+
+    private toIssue(raw: any): GitHubIssue {
+        return {
+            number: raw.number,
+            url: raw.html_url,
+            state: raw.state,
+            title: raw.title
+        };
+    }
+
+    private async request(method: string, path: string, body?: unknown): Promise<any> {
+        let response: globalThis.Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, {
+                method,
+                headers: {
+                    'Accept': 'application/vnd.github+json',
+                    'Authorization': `Bearer ${this.token}`,
+                    'X-GitHub-Api-Version': '2022-11-28',
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'azure-devops-testplans-api'
+                },
+                body: body !== undefined ? JSON.stringify(body) : undefined
+            });
+        } catch (networkError: any) {
+            throw GitHubService.upstreamError(`GitHub API request failed: ${networkError.message}`, 502);
+        }
+
+        const text = await response.text();
+        let payload: any;
+        try {
+            payload = text ? JSON.parse(text) : undefined;
+        } catch {
+            payload = undefined;
+        }
+
+        if (!response.ok) {
+            throw GitHubService.upstreamError(
+                `GitHub API request failed (${response.status}): ${payload?.message || response.statusText}`,
+                GitHubService.statusFor(response.status)
+            );
+        }
+        if (text && payload === undefined) {
+            throw GitHubService.upstreamError(`GitHub API returned a response that is not JSON (${response.status})`, 502);
+        }
+
+        return payload;
+    }
+
+    /**
+     * Status code for a failed GitHub call. 404 (repository or issue not found) and 422 (issue rejected by validation)
+     * describe the caller's request; anything else, including 401/403 for a bad GITHUB_TOKEN, is a failure of the upstream call.
+     */
+    private static statusFor(upstreamStatus: number): number {
+        return upstreamStatus === 404 || upstreamStatus === 422 ? upstreamStatus : 502;
+    }
+
+    private static upstreamError(message: string, statusCode: number): Error {
+        const error: any = new Error(message);
+        error.statusCode = statusCode;
+        return error;
+    }
+}
@@ -0,0 +1,84 @@
+import { Connection, IssueLink, PlanTemplate, RecommendationRecord, StorageProvider, TestSuite } from './Storage';
+
+/**
+ * Storage that keeps everything in process memory. State is lost on restart.
+ */
+export class InMemoryStorage implements StorageProvider {
+    readonly name: string = 'memory';
+
+    protected connections: Map<string, Connection> = new Map();
+    protected suites: Map<string, TestSuite[]> = new Map();
+    protected issueLinks: Map<string, IssueLink> = new Map();
+    protected recommendations: RecommendationRecord[] = [];
+    protected planTemplates: Map<string, PlanTemplate> = new Map();
+
+    async initialize(): Promise<void> {
+        // Nothing to set up
+    }
+
+    async getConnection(resourceId: string): Promise<Connection | undefined> {
+        return this.connections.get(resourceId);
+    }
+
+    async saveConnection(connection: Connection): Promise<void> {
+        this.connections.set(connection.resourceId, connection);
+        await this.persist();
+    }
+
+    async getSuites(resourceId: string): Promise<TestSuite[] | undefined> {
+        return this.suites.get(resourceId);
+    }
+
+    async saveSuites(resourceId: string, suites: TestSuite[]): Promise<void> {
+        this.suites.set(resourceId, suites);
+        await this.persist();
+    }
+
+    async getIssueLinks(resourceId: string): Promise<IssueLink[]> {
+        return Array.from(this.issueLinks.values()).filter(link => link.resourceId === resourceId);
+    }
+
+    async saveIssueLink(link: IssueLink): Promise<void> {
+        this.issueLinks.set(`${link.resourceId}:${link.testCaseId}`, link);
+        await this.persist();
+    }
+
+    async getRecommendationHistory(testPlanId?: string): Promise<RecommendationRecord[]> {
+        return this.recommendations
+            .filter(record => !testPlanId || record.testPlanId === testPlanId)
+            .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+    }
+
+    async saveRecommendations(record: RecommendationRecord): Promise<void> {
+        this.recommendations.push(record);
+        await this.persist();
+    }
+
+    async getPlanTemplates(): Promise<PlanTemplate[]> {
+        return Array.from(this.planTemplates.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async getPlanTemplate(name: string): Promise<PlanTemplate | undefined> {
+        return this.planTemplates.get(name);
+    }
+
+    async savePlanTemplate(template: PlanTemplate): Promise<void> {
+        this.planTemplates.set(template.name, template);
+        await this.persist();
+    }
+
+    async deletePlanTemplate(name: string): Promise<boolean> {
+        const deleted = this.planTemplates.delete(name);
+        if (deleted) {
+            await this.persist();
+        }
+        return deleted;
+    }
+
+    /**
+     * Hook for subclasses that write the in-memory state somewhere durable
+     */
+    protected async persist(): Promise<void> {
+        // In-memory storage has nothing to persist
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Incrementally extracts the elements of a JSON array from streamed text.
+ * Feed text as it arrives; every element object of the array under `arrayKey`
+ * is returned as soon as its closing brace has been received.
+ */
+export class JsonArrayStreamParser {
+    private buffer: string = '';
+    private position: number = 0;
+    private arrayStarted: boolean = false;
+    private arrayEnded: boolean = false;
+    private depth: number = 0;
+    private inString: boolean = false;
+    private escaped: boolean = false;
+    private elementStart: number = -1;
+
+    constructor(private arrayKey: string) {}
+
+    /**
+     * Append streamed text and return the raw JSON of every element completed by it
+     */
+    feed(text: string): string[] {
+        this.buffer += text;
+        const completed: string[] = [];
+
+        if (!this.arrayStarted) {
+            const keyIndex = this.buffer.indexOf(`"${this.arrayKey}"`);
+            if (keyIndex === -1) {
+                return completed;
+            }
+            const bracketIndex = this.buffer.indexOf('[', keyIndex);
+            if (bracketIndex === -1) {
+                return completed;
+            }
+            this.arrayStarted = true;
+            this.position = bracketIndex + 1;
+        }
+
+        while (!this.arrayEnded && this.position < this.buffer.length) {
+            const char = this.buffer[this.position];
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+            } else if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                if (this.depth === 0) {
+                    this.elementStart = this.position;
+                }
+                this.depth++;
+            } else if (char === '}' || char === ']') {
+                if (this.depth === 0) {
+                    // Closing bracket of the array itself
+                    this.arrayEnded = true;
+                } else {
+                    this.depth--;
+                    if (this.depth === 0 && this.elementStart !== -1) {
+                        completed.push(this.buffer.slice(this.elementStart, this.position + 1));
+                        this.elementStart = -1;
+                    }
+                }
+            }
+
+            this.position++;
+        }
+
+        return completed;
+    }
+}
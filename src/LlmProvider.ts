@@ -0,0 +1,43 @@
+import { AzureOpenAIProvider } from './AzureOpenAIProvider';
+import { FakeLlmProvider } from './FakeLlmProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmCompletionOptions {
+    maxTokens?: number;
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * A chat-completion backend used by the recommendation flow
+ */
+export interface LlmProvider {
+    readonly name: string;
+
+    /** Return the full completion text */
+    complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<string>;
+
+    /** Yield the completion text as it is generated */
+    stream(messages: LlmMessage[], options?: LlmCompletionOptions): AsyncIterable<string>;
+}
+
+/**
+ * Create the LLM provider selected by LLM_PROVIDER (azure | openai | fake, default azure)
+ */
+export function createLlmProvider(provider: string = process.env.LLM_PROVIDER || 'azure'): LlmProvider {
+    switch (provider.toLowerCase()) {
+        case 'azure':
+            return new AzureOpenAIProvider();
+        case 'openai':
+            return new OpenAICompatibleProvider();
+        case 'fake':
+            return new FakeLlmProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${provider}". Use azure, openai or fake.`);
+    }
+}
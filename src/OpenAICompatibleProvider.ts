@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { LlmCompletionOptions, LlmMessage, LlmProvider } from './LlmProvider';
+
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint:
+ * api.openai.com, or local servers such as Ollama (http://localhost:11434/v1) and llama.cpp
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+    readonly name: string = 'openai';
+    protected client: OpenAI;
+    protected model: string;
+
+    constructor(client?: OpenAI, model?: string) {
+        if (client && model) {
+            this.client = client;
+            this.model = model;
+            return;
+        }
+
+        const baseURL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+        const modelName = process.env.OPENAI_MODEL;
+
+        if (!modelName) {
+            throw new Error('OpenAI-compatible provider configuration missing. Please set the OPENAI_MODEL environment variable (and OPENAI_BASE_URL for local servers).');
+        }
+
+        this.client = new OpenAI({
+            // Local servers usually ignore the key, but the SDK requires one
+            apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+            baseURL
+        });
+        this.model = modelName;
+    }
+
+    async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<string> {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            temperature: options.temperature ?? 0.7,
+            max_tokens: options.maxTokens,
+            top_p: 0.9,
+            frequency_penalty: 0,
+            presence_penalty: 0
+        }, { signal: options.signal });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error(`No response content received from ${this.name} provider`);
+        }
+
+        return content;
+    }
+
+    async *stream(messages: LlmMessage[], options: LlmCompletionOptions = {}): AsyncIterable<string> {
+        const stream = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            temperature: options.temperature ?? 0.7,
+            max_tokens: options.maxTokens,
+            top_p: 0.9,
+            frequency_penalty: 0,
+            presence_penalty: 0,
+            stream: true
+        }, { signal: options.signal });
+
+        for await (const part of stream) {
+            const delta = part.choices[0]?.delta?.content;
+            if (delta) {
+                yield delta;
+            }
+        }
+    }
+}
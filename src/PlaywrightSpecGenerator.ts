@@ -0,0 +1,217 @@
+import { AzureDevOpsTestPlansClient, TestStep } from './AzureDevOpsTestPlansClient';
+import { LlmProvider } from './LlmProvider';
+
+export interface PlaywrightTestSource {
+    id: number;
+    title: string;
+    steps: TestStep[];
+}
+
+export interface PlaywrightSpecOptions {
+    /** Site under test, written to test.use({ baseURL }) */
+    baseUrl: string;
+    /** Title of the surrounding test.describe block */
+    describeTitle?: string;
+    /** File name of the spec; derived from the case or suite title when omitted */
+    fileName?: string;
+}
+
+export interface GeneratedPlaywrightSpec {
+    fileName: string;
+    content: string;
+    testCaseIds: number[];
+    /** Whether step bodies were written by the LLM provider */
+    llmGenerated: boolean;
+    warnings: string[];
+}
+
+/**
+ * Generates Playwright TypeScript spec files from ADO test cases: one test per case, one test.step per ADO step,
+ * with a TestCase annotation carrying the ADO ID (read back by the result import).
+ * Step bodies are TODO stubs, or Playwright code drafted by an LLM provider when one is supplied.
+ */
+export class PlaywrightSpecGenerator {
+    constructor(private client: AzureDevOpsTestPlansClient, private provider?: LlmProvider) {}
+
+    /**
+     * Generate a spec for a single test case
+     */
+    async generateForTestCase(testCaseId: number, options: PlaywrightSpecOptions): Promise<GeneratedPlaywrightSpec> {
+        const details = await this.client.getTestCaseDetails(testCaseId);
+        const source: PlaywrightTestSource = { id: details.id, title: details.fields.title || `Test Case ${testCaseId}`, steps: details.parsedSteps || [] };
+
+        return this.generate([source], {
+            ...options,
+            fileName: options.fileName || `${PlaywrightSpecGenerator.slugify(source.title)}.spec.ts`
+        });
+    }
+
+    /**
+     * Generate one spec for all test cases of a suite, inside a describe block named after the suite
+     */
+    async generateForSuite(planId: number, suiteId: number, options: PlaywrightSpecOptions): Promise<GeneratedPlaywrightSpec> {
+        const suite = await this.client.getTestSuite(planId, suiteId);
+        const testCases = await this.client.getTestCaseList(planId, suiteId);
+        const ids: number[] = testCases
+            .map((testCase: any) => testCase.workItem?.id)
+            .filter((id: number | undefined): id is number => id !== undefined);
+
+        const details = ids.length > 0 ? await this.client.getMultipleTestCaseDetails(ids) : [];
+        const sources: PlaywrightTestSource[] = details.map(detail => ({
+            id: detail.id,
+            title: detail.fields.title || `Test Case ${detail.id}`,
+            steps: detail.parsedSteps || []
+        }));
+
+        return this.generate(sources, {
+            ...options,
+            describeTitle: options.describeTitle || suite.name,
+            fileName: options.fileName || `${PlaywrightSpecGenerator.slugify(suite.name)}.spec.ts`
+        });
+    }
+
+    /**
+     * Render the spec, asking the LLM provider (when configured) to draft each test's step bodies
+     */
+    async generate(sources: PlaywrightTestSource[], options: PlaywrightSpecOptions): Promise<GeneratedPlaywrightSpec> {
+        const warnings: string[] = [];
+        const stepBodies = new Map<number, string[]>();
+
+        if (this.provider) {
+            for (const source of sources.filter(source => source.steps.length > 0)) {
+                try {
+                    stepBodies.set(source.id, await this.draftStepBodies(source, options.baseUrl));
+                } catch (error) {
+                    warnings.push(`Test case ${source.id}: LLM draft failed (${error instanceof Error ? error.message : 'Unknown error'}), using stubs`);
+                }
+            }
+        }
+
+        for (const source of sources.filter(source => source.steps.length === 0)) {
+            warnings.push(`Test case ${source.id} has no steps`);
+        }
+
+        return {
+            fileName: options.fileName || 'ado-tests.spec.ts',
+            content: PlaywrightSpecGenerator.render(sources, options, stepBodies),
+            testCaseIds: sources.map(source => source.id),
+            llmGenerated: stepBodies.size > 0,
+            warnings
+        };
+    }
+
+    /**
+     * Render spec source; steps without a drafted body get a TODO stub with the expected result
+     */
+    static render(sources: PlaywrightTestSource[], options: PlaywrightSpecOptions, stepBodies: Map<number, string[]> = new Map()): string {
+        const lines: string[] = [
+            `import { test, expect } from '@playwright/test';`,
+            '',
+            `// Generated from Azure DevOps test cases ${sources.map(source => source.id).join(', ')}`,
+            `test.use({ baseURL: ${PlaywrightSpecGenerator.quote(options.baseUrl)} });`,
+            ''
+        ];
+
+        const indent = options.describeTitle ? '    ' : '';
+        if (options.describeTitle) {
+            lines.push(`test.describe(${PlaywrightSpecGenerator.quote(options.describeTitle)}, () => {`);
+        }
+
+        sources.forEach((source, index) => {
+            const bodies = stepBodies.get(source.id);
+
+            lines.push(`${indent}test(${PlaywrightSpecGenerator.quote(source.title)}, {`);
+            lines.push(`${indent}    annotation: { type: 'TestCase', description: '${source.id}' },`);
+            lines.push(`${indent}}, async ({ page }) => {`);
+            if (source.steps.length === 0) {
+                lines.push(`${indent}    test.fixme(true, 'Test case ${source.id} has no steps in Azure DevOps');`);
+            }
+            lines.push(`${indent}    await page.goto('/');`);
+
+            source.steps.forEach((step, stepIndex) => {
+                const stepTitle = `${stepIndex + 1}. ${PlaywrightSpecGenerator.singleLine(step.action) || `Step ${step.id}`}`;
+                lines.push('');
+                lines.push(`${indent}    await test.step(${PlaywrightSpecGenerator.quote(stepTitle)}, async () => {`);
+
+                const body = bodies?.[stepIndex];
+                if (body) {
+                    body.split('\n').forEach(line => lines.push(line.trim() ? `${indent}        ${line.trimEnd()}` : ''));
+                } else {
+                    lines.push(`${indent}        // TODO: ${PlaywrightSpecGenerator.comment(step.action) || 'implement this step'}`);
+                }
+
+                if (step.expectedResult) {
+                    lines.push(`${indent}        // Expected: ${PlaywrightSpecGenerator.comment(step.expectedResult)}`);
+                    if (!body) {
+                        lines.push(`${indent}        // await expect(page).toHaveURL(/.../);`);
+                    }
+                }
+                lines.push(`${indent}    });`);
+            });
+
+            lines.push(`${indent}});`);
+            if (index < sources.length - 1) {
+                lines.push('');
+            }
+        });
+
+        if (options.describeTitle) {
+            lines.push('});');
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Ask the LLM provider for the body of each test.step, as a JSON array with one code string per step
+     */
+    private async draftStepBodies(source: PlaywrightTestSource, baseUrl: string): Promise<string[]> {
+        const stepList = source.steps
+            .map((step, index) => `${index + 1}. Action: ${step.action}\n   Expected: ${step.expectedResult || '(none)'}`)
+            .join('\n');
+
+        const content = await this.provider!.complete([
+            {
+                role: 'system',
+                content: 'You write Playwright Test code in TypeScript. Use the `page` fixture and `expect` from @playwright/test. ' +
+                    'Prefer role-based locators (getByRole, getByLabel, getByText). Turn each expected result into an expect assertion. ' +
+                    'Respond with JSON only: {"steps": ["<code for step 1>", "<code for step 2>", ...]} with exactly one entry per step, ' +
+                    'each entry being the statements inside that step (no test.step wrapper, no imports).'
+            },
+            {
+                role: 'user',
+                content: `Site under test: ${baseUrl} (already opened with page.goto('/'))\nTest case: ${source.title}\nSteps:\n${stepList}`
+            }
+        ], { temperature: 0.2 });
+
+        const jsonText = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+        let parsed: any;
+        try {
+            parsed = JSON.parse(jsonText);
+        } catch {
+            throw new Error('response is not valid JSON');
+        }
+
+        if (!Array.isArray(parsed?.steps) || parsed.steps.length !== source.steps.length || parsed.steps.some((step: any) => typeof step !== 'string')) {
+            throw new Error(`expected ${source.steps.length} step bodies`);
+        }
+
+        return parsed.steps;
+    }
+
+    private static quote(text: string): string {
+        return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+    }
+
+    private static singleLine(text: string): string {
+        return text.replace(/\s+/g, ' ').trim();
+    }
+
+    private static comment(text: string): string {
+        return PlaywrightSpecGenerator.singleLine(text).replace(/\*\//g, '* /');
+    }
+
+    private static slugify(text: string): string {
+        return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'ado-tests';
+    }
+}
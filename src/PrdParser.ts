@@ -0,0 +1,141 @@
+export interface PrdSection {
+    /** Section number from the heading (e.g. "2.1.1"), or a slug for unnumbered headings */
+    id: string;
+    title: string;
+    /** Original heading line, e.g. "#### 2.1.1 Create Workspace" */
+    heading: string;
+    level: number;
+    numbered: boolean;
+    parentId?: string;
+    parentTitle?: string;
+    /** Text between this heading and the next heading of any level */
+    content: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const NUMBERED_TITLE_PATTERN = /^(\d+(?:\.\d+)*)\.?\s+(.+)$/;
+
+/**
+ * Splits Markdown PRDs (like MPT-PRD.md, with "2.1.1 Title" style headings) into sections
+ */
+export class PrdParser {
+    /**
+     * Split a PRD into one section per Markdown heading.
+     * Text before the first heading becomes a "preamble" section.
+     */
+    static splitSections(prd: string): PrdSection[] {
+        const sections: PrdSection[] = [];
+        const stack: PrdSection[] = [];
+        let current: PrdSection | null = null;
+        const preamble: string[] = [];
+
+        for (const line of prd.split(/\r?\n/)) {
+            const heading = line.match(HEADING_PATTERN);
+            if (!heading) {
+                if (current) {
+                    current.content += `${line}\n`;
+                } else {
+                    preamble.push(line);
+                }
+                continue;
+            }
+
+            const level = heading[1].length;
+            const text = heading[2].trim();
+            const numbered = text.match(NUMBERED_TITLE_PATTERN);
+
+            while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+                stack.pop();
+            }
+            const parent = stack[stack.length - 1];
+
+            current = {
+                id: numbered ? numbered[1] : PrdParser.slugify(text),
+                title: numbered ? numbered[2].trim() : text,
+                heading: line.trim(),
+                level,
+                numbered: !!numbered,
+                parentId: parent?.id,
+                parentTitle: parent?.title,
+                content: ''
+            };
+            sections.push(current);
+            stack.push(current);
+        }
+
+        if (preamble.join('').trim()) {
+            sections.unshift({ id: 'preamble', title: 'Preamble', heading: '', level: 0, numbered: false, content: preamble.join('\n') });
+        }
+
+        return sections.map(section => ({ ...section, content: section.content.trim() }));
+    }
+
+    /**
+     * Requirement sections are numbered sub-sections (e.g. "2.1.1") that have no numbered children,
+     * so each requirement is counted once at its most specific level
+     */
+    static requirementSections(prd: string): PrdSection[] {
+        const sections = PrdParser.splitSections(prd);
+        const numbered = sections.filter(section => section.numbered && section.id.includes('.'));
+
+        return numbered.filter(section =>
+            !numbered.some(other => other !== section && other.id.startsWith(`${section.id}.`))
+        );
+    }
+
+    /**
+     * Split a PRD into chunks of at most maxChars characters along heading boundaries.
+     * Sections larger than maxChars are split further at paragraph breaks, repeating the heading.
+     */
+    static chunk(prd: string, maxChars: number): string[] {
+        if (prd.length <= maxChars) {
+            return [prd];
+        }
+
+        const pieces: string[] = [];
+        for (const section of PrdParser.splitSections(prd)) {
+            const text = [section.heading, section.content].filter(Boolean).join('\n');
+            if (text.length <= maxChars) {
+                pieces.push(text);
+                continue;
+            }
+
+            // Oversized section: split its content by paragraph (and overlong paragraphs by length),
+            // keeping the heading on every part
+            const continuation = `${section.heading} (continued)`;
+            const sliceSize = Math.max(1, maxChars - continuation.length - 2);
+            const paragraphs = section.content
+                .split(/\n\s*\n/)
+                .flatMap(paragraph => paragraph.match(new RegExp(`[\\s\\S]{1,${sliceSize}}`, 'g')) || []);
+
+            let part = section.heading;
+            for (const paragraph of paragraphs) {
+                if (part.length + paragraph.length + 2 > maxChars && part !== section.heading) {
+                    pieces.push(part);
+                    part = continuation;
+                }
+                part += `\n\n${paragraph}`;
+            }
+            pieces.push(part);
+        }
+
+        const chunks: string[] = [];
+        let current = '';
+        for (const piece of pieces) {
+            if (current && current.length + piece.length + 2 > maxChars) {
+                chunks.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n\n${piece}` : piece;
+        }
+        if (current) {
+            chunks.push(current);
+        }
+
+        return chunks;
+    }
+
+    private static slugify(text: string): string {
+        return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'section';
+    }
+}
@@ -0,0 +1,137 @@
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { TestPlanRecommendation } from './AzureOpenAIService';
+
+export interface ApplyRecommendationsOptions {
+    suiteId?: number;
+    newSuiteName?: string;
+    parentSuiteId?: number;
+    areaPath?: string;
+    iterationPath?: string;
+}
+
+export interface AppliedRecommendationItem {
+    recommendationIndex: number;
+    title: string;
+    success: boolean;
+    testCaseId?: number;
+    error?: string;
+}
+
+export interface ApplyRecommendationsReport {
+    planId: number;
+    suiteId: number;
+    createdCount: number;
+    failedCount: number;
+    items: AppliedRecommendationItem[];
+}
+
+type RecommendedTestCase = TestPlanRecommendation['testCases'][number];
+
+const PRIORITY_MAP: Record<RecommendedTestCase['priority'], number> = {
+    Critical: 1,
+    High: 2,
+    Medium: 3,
+    Low: 4
+};
+
+/**
+ * Turns AI test plan recommendations into Azure DevOps test case work items inside a suite
+ */
+export class RecommendationApplier {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Map a recommendation priority onto the ADO 1-4 priority scale (defaults to 2)
+     */
+    static toAdoPriority(priority?: string): number {
+        return PRIORITY_MAP[priority as RecommendedTestCase['priority']] || 2;
+    }
+
+    /**
+     * Convert recommended steps into the '1. Step|Expected' text format accepted by createTestCase.
+     * Steps without their own expected result fall back to the test case's overall expected result on the last step.
+     */
+    static toStepsText(testCase: RecommendedTestCase): string {
+        const clean = (text: string) => text.replace(/[\r\n|]+/g, ' ').trim();
+
+        return testCase.steps
+            .map((step, index) => {
+                const isLastStep = index === testCase.steps.length - 1;
+                const expectedResult = step.expectedResult || (isLastStep ? testCase.expectedResult : '');
+                return `${index + 1}. ${clean(step.action)}${expectedResult ? `|${clean(expectedResult)}` : ''}`;
+            })
+            .join('\n');
+    }
+
+    /**
+     * Create test cases for the selected recommendations and add them to a new or existing suite.
+     * The caller validates the recommendations and that every index exists.
+     */
+    async apply(planId: number, recommendations: TestPlanRecommendation[], indices: number[], options: ApplyRecommendationsOptions = {}): Promise<ApplyRecommendationsReport> {
+        const suiteId = await this.resolveSuite(planId, options);
+        const items: AppliedRecommendationItem[] = [];
+
+        for (const index of indices) {
+            for (const testCase of recommendations[index].testCases) {
+                try {
+                    const workItem = await this.client.createTestCase(
+                        testCase.title,
+                        RecommendationApplier.toStepsText(testCase),
+                        RecommendationApplier.toAdoPriority(testCase.priority),
+                        options.areaPath,
+                        options.iterationPath,
+                        [testCase.testType].filter(Boolean)
+                    );
+                    items.push({ recommendationIndex: index, title: testCase.title, success: true, testCaseId: workItem.id });
+                } catch (error) {
+                    items.push({
+                        recommendationIndex: index,
+                        title: testCase.title,
+                        success: false,
+                        error: error instanceof Error ? error.message : 'Unknown error'
+                    });
+                }
+            }
+        }
+
+        const createdIds = items.filter(item => item.success).map(item => item.testCaseId!.toString());
+        if (createdIds.length > 0) {
+            try {
+                await this.client.addTestCasesToSuite(planId, suiteId, createdIds);
+            } catch (error) {
+                // The work items exist; report that they could not be placed in the suite
+                const message = `Created but not added to suite ${suiteId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                items.filter(item => item.success).forEach(item => {
+                    item.success = false;
+                    item.error = message;
+                });
+            }
+        }
+
+        const createdCount = items.filter(item => item.success).length;
+        return {
+            planId,
+            suiteId,
+            createdCount,
+            failedCount: items.length - createdCount,
+            items
+        };
+    }
+
+    private async resolveSuite(planId: number, options: ApplyRecommendationsOptions): Promise<number> {
+        if (options.suiteId !== undefined) {
+            return options.suiteId;
+        }
+
+        if (options.newSuiteName) {
+            const suite = await this.client.createTestSuite(planId, options.newSuiteName, options.parentSuiteId);
+            return suite.id;
+        }
+
+        const plan = await this.client.getTestPlan(planId);
+        if (!plan?.rootSuite?.id) {
+            throw new Error(`Test plan ${planId} has no root suite`);
+        }
+        return plan.rootSuite.id;
+    }
+}
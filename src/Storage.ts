@@ -0,0 +1,121 @@
+import { TestStep, TestSuiteNode } from './AzureDevOpsTestPlansClient';
+import { TestPlanRecommendation } from './AzureOpenAIService';
+import { InMemoryStorage } from './InMemoryStorage';
+import { FileStorage } from './FileStorage';
+import { CosmosStorage } from './CosmosStorage';
+
+export interface Connection {
+    resourceId: string;
+    connectionId: string;
+    github_url: string;
+    prd: string;
+    ado_url: string;
+    website_url: string;
+}
+
+export interface TestCase {
+    id: number;
+    name: string;
+    state?: string;
+    priority?: number;
+    steps: TestStep[];
+    issueId?: string;
+    issueNumber?: number;
+    issueUrl?: string;
+    status?: string;
+}
+
+export interface TestSuite extends Omit<TestSuiteNode, 'testCases' | 'children'> {
+    planName?: string;
+    testCases: TestCase[];
+    children: TestSuite[];
+}
+
+export interface IssueLink {
+    resourceId: string;
+    testCaseId: string;
+    issueId: string;
+    issueUrl?: string;
+    state?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface RecommendationRecord {
+    id: string;
+    testPlanId: string;
+    prdLength: number;
+    existingTestCasesCount: number;
+    recommendations: TestPlanRecommendation[];
+    generatedAt: string;
+}
+
+export interface PlanTemplateSuite {
+    name: string;
+    suiteType: 'StaticTestSuite' | 'RequirementTestSuite' | 'DynamicTestSuite';
+    requirementId?: number;
+    queryString?: string;
+    /** Default configurations of the suite; undefined inherits them from the parent */
+    configurationIds?: number[];
+    testCases: PlanTemplateTestCase[];
+    children: PlanTemplateSuite[];
+}
+
+export interface PlanTemplateTestCase {
+    id: number;
+    /** Configurations the test case has points for in the suite */
+    configurationIds: number[];
+}
+
+export interface PlanTemplate {
+    name: string;
+    description?: string;
+    areaPath?: string;
+    sourcePlanId?: number;
+    /** The plan's root suite: its own test cases and configurations, and the suite hierarchy below it */
+    rootSuite: PlanTemplateSuite;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Persistence for server state: connections, suite snapshots, issue links, recommendation history and plan templates
+ */
+export interface StorageProvider {
+    readonly name: string;
+    initialize(): Promise<void>;
+
+    getConnection(resourceId: string): Promise<Connection | undefined>;
+    saveConnection(connection: Connection): Promise<void>;
+
+    getSuites(resourceId: string): Promise<TestSuite[] | undefined>;
+    saveSuites(resourceId: string, suites: TestSuite[]): Promise<void>;
+
+    getIssueLinks(resourceId: string): Promise<IssueLink[]>;
+    saveIssueLink(link: IssueLink): Promise<void>;
+
+    getRecommendationHistory(testPlanId?: string): Promise<RecommendationRecord[]>;
+    saveRecommendations(record: RecommendationRecord): Promise<void>;
+
+    getPlanTemplates(): Promise<PlanTemplate[]>;
+    getPlanTemplate(name: string): Promise<PlanTemplate | undefined>;
+    savePlanTemplate(template: PlanTemplate): Promise<void>;
+    /** Returns false when no template has the name */
+    deletePlanTemplate(name: string): Promise<boolean>;
+}
+
+/**
+ * Create the storage provider selected by STORAGE_PROVIDER (memory | file | cosmos, default memory)
+ */
+export function createStorage(provider: string = process.env.STORAGE_PROVIDER || 'memory'): StorageProvider {
+    switch (provider.toLowerCase()) {
+        case 'memory':
+            return new InMemoryStorage();
+        case 'file':
+            return new FileStorage(process.env.STORAGE_FILE_PATH || './data/storage.json');
+        case 'cosmos':
+            return new CosmosStorage();
+        default:
+            throw new Error(`Unknown STORAGE_PROVIDER "${provider}". Use memory, file or cosmos.`);
+    }
+}
@@ -0,0 +1,284 @@
+import { AzureDevOpsTestPlansClient, REVISION_BOOKKEEPING_FIELDS, TestCaseFieldChange, TestStep } from './AzureDevOpsTestPlansClient';
+
+export interface TextDiffSegment {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+export interface StepTextDiff {
+    changed: boolean;
+    from: string;
+    to: string;
+    segments: TextDiffSegment[];
+}
+
+export interface StepDiffEntry {
+    change: 'unchanged' | 'modified' | 'added' | 'removed';
+    /** The step kept its id but changed place relative to the other steps */
+    moved: boolean;
+    stepId: string;
+    type: string;
+    sharedStepsId?: number;
+    /** 1-based positions in each revision */
+    fromPosition?: number;
+    toPosition?: number;
+    action: StepTextDiff;
+    expectedResult: StepTextDiff;
+}
+
+export interface TestCaseRevisionDiff {
+    testCaseId: number;
+    fromRevision: number;
+    toRevision: number;
+    fromChangedBy?: string;
+    toChangedBy?: string;
+    fromChangedDate?: Date;
+    toChangedDate?: Date;
+    fieldChanges: TestCaseFieldChange[];
+    steps: StepDiffEntry[];
+    summary: { added: number; removed: number; modified: number; moved: number; unchanged: number };
+    /** Line-per-step rendering: '+' added, '-' removed, '~' modified, '>' moved; [-old-]{+new+} marks word changes */
+    text: string;
+}
+
+// Steps are compared separately
+const IGNORED_DIFF_FIELDS = [...REVISION_BOOKKEEPING_FIELDS, 'Microsoft.VSTS.TCM.Steps'];
+
+// Word diffs above this many tokens per side fall back to replacing the whole text
+const MAX_DIFF_TOKENS = 2000;
+
+/**
+ * Compares revisions of a test case. Steps are aligned by their ADO step id, which stays with a step
+ * across edits, so rewording, reordering, insertion and deletion are told apart.
+ */
+export class TestCaseHistory {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Diff two revisions of a test case; toRevision defaults to the latest
+     */
+    async diffRevisions(testCaseId: number, fromRevision: number, toRevision?: number): Promise<TestCaseRevisionDiff> {
+        const to = toRevision !== undefined
+            ? await this.client.getTestCaseRevision(testCaseId, toRevision)
+            : await this.latestRevision(testCaseId);
+        const from = await this.client.getTestCaseRevision(testCaseId, fromRevision);
+
+        const steps = TestCaseHistory.diffSteps(from.parsedSteps, to.parsedSteps);
+
+        return {
+            testCaseId,
+            fromRevision: from.revision,
+            toRevision: to.revision,
+            fromChangedBy: from.changedBy,
+            toChangedBy: to.changedBy,
+            fromChangedDate: from.changedDate,
+            toChangedDate: to.changedDate,
+            fieldChanges: TestCaseHistory.diffFields(from.fields, to.fields),
+            steps,
+            summary: {
+                added: steps.filter(step => step.change === 'added').length,
+                removed: steps.filter(step => step.change === 'removed').length,
+                modified: steps.filter(step => step.change === 'modified').length,
+                moved: steps.filter(step => step.moved).length,
+                unchanged: steps.filter(step => step.change === 'unchanged' && !step.moved).length
+            },
+            text: TestCaseHistory.renderSteps(steps)
+        };
+    }
+
+    private async latestRevision(testCaseId: number) {
+        const revisions = await this.client.getTestCaseRevisions(testCaseId);
+        if (revisions.length === 0) {
+            const error: any = new Error(`Test case ${testCaseId} has no revisions`);
+            error.statusCode = 404;
+            throw error;
+        }
+        return this.client.getTestCaseRevision(testCaseId, revisions[revisions.length - 1].revision);
+    }
+
+    /**
+     * Fields whose values differ between two revisions
+     */
+    static diffFields(from: Record<string, any>, to: Record<string, any>): TestCaseFieldChange[] {
+        const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+            .filter(field => !IGNORED_DIFF_FIELDS.includes(field))
+            .sort();
+
+        return fields
+            .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+            .map(field => ({ field, oldValue: from[field], newValue: to[field] }));
+    }
+
+    /**
+     * Align two step lists by step id, in the order of the newer list with removed steps kept near their old place
+     */
+    static diffSteps(fromSteps: TestStep[], toSteps: TestStep[]): StepDiffEntry[] {
+        const fromById = new Map(fromSteps.map((step, index) => [step.id, { step, index }]));
+        const toIds = new Set(toSteps.map(step => step.id));
+
+        // Common steps outside the longest run kept in order are the ones that moved
+        const commonFromOrder = fromSteps.filter(step => toIds.has(step.id)).map(step => step.id);
+        const commonToOrder = toSteps.filter(step => fromById.has(step.id)).map(step => step.id);
+        const inOrder = new Set(TestCaseHistory.longestCommonSubsequence(commonFromOrder, commonToOrder));
+
+        const entries: StepDiffEntry[] = toSteps.map((step, index) => {
+            const previous = fromById.get(step.id);
+            if (!previous) {
+                return TestCaseHistory.entry('added', step, undefined, index);
+            }
+
+            const entry = TestCaseHistory.entry('modified', step, previous.index, index, previous.step);
+            entry.moved = !inOrder.has(step.id);
+            entry.change = entry.action.changed || entry.expectedResult.changed || previous.step.sharedStepsId !== step.sharedStepsId
+                ? 'modified'
+                : 'unchanged';
+            return entry;
+        });
+
+        // Place each removed step after the nearest earlier step that still exists
+        fromSteps.forEach((step, index) => {
+            if (toIds.has(step.id)) {
+                return;
+            }
+
+            let insertAt = 0;
+            for (let earlier = index - 1; earlier >= 0; earlier--) {
+                const anchor = entries.findIndex(entry => entry.stepId === fromSteps[earlier].id);
+                if (anchor !== -1) {
+                    insertAt = anchor + 1;
+                    break;
+                }
+            }
+            // Keep consecutive removed steps in their original order
+            while (insertAt < entries.length && entries[insertAt].change === 'removed') {
+                insertAt++;
+            }
+            entries.splice(insertAt, 0, TestCaseHistory.entry('removed', step, index, undefined));
+        });
+
+        return entries;
+    }
+
+    /**
+     * Word-level diff of two texts
+     */
+    static diffText(from: string, to: string): StepTextDiff {
+        if (from === to) {
+            return { changed: false, from, to, segments: from ? [{ type: 'equal', text: from }] : [] };
+        }
+
+        const fromTokens = from.split(/(\s+)/).filter(token => token !== '');
+        const toTokens = to.split(/(\s+)/).filter(token => token !== '');
+        if (fromTokens.length > MAX_DIFF_TOKENS || toTokens.length > MAX_DIFF_TOKENS) {
+            return {
+                changed: true,
+                from,
+                to,
+                segments: [
+                    ...(from ? [{ type: 'removed' as const, text: from }] : []),
+                    ...(to ? [{ type: 'added' as const, text: to }] : [])
+                ]
+            };
+        }
+
+        const lengths = TestCaseHistory.lcsTable(fromTokens, toTokens);
+        const segments: TextDiffSegment[] = [];
+        const push = (type: TextDiffSegment['type'], text: string) => {
+            const last = segments[segments.length - 1];
+            if (last && last.type === type) {
+                last.text += text;
+            } else {
+                segments.push({ type, text });
+            }
+        };
+
+        let i = 0;
+        let j = 0;
+        while (i < fromTokens.length || j < toTokens.length) {
+            if (i < fromTokens.length && j < toTokens.length && fromTokens[i] === toTokens[j]) {
+                push('equal', fromTokens[i]);
+                i++;
+                j++;
+            } else if (i < fromTokens.length && (j === toTokens.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+                push('removed', fromTokens[i++]);
+            } else {
+                push('added', toTokens[j++]);
+            }
+        }
+
+        return { changed: true, from, to, segments };
+    }
+
+    static renderSteps(steps: StepDiffEntry[]): string {
+        const markers: Record<StepDiffEntry['change'], string> = { unchanged: ' ', modified: '~', added: '+', removed: '-' };
+
+        return steps.map(step => {
+            const marker = step.change === 'unchanged' && step.moved ? '>' : markers[step.change];
+            const position = step.change === 'removed' ? `(was ${step.fromPosition})` : `${step.toPosition}.`;
+            const moved = step.moved ? ` (moved from ${step.fromPosition})` : '';
+
+            if (step.type === 'SharedStepsReference') {
+                return `${marker} ${position} [shared steps ${step.sharedStepsId}]${moved}`;
+            }
+
+            const render = (diff: StepTextDiff) => step.change === 'modified' ? TestCaseHistory.renderText(diff) : (diff.to || diff.from);
+            const expected = step.expectedResult.from || step.expectedResult.to ? ` => ${render(step.expectedResult)}` : '';
+            return `${marker} ${position} ${render(step.action)}${expected}${moved}`.replace(/\n/g, ' / ');
+        }).join('\n');
+    }
+
+    private static renderText(diff: StepTextDiff): string {
+        return diff.segments
+            .map(segment => segment.type === 'added' ? `{+${segment.text}+}` : segment.type === 'removed' ? `[-${segment.text}-]` : segment.text)
+            .join('');
+    }
+
+    private static entry(change: StepDiffEntry['change'], step: TestStep, fromIndex?: number, toIndex?: number, previous?: TestStep): StepDiffEntry {
+        const before = change === 'added' ? undefined : previous || step;
+        const after = change === 'removed' ? undefined : step;
+
+        return {
+            change,
+            moved: false,
+            stepId: step.id,
+            type: step.type,
+            sharedStepsId: step.sharedStepsId,
+            fromPosition: fromIndex !== undefined ? fromIndex + 1 : undefined,
+            toPosition: toIndex !== undefined ? toIndex + 1 : undefined,
+            action: TestCaseHistory.diffText(before?.action || '', after?.action || ''),
+            expectedResult: TestCaseHistory.diffText(before?.expectedResult || '', after?.expectedResult || '')
+        };
+    }
+
+    private static longestCommonSubsequence(a: string[], b: string[]): string[] {
+        const lengths = TestCaseHistory.lcsTable(a, b);
+        const result: string[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                result.push(a[i]);
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * lengths[i][j] is the LCS length of a[i..] and b[j..]
+     */
+    private static lcsTable(a: string[], b: string[]): number[][] {
+        const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+        return lengths;
+    }
+}
@@ -0,0 +1,413 @@
+import { parseCsv } from './Csv';
+import { GherkinParser, GherkinScenario, GherkinStep } from './GherkinParser';
+import { TestCaseParameters, TestCaseParameterSet } from './TestCaseParameters';
+
+export const TEST_CASE_IMPORT_FORMATS = ['csv', 'markdown', 'gherkin'] as const;
+export type TestCaseImportFormat = typeof TEST_CASE_IMPORT_FORMATS[number];
+
+export interface ImportedTestStep {
+    action: string;
+    expectedResult: string;
+}
+
+export interface ImportedTestCase {
+    /** 1-based line of the source where the test case starts */
+    line: number;
+    /** ID given in the source (CSV ID column, Markdown "ID:" line, Gherkin @tc:123 tag) */
+    id?: number;
+    title: string;
+    description?: string;
+    steps: ImportedTestStep[];
+    priority?: number;
+    tags: string[];
+    areaPath?: string;
+    iterationPath?: string;
+    parameters?: TestCaseParameterSet;
+    /** Problems that keep the test case from being created, prefixed with their line */
+    errors: string[];
+    warnings: string[];
+}
+
+type CsvColumn = 'id' | 'workItemType' | 'title' | 'stepNumber' | 'action' | 'expectedResult' | 'areaPath' | 'iterationPath' | 'priority' | 'tags' | 'description';
+
+// Header names of ADO's test case CSV export (and common variants), lower case without spaces
+const CSV_COLUMNS: Record<string, CsvColumn> = {
+    id: 'id',
+    workitemtype: 'workItemType',
+    title: 'title',
+    teststep: 'stepNumber',
+    step: 'stepNumber',
+    stepaction: 'action',
+    action: 'action',
+    stepexpected: 'expectedResult',
+    expectedresult: 'expectedResult',
+    expected: 'expectedResult',
+    areapath: 'areaPath',
+    area: 'areaPath',
+    iterationpath: 'iterationPath',
+    iteration: 'iterationPath',
+    priority: 'priority',
+    tags: 'tags',
+    description: 'description'
+};
+
+// Gherkin tags that carry test case fields instead of becoming ADO tags: @priority:2, @priority-2, @tc:123, @TC-123
+const PRIORITY_TAG_PATTERN = /^priority[-:=]?([1-4])$/i;
+const ID_TAG_PATTERN = /^(?:tc|ado)[-:#]?(\d+)$/i;
+
+// Work item titles are limited to 255 characters
+const MAX_TITLE_LENGTH = 255;
+
+/**
+ * Reads test cases from CSV (ADO's export layout: a row per test case followed by a row per step),
+ * Markdown checklists and Gherkin feature files into one shape for validation and creation
+ */
+export class TestCaseImportParser {
+    static parse(content: string, format: TestCaseImportFormat): ImportedTestCase[] {
+        switch (format) {
+            case 'csv':
+                return TestCaseImportParser.parseCsv(content);
+            case 'markdown':
+                return TestCaseImportParser.parseMarkdown(content);
+            case 'gherkin':
+                return TestCaseImportParser.parseGherkin(content);
+            default:
+                throw new Error(`Unsupported import format "${format}". Use ${TEST_CASE_IMPORT_FORMATS.join(', ')}.`);
+        }
+    }
+
+    /**
+     * Detect the format from the file name extension, then from the content
+     */
+    static detectFormat(content: string, fileName?: string): TestCaseImportFormat {
+        const extension = fileName?.toLowerCase().split('.').pop();
+        if (extension === 'csv' || extension === 'tsv') {
+            return 'csv';
+        }
+        if (extension === 'md' || extension === 'markdown') {
+            return 'markdown';
+        }
+        if (extension === 'feature') {
+            return 'gherkin';
+        }
+
+        const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+        // Gherkin comments and tags may come before the Feature line
+        if (lines.find(line => !line.startsWith('#') && !line.startsWith('@'))?.startsWith('Feature:')) {
+            return 'gherkin';
+        }
+        if (lines.some(line => /^#{1,6}\s/.test(line) || /^[-*+]\s+\[[ xX]\]/.test(line))) {
+            return 'markdown';
+        }
+        return 'csv';
+    }
+
+    /**
+     * ADO CSV layout: a row with a Title starts a test case; following rows without a Title add its steps.
+     * A Title row may also carry the first step.
+     */
+    static parseCsv(content: string): ImportedTestCase[] {
+        const records = parseCsv(content);
+        if (records.length === 0) {
+            throw new Error('CSV is empty');
+        }
+
+        const header = records[0].fields.map(name => CSV_COLUMNS[name.toLowerCase().replace(/[\s_-]/g, '')]);
+        if (!header.includes('title')) {
+            throw new Error('CSV header must include a Title column');
+        }
+        const value = (fields: string[], key: CsvColumn) => {
+            const index = header.indexOf(key);
+            return index === -1 ? '' : (fields[index] ?? '').trim();
+        };
+
+        const testCases: ImportedTestCase[] = [];
+        let current: ImportedTestCase | undefined;
+
+        for (const record of records.slice(1)) {
+            const { line, fields } = record;
+            const title = value(fields, 'title');
+            const action = value(fields, 'action');
+            const expectedResult = value(fields, 'expectedResult');
+
+            if (title) {
+                current = TestCaseImportParser.newTestCase(line, title);
+                testCases.push(current);
+
+                const workItemType = value(fields, 'workItemType');
+                if (workItemType && workItemType.toLowerCase() !== 'test case') {
+                    current.errors.push(`Line ${line}: work item type "${workItemType}" is not "Test Case"`);
+                }
+
+                const id = value(fields, 'id');
+                if (id) {
+                    if (/^\d+$/.test(id)) {
+                        current.id = parseInt(id);
+                    } else {
+                        current.errors.push(`Line ${line}: ID "${id}" is not a number`);
+                    }
+                }
+
+                const priority = value(fields, 'priority');
+                if (priority) {
+                    current.priority = TestCaseImportParser.readPriority(priority, line, current.errors);
+                }
+
+                current.tags = value(fields, 'tags').split(/[;,]/).map(tag => tag.trim()).filter(tag => tag !== '');
+                current.areaPath = value(fields, 'areaPath') || undefined;
+                current.iterationPath = value(fields, 'iterationPath') || undefined;
+                current.description = value(fields, 'description') || undefined;
+            } else if (!action && !expectedResult) {
+                continue;
+            } else if (!current) {
+                throw new Error(`Line ${line}: step row comes before the first test case row`);
+            }
+
+            if (action || expectedResult) {
+                if (!action) {
+                    current.errors.push(`Line ${line}: step has an expected result but no action`);
+                }
+                current.steps.push({ action, expectedResult });
+            }
+        }
+
+        return testCases.map(testCase => TestCaseImportParser.finish(testCase));
+    }
+
+    /**
+     * Markdown: each heading with steps below it is a test case (headings directly followed by another heading group cases and are skipped).
+     * Steps are checklist or list items, with the expected result after '->', '=>' or '|'; '<br>' in a step is a line break.
+     * "ID:", "Priority:", "Tags:", "Area:" and "Iteration:" lines set fields, and a table after a "Parameters:" line gives
+     * parameter names and rows; other text becomes the description.
+     */
+    static parseMarkdown(content: string): ImportedTestCase[] {
+        const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+        const testCases: ImportedTestCase[] = [];
+        let current: ImportedTestCase | undefined;
+        let description: string[] = [];
+        let inCodeBlock = false;
+        // Rows of the table after a "Parameters:" line, header first
+        let parameterTable: { line: number; rows: string[][] } | undefined;
+
+        const closeParameters = () => {
+            if (current && parameterTable) {
+                const [names = [], ...rows] = parameterTable.rows;
+                const values = rows.map(row => Object.fromEntries(names.map((name, index) => [name, row[index] ?? ''])));
+                const invalid = TestCaseParameters.validate(names, values);
+                if (invalid) {
+                    current.errors.push(`Line ${parameterTable.line}: ${invalid}`);
+                }
+                current.parameters = { names, rows: values };
+            }
+            parameterTable = undefined;
+        };
+
+        const close = () => {
+            closeParameters();
+            if (current) {
+                current.description = description.join('\n').trim() || undefined;
+                // A heading with nothing under it only groups the headings that follow
+                if (current.steps.length > 0 || current.description || current.priority || current.tags.length > 0 || current.id !== undefined) {
+                    testCases.push(current);
+                }
+            }
+            current = undefined;
+            description = [];
+        };
+
+        lines.forEach((rawLine, index) => {
+            const line = rawLine.trim();
+            const lineNumber = index + 1;
+
+            if (line.startsWith('```')) {
+                inCodeBlock = !inCodeBlock;
+            }
+
+            const heading = !inCodeBlock && line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+            if (heading) {
+                close();
+                current = TestCaseImportParser.newTestCase(lineNumber, heading[1]);
+                return;
+            }
+            if (!current) {
+                return;
+            }
+
+            if (parameterTable && line.startsWith('|')) {
+                // Skip the |---|---| separator row
+                if (!/^\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/.test(line)) {
+                    parameterTable.rows.push(GherkinParser.readRow(line.replace(/<br\s*\/?>/gi, '\\n')));
+                }
+                return;
+            }
+            closeParameters();
+
+            const field = !inCodeBlock && current.steps.length === 0
+                && line.match(/^(?:\*\*)?(ID|Priority|Tags|Parameters|Area(?: Path)?|Iteration(?: Path)?)(?:\*\*)?:(?:\*\*)?\s*(.*)$/i);
+            if (field) {
+                const [, name, fieldValue] = field;
+                const key = name.toLowerCase();
+                if (key === 'id') {
+                    if (/^\d+$/.test(fieldValue.trim())) {
+                        current.id = parseInt(fieldValue.trim());
+                    } else {
+                        current.errors.push(`Line ${lineNumber}: ID "${fieldValue.trim()}" is not a number`);
+                    }
+                } else if (key === 'parameters') {
+                    parameterTable = { line: lineNumber, rows: [] };
+                } else if (key === 'priority') {
+                    current.priority = TestCaseImportParser.readPriority(fieldValue.trim(), lineNumber, current.errors);
+                } else if (key === 'tags') {
+                    current.tags = fieldValue.split(/[;,]/).map(tag => tag.trim().replace(/^`|`$/g, '')).filter(tag => tag !== '');
+                } else if (key.startsWith('area')) {
+                    current.areaPath = fieldValue.trim() || undefined;
+                } else {
+                    current.iterationPath = fieldValue.trim() || undefined;
+                }
+                return;
+            }
+
+            const item = !inCodeBlock && line.match(/^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s*)?(.*)$/);
+            if (item) {
+                const [action, ...expected] = item[1].split(/\s+(?:->|=>|\|)\s+/);
+                const lineBreaks = (text: string) => text.trim().replace(/\s*<br\s*\/?>\s*/gi, '\n');
+                current.steps.push({ action: lineBreaks(action), expectedResult: lineBreaks(expected.join(' ')) });
+                if (!action.trim()) {
+                    current.errors.push(`Line ${lineNumber}: step has no action`);
+                }
+                return;
+            }
+
+            if (current.steps.length === 0) {
+                description.push(rawLine);
+            } else if (line !== '') {
+                current.warnings.push(`Line ${lineNumber}: text after the steps is ignored`);
+            }
+        });
+        close();
+
+        return testCases.map(testCase => TestCaseImportParser.finish(testCase));
+    }
+
+    /**
+     * Gherkin: each Scenario is a test case, prefixed with the Background steps.
+     * Given and When lines become step actions; Then lines become the expected result of the step before them.
+     * A Scenario Outline becomes a parameterized test case: <name> turns into @name and the Examples rows into parameter rows.
+     */
+    static parseGherkin(content: string): ImportedTestCase[] {
+        const feature = GherkinParser.parse(content);
+        return feature.scenarios.map(scenario => TestCaseImportParser.finish(TestCaseImportParser.fromScenario(scenario, feature.tags)));
+    }
+
+    /**
+     * Map one scenario to a test case; featureTags are added to the scenario's own
+     */
+    static fromScenario(scenario: GherkinScenario, featureTags: string[] = []): ImportedTestCase {
+        const testCase = TestCaseImportParser.newTestCase(scenario.line, scenario.name);
+        testCase.description = scenario.description || undefined;
+
+        for (const tag of [...featureTags, ...scenario.tags]) {
+            const priority = tag.match(PRIORITY_TAG_PATTERN);
+            const id = tag.match(ID_TAG_PATTERN);
+            if (priority) {
+                testCase.priority = parseInt(priority[1]);
+            } else if (id) {
+                testCase.id = parseInt(id[1]);
+            } else if (!testCase.tags.includes(tag)) {
+                testCase.tags.push(tag);
+            }
+        }
+
+        const placeholder = scenario.outline ? (text: string) => text.replace(/<([^<>]+)>/g, '@$1') : (text: string) => text;
+        for (const step of [...scenario.background, ...scenario.steps]) {
+            const text = placeholder(TestCaseImportParser.stepText(step));
+            const previous = testCase.steps[testCase.steps.length - 1];
+            if (step.type === 'outcome' && previous) {
+                previous.expectedResult = previous.expectedResult ? `${previous.expectedResult}\n${text}` : text;
+            } else if (step.type === 'outcome') {
+                testCase.steps.push({ action: '', expectedResult: text });
+            } else {
+                testCase.steps.push({ action: text, expectedResult: '' });
+            }
+        }
+
+        if (scenario.outline) {
+            TestCaseImportParser.readExamples(scenario, testCase);
+        }
+
+        return testCase;
+    }
+
+    /**
+     * Step text with its keyword, followed by its doc string or data table
+     */
+    static stepText(step: GherkinStep): string {
+        const lines = [`${step.keyword} ${step.text}`];
+        if (step.docString !== undefined) {
+            lines.push(step.docString);
+        }
+        for (const row of step.dataTable || []) {
+            lines.push(`| ${row.map(cell => cell.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, '\\n')).join(' | ')} |`);
+        }
+        return lines.join('\n');
+    }
+
+    private static readExamples(scenario: GherkinScenario, testCase: ImportedTestCase): void {
+        if (scenario.examples.length === 0) {
+            testCase.errors.push(`Line ${scenario.line}: Scenario Outline has no Examples`);
+            return;
+        }
+
+        const names = scenario.examples[0].header;
+        const rows: Array<Record<string, string>> = [];
+        for (const examples of scenario.examples) {
+            if (examples.header.join('|') !== names.join('|')) {
+                testCase.errors.push(`Line ${examples.line}: Examples columns differ from the first Examples table (${names.join(', ')})`);
+                continue;
+            }
+            for (const row of examples.rows) {
+                rows.push(Object.fromEntries(names.map((name, index) => [name, row[index]])));
+            }
+        }
+
+        const invalid = TestCaseParameters.validate(names, rows);
+        if (invalid) {
+            testCase.errors.push(`Line ${scenario.line}: ${invalid}`);
+        }
+        const undefinedNames = [...scenario.background, ...scenario.steps]
+            .flatMap(step => Array.from(TestCaseImportParser.stepText(step).matchAll(/<([^<>]+)>/g), match => match[1]))
+            .filter((name, index, all) => !names.includes(name) && all.indexOf(name) === index);
+        if (undefinedNames.length > 0) {
+            testCase.errors.push(`Line ${scenario.line}: placeholder(s) not in Examples: ${undefinedNames.join(', ')}`);
+        }
+
+        testCase.parameters = { names, rows };
+    }
+
+    private static newTestCase(line: number, title: string): ImportedTestCase {
+        return { line, title: title.trim(), steps: [], tags: [], errors: [], warnings: [] };
+    }
+
+    private static readPriority(value: string, line: number, errors: string[]): number | undefined {
+        if (/^[1-4]$/.test(value)) {
+            return parseInt(value);
+        }
+        errors.push(`Line ${line}: priority "${value}" must be 1, 2, 3 or 4`);
+        return undefined;
+    }
+
+    /**
+     * Checks shared by every format
+     */
+    private static finish(testCase: ImportedTestCase): ImportedTestCase {
+        if (!testCase.title) {
+            testCase.errors.push(`Line ${testCase.line}: title is empty`);
+        } else if (testCase.title.length > MAX_TITLE_LENGTH) {
+            testCase.errors.push(`Line ${testCase.line}: title is longer than ${MAX_TITLE_LENGTH} characters`);
+        }
+        if (testCase.steps.length === 0) {
+            testCase.warnings.push(`Line ${testCase.line}: test case has no steps`);
+        }
+        return testCase;
+    }
+}
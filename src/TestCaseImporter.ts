@@ -0,0 +1,167 @@
+import { TestSuiteType } from 'azure-devops-node-api/interfaces/TestPlanInterfaces';
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { ImportedTestCase, TestCaseImportFormat, TestCaseImportParser } from './TestCaseImportParser';
+import { TestCaseParameters } from './TestCaseParameters';
+import { TestStepsDocument, TestStepsXml } from './TestStepsXml';
+
+export interface TestCaseImportOptions {
+    /** Detected from fileName or the content when omitted */
+    format?: TestCaseImportFormat;
+    fileName?: string;
+    /** Parse and validate only */
+    dryRun?: boolean;
+    /** Used for test cases whose source gives none */
+    areaPath?: string;
+    iterationPath?: string;
+    /** Added to every imported test case */
+    tags?: string[];
+    /** Create the valid test cases even when others have errors */
+    skipInvalid?: boolean;
+    /** Test cases created and added to the suite per batch (default 50) */
+    batchSize?: number;
+}
+
+export interface TestCaseImportItem extends ImportedTestCase {
+    /** ID of the created test case */
+    testCaseId?: number;
+    addedToSuite?: boolean;
+    /** Why creating the test case or adding it to the suite failed */
+    error?: string;
+}
+
+export interface TestCaseImportReport {
+    planId: number;
+    suiteId: number;
+    format: TestCaseImportFormat;
+    dryRun: boolean;
+    totalCount: number;
+    validCount: number;
+    invalidCount: number;
+    createdCount: number;
+    addedToSuiteCount: number;
+    items: TestCaseImportItem[];
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Bulk-creates test cases from CSV, Markdown or Gherkin and adds them to a suite in batches
+ */
+export class TestCaseImporter {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Parse and validate the content; unless dryRun, create the test cases and add them to the suite.
+     * Nothing is created while any test case has errors, unless skipInvalid is set.
+     */
+    async import(planId: number, suiteId: number, content: string, options: TestCaseImportOptions = {}): Promise<TestCaseImportReport> {
+        const format = options.format || TestCaseImportParser.detectFormat(content, options.fileName);
+
+        let testCases: ImportedTestCase[];
+        try {
+            testCases = TestCaseImportParser.parse(content, format);
+        } catch (error: any) {
+            error.statusCode = 400;
+            throw error;
+        }
+
+        const items: TestCaseImportItem[] = testCases.map(testCase => TestCaseImporter.applyDefaults(testCase, options));
+
+        // Check the target before creating anything that would be left outside it
+        const suite = await this.client.getTestSuite(planId, suiteId);
+        if (suite.suiteType === TestSuiteType.DynamicTestSuite) {
+            const error: any = new Error(`Suite ${suiteId} is query-based; test cases cannot be added to it`);
+            error.statusCode = 400;
+            throw error;
+        }
+
+        const report: TestCaseImportReport = {
+            planId,
+            suiteId,
+            format,
+            dryRun: !!options.dryRun,
+            totalCount: items.length,
+            validCount: items.filter(item => item.errors.length === 0).length,
+            invalidCount: items.filter(item => item.errors.length > 0).length,
+            createdCount: 0,
+            addedToSuiteCount: 0,
+            items
+        };
+        if (options.dryRun || (report.invalidCount > 0 && !options.skipInvalid)) {
+            return report;
+        }
+
+        const valid = items.filter(item => item.errors.length === 0);
+        const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+        for (let start = 0; start < valid.length; start += batchSize) {
+            const batch = valid.slice(start, start + batchSize);
+            console.log(`Importing test cases ${start + 1}-${start + batch.length} of ${valid.length}`);
+
+            for (const item of batch) {
+                try {
+                    const workItem = await this.client.createWorkItem('Test Case', TestCaseImporter.toWorkItemFields(item));
+                    item.testCaseId = workItem.id;
+                    report.createdCount++;
+                } catch (error) {
+                    item.error = error instanceof Error ? error.message : 'Unknown error';
+                }
+            }
+
+            const created = batch.filter(item => item.testCaseId !== undefined);
+            if (created.length === 0) {
+                continue;
+            }
+            try {
+                await this.client.addTestCasesToSuite(planId, suiteId, created.map(item => String(item.testCaseId)));
+                created.forEach(item => item.addedToSuite = true);
+                report.addedToSuiteCount += created.length;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                created.forEach(item => {
+                    item.addedToSuite = false;
+                    item.error = `Created but not added to the suite: ${message}`;
+                });
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Work item fields of a new test case: steps as step XML, parameters as parameter and data source XML
+     */
+    static toWorkItemFields(testCase: ImportedTestCase): Record<string, any> {
+        const steps: TestStepsDocument = { last: 0, nodes: [] };
+        for (const step of testCase.steps) {
+            TestStepsXml.insert(steps, TestStepsXml.createStep(step.action, step.expectedResult));
+        }
+
+        return {
+            'System.Title': testCase.title,
+            'System.Description': testCase.description ? TestStepsXml.textToHtml(testCase.description) : undefined,
+            'System.AreaPath': testCase.areaPath,
+            'System.IterationPath': testCase.iterationPath,
+            'System.Tags': testCase.tags.length > 0 ? testCase.tags.join('; ') : undefined,
+            'Microsoft.VSTS.Common.Priority': testCase.priority,
+            'Microsoft.VSTS.TCM.Steps': steps.nodes.length > 0 ? TestStepsXml.serialize(steps) : undefined,
+            'Microsoft.VSTS.TCM.Parameters': testCase.parameters ? TestCaseParameters.buildParametersXml(testCase.parameters.names) : undefined,
+            'Microsoft.VSTS.TCM.LocalDataSource': testCase.parameters
+                ? TestCaseParameters.buildDataSourceXml(testCase.parameters.names, testCase.parameters.rows)
+                : undefined
+        };
+    }
+
+    private static applyDefaults(testCase: ImportedTestCase, options: TestCaseImportOptions): TestCaseImportItem {
+        const item: TestCaseImportItem = {
+            ...testCase,
+            areaPath: testCase.areaPath || options.areaPath,
+            iterationPath: testCase.iterationPath || options.iterationPath,
+            tags: Array.from(new Set([...testCase.tags, ...(options.tags || [])])),
+            warnings: [...testCase.warnings]
+        };
+        if (item.id !== undefined) {
+            item.warnings.push(`Line ${item.line}: ID ${item.id} is ignored; a new test case is created`);
+        }
+        return item;
+    }
+}
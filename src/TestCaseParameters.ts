@@ -0,0 +1,123 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export interface TestCaseParameterSet {
+    names: string[];
+    rows: Array<Record<string, string>>;
+}
+
+// Parameter names become element names in the LocalDataSource XML
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+// An @name reference in step text; an @ inside a word (user@example.com) is not a reference
+export const PARAMETER_REFERENCE_PATTERN = /(?<![\w.])@([A-Za-z_][A-Za-z0-9_-]*)/g;
+
+/**
+ * Reads and writes test case parameters: the Microsoft.VSTS.TCM.Parameters definition
+ * and the data rows kept in Microsoft.VSTS.TCM.LocalDataSource (an ADO.NET DataSet document).
+ * Step text refers to parameters as @name.
+ */
+export class TestCaseParameters {
+    /**
+     * Return an error message for invalid parameter names or rows, or null when valid
+     */
+    static validate(names: string[], rows: Array<Record<string, string>>): string | null {
+        const invalid = names.filter(name => !PARAMETER_NAME_PATTERN.test(name));
+        if (invalid.length > 0) {
+            return `Invalid parameter name(s): ${invalid.join(', ')}. Use letters, digits, '_' or '-', starting with a letter or '_'.`;
+        }
+        if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+            return 'Parameter names must be unique';
+        }
+
+        for (let i = 0; i < rows.length; i++) {
+            const unknown = Object.keys(rows[i]).filter(key => !names.includes(key));
+            if (unknown.length > 0) {
+                return `rows[${i}] has values for undefined parameter(s): ${unknown.join(', ')}`;
+            }
+        }
+
+        return null;
+    }
+
+    static buildParametersXml(names: string[]): string {
+        return `<parameters>${names.map(name => `<param name="${TestCaseParameters.escape(name)}" bind="default"/>`).join('')}</parameters>`;
+    }
+
+    static buildDataSourceXml(names: string[], rows: Array<Record<string, string>>): string {
+        const columns = names
+            .map(name => `<xs:element name="${name}" type="xs:string" minOccurs="0" />`)
+            .join('');
+        const tableRows = rows
+            .map(row => `<Table1>${names.map(name => `<${name}>${TestCaseParameters.escape(row[name] ?? '')}</${name}>`).join('')}</Table1>`)
+            .join('');
+
+        return '<NewDataSet>' +
+            '<xs:schema id="NewDataSet" xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:msdata="urn:schemas-microsoft-com:xml-msdata">' +
+            '<xs:element name="NewDataSet" msdata:IsDataSet="true" msdata:Locale="">' +
+            '<xs:complexType><xs:choice minOccurs="0" maxOccurs="unbounded">' +
+            `<xs:element name="Table1"><xs:complexType><xs:sequence>${columns}</xs:sequence></xs:complexType></xs:element>` +
+            '</xs:choice></xs:complexType></xs:element></xs:schema>' +
+            `${tableRows}</NewDataSet>`;
+    }
+
+    /**
+     * Parse the parameter definition and data rows of a test case.
+     * Data sources bound to shared parameter sets (JSON) are not expanded; their rows are returned empty.
+     */
+    static parse(parametersXml?: string, dataSourceXml?: string): TestCaseParameterSet {
+        const names: string[] = [];
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '@_',
+            parseTagValue: false,
+            isArray: (tagName: string) => tagName === 'param' || tagName === 'Table1'
+        });
+
+        if (parametersXml) {
+            const document = parser.parse(parametersXml);
+            for (const param of document.parameters?.param || []) {
+                if (param['@_name']) {
+                    names.push(String(param['@_name']));
+                }
+            }
+        }
+
+        const rows: Array<Record<string, string>> = [];
+        if (dataSourceXml && dataSourceXml.trim().startsWith('<')) {
+            const document = parser.parse(dataSourceXml);
+            for (const table of document.NewDataSet?.Table1 || []) {
+                const row: Record<string, string> = {};
+                for (const name of names) {
+                    const value = table[name];
+                    row[name] = value === undefined || value === null ? '' : String(typeof value === 'object' ? value['#text'] ?? '' : value);
+                }
+                rows.push(row);
+            }
+        }
+
+        return { names, rows };
+    }
+
+    /**
+     * Names of the @parameters referenced in a piece of step text
+     */
+    static referencedNames(text: string): string[] {
+        return Array.from(new Set(Array.from(text.matchAll(PARAMETER_REFERENCE_PATTERN), match => match[1])));
+    }
+
+    /**
+     * Replace @name references with the row's values; unknown names are left as they are
+     */
+    static substitute(text: string, values: Record<string, string>): string {
+        return text.replace(PARAMETER_REFERENCE_PATTERN, (reference, name) => name in values ? values[name] : reference);
+    }
+
+    private static escape(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
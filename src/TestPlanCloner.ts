@@ -0,0 +1,263 @@
+import { TestPlan } from 'azure-devops-node-api/interfaces/TestPlanInterfaces';
+import { AzureDevOpsTestPlansClient, TestSuiteNode } from './AzureDevOpsTestPlansClient';
+import { PlanTemplate, PlanTemplateSuite } from './Storage';
+
+/** 'reference' adds the existing test cases to the new plan; 'deep' adds new copies of them */
+export const TEST_CASE_COPY_MODES = ['reference', 'deep'] as const;
+export type TestCaseCopyMode = typeof TEST_CASE_COPY_MODES[number];
+
+export interface PlanCopyOptions {
+    name: string;
+    /** Iteration path of the new plan (and of deep-copied test cases) */
+    iteration: string;
+    /** Defaults to the area path of the source plan or template */
+    areaPath?: string;
+    description?: string;
+    startDate?: string;
+    endDate?: string;
+    copyMode?: TestCaseCopyMode;
+}
+
+export interface PlanCopyProgress {
+    stage: 'reading' | 'creating-plan' | 'copying-test-cases' | 'creating-suites';
+    completed: number;
+    total: number;
+    message: string;
+}
+
+export interface PlanCopyResult {
+    sourcePlanId?: number;
+    templateName?: string;
+    plan: TestPlan;
+    copyMode: TestCaseCopyMode;
+    suitesCreated: number;
+    /** Test case entries added across all suites */
+    testCasesAdded: number;
+    /** Source test case ID to the ID of its copy (deep copies only) */
+    copiedTestCases: Record<string, number>;
+    warnings: string[];
+}
+
+export type PlanCopyProgressCallback = (progress: PlanCopyProgress) => void;
+
+// Test case IDs per request when adding to a suite; they travel in the URL
+const ADD_TEST_CASES_BATCH_SIZE = 100;
+
+/**
+ * Copies test plans: the suite hierarchy with suite types, default configurations and per-test-case configurations.
+ * A plan is first captured as a template (the same shape stored as a named plan template), then stamped out as a new plan.
+ */
+export class TestPlanCloner {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Clone a plan into a new iteration
+     */
+    async clonePlan(planId: number, options: PlanCopyOptions, onProgress: PlanCopyProgressCallback = () => {}): Promise<PlanCopyResult> {
+        const template = await this.captureTemplate(planId, `Plan ${planId}`, undefined, onProgress);
+        const result = await this.createPlanFromTemplate(template, options, onProgress);
+        return { ...result, templateName: undefined };
+    }
+
+    /**
+     * Capture the structure of a plan as a template. Test cases are kept by reference.
+     */
+    async captureTemplate(planId: number, name: string, description?: string, onProgress: PlanCopyProgressCallback = () => {}): Promise<PlanTemplate> {
+        const plan = await this.client.getTestPlan(planId);
+        if (!plan) {
+            const error: any = new Error(`Test plan ${planId} not found`);
+            error.statusCode = 404;
+            throw error;
+        }
+
+        const roots = await this.client.getTestSuiteHierarchy(planId, false);
+        const root = roots.find(node => node.id === plan.rootSuite?.id) || roots[0];
+        if (!root) {
+            throw new Error(`Test plan ${planId} has no root suite`);
+        }
+
+        const total = TestPlanCloner.countSuites(root);
+        let completed = 0;
+        const capture = async (node: TestSuiteNode): Promise<PlanTemplateSuite> => {
+            onProgress({ stage: 'reading', completed, total, message: `Reading suite "${node.name}"` });
+            const testCases = node.suiteType === 'DynamicTestSuite' ? [] : await this.client.getTestCaseList(planId, node.id);
+            completed++;
+
+            const children: PlanTemplateSuite[] = [];
+            for (const child of node.children) {
+                children.push(await capture(child));
+            }
+
+            return {
+                name: node.name,
+                suiteType: node.suiteType === 'None' ? 'StaticTestSuite' : node.suiteType,
+                requirementId: node.requirementId,
+                queryString: node.queryString,
+                configurationIds: node.inheritDefaultConfigurations ? undefined : node.defaultConfigurationIds,
+                testCases: testCases
+                    .filter((testCase: any) => testCase.workItem?.id !== undefined)
+                    .map((testCase: any) => ({
+                        id: testCase.workItem.id,
+                        configurationIds: (testCase.pointAssignments || []).map((assignment: any) => assignment.configurationId)
+                    })),
+                children
+            };
+        };
+
+        const now = new Date().toISOString();
+        return {
+            name,
+            description: description ?? plan.description,
+            areaPath: plan.areaPath,
+            sourcePlanId: planId,
+            rootSuite: await capture(root),
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    /**
+     * Create a new plan with the suites, configurations and test cases of a template
+     */
+    async createPlanFromTemplate(template: PlanTemplate, options: PlanCopyOptions, onProgress: PlanCopyProgressCallback = () => {}): Promise<PlanCopyResult> {
+        const copyMode = options.copyMode || 'reference';
+        const areaPath = options.areaPath || template.areaPath;
+        const warnings: string[] = [];
+
+        onProgress({ stage: 'creating-plan', completed: 0, total: 1, message: `Creating test plan "${options.name}"` });
+        const plan = await this.client.createTestPlan(
+            options.name,
+            options.iteration,
+            options.description ?? template.description,
+            options.startDate,
+            options.endDate,
+            areaPath
+        );
+        if (plan.rootSuite?.id === undefined) {
+            throw new Error(`Test plan ${plan.id} was created without a root suite`);
+        }
+
+        // Copy test cases once the plan exists, so a failed plan creation leaves no orphaned copies behind;
+        // a test case that fails to copy is left out of the new plan
+        const copiedTestCases: Record<string, number> = {};
+        if (copyMode === 'deep') {
+            const ids = TestPlanCloner.copyableTestCaseIds(template.rootSuite);
+            for (let i = 0; i < ids.length; i++) {
+                onProgress({ stage: 'copying-test-cases', completed: i, total: ids.length, message: `Copying test case ${ids[i]}` });
+                try {
+                    const copy = await this.client.copyTestCase(ids[i], { areaPath, iterationPath: options.iteration });
+                    copiedTestCases[ids[i]] = copy.id;
+                } catch (error) {
+                    warnings.push(`Test case ${ids[i]} was not copied: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            }
+        }
+
+        const total = TestPlanCloner.countSuites(template.rootSuite);
+        let completed = 0;
+        let testCasesAdded = 0;
+        const stamp = async (suite: PlanTemplateSuite, suiteId: number): Promise<void> => {
+            onProgress({ stage: 'creating-suites', completed, total, message: `Filling suite "${suite.name}"` });
+            testCasesAdded += await this.fillSuite(plan.id, suiteId, suite, copyMode, copiedTestCases, warnings);
+            completed++;
+
+            for (const child of suite.children) {
+                const created = await this.client.createTestSuite(plan.id, child.name, suiteId, {
+                    suiteType: child.suiteType,
+                    requirementId: child.requirementId,
+                    queryString: child.queryString
+                });
+                await stamp(child, created.id);
+            }
+        };
+
+        try {
+            await stamp(template.rootSuite, plan.rootSuite.id);
+        } catch (error: any) {
+            // Leave the partial plan in place but say where it is, and which test case copies were made for it
+            error.message = `Test plan ${plan.id} was created but copying its suites failed: ${error.message}`;
+            error.copiedTestCases = copiedTestCases;
+            throw error;
+        }
+
+        return {
+            sourcePlanId: template.sourcePlanId,
+            templateName: template.name,
+            plan,
+            copyMode,
+            // The root suite comes with the plan
+            suitesCreated: total - 1,
+            testCasesAdded,
+            copiedTestCases,
+            warnings
+        };
+    }
+
+    /**
+     * Apply a template suite's configurations and test cases to a suite of the new plan; returns the number of test cases added
+     */
+    private async fillSuite(planId: number, suiteId: number, suite: PlanTemplateSuite, copyMode: TestCaseCopyMode,
+        copiedTestCases: Record<string, number>, warnings: string[]): Promise<number> {
+        // Suite defaults first, so added test cases get points for them
+        if (suite.configurationIds && suite.configurationIds.length > 0) {
+            await this.client.setSuiteConfigurations(planId, suiteId, suite.configurationIds);
+        }
+
+        // Query-based suites fill themselves; requirement suites already list the requirement's existing test cases
+        if (suite.suiteType === 'DynamicTestSuite') {
+            return 0;
+        }
+        const testCases = suite.testCases
+            .map(testCase => ({ ...testCase, id: copyMode === 'deep' ? copiedTestCases[testCase.id] : testCase.id }))
+            .filter(testCase => testCase.id !== undefined);
+        if (testCases.length === 0) {
+            return 0;
+        }
+
+        if (suite.suiteType === 'StaticTestSuite' || copyMode === 'deep') {
+            for (let i = 0; i < testCases.length; i += ADD_TEST_CASES_BATCH_SIZE) {
+                const batch = testCases.slice(i, i + ADD_TEST_CASES_BATCH_SIZE);
+                await this.client.addTestCasesToSuite(planId, suiteId, batch.map(testCase => String(testCase.id)));
+            }
+        }
+
+        // Group test cases by configuration set to restore their points with as few calls as possible
+        const byConfigurations = new Map<string, { configurationIds: number[]; testCaseIds: number[] }>();
+        for (const testCase of testCases.filter(testCase => testCase.configurationIds.length > 0)) {
+            const configurationIds = Array.from(new Set(testCase.configurationIds)).sort((a, b) => a - b);
+            const key = configurationIds.join(',');
+            const group = byConfigurations.get(key) || { configurationIds, testCaseIds: [] };
+            group.testCaseIds.push(testCase.id);
+            byConfigurations.set(key, group);
+        }
+        for (const group of byConfigurations.values()) {
+            try {
+                await this.client.setTestCaseConfigurations(planId, suiteId, group.testCaseIds, group.configurationIds);
+            } catch (error) {
+                warnings.push(`Suite "${suite.name}": configurations ${group.configurationIds.join(', ')} were not restored ` +
+                    `for test case(s) ${group.testCaseIds.join(', ')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        return testCases.length;
+    }
+
+    /**
+     * Distinct test case IDs of the suites whose test cases are copied (all but query-based suites)
+     */
+    static copyableTestCaseIds(suite: PlanTemplateSuite): number[] {
+        const ids = new Set<number>();
+        const visit = (node: PlanTemplateSuite) => {
+            if (node.suiteType !== 'DynamicTestSuite') {
+                node.testCases.forEach(testCase => ids.add(testCase.id));
+            }
+            node.children.forEach(visit);
+        };
+        visit(suite);
+        return Array.from(ids);
+    }
+
+    static countSuites<T extends { children: T[] }>(suite: T): number {
+        return 1 + suite.children.reduce((count, child) => count + TestPlanCloner.countSuites(child), 0);
+    }
+}
@@ -0,0 +1,568 @@
+import { AzureDevOpsTestPlansClient, SharedStepsDetails, TestPointSummary, TestStep, TestSuiteNode } from './AzureDevOpsTestPlansClient';
+import { toCsv } from './Csv';
+import { PlanTemplate, PlanTemplateSuite } from './Storage';
+import { TestCaseImporter } from './TestCaseImporter';
+import { TestCaseParameters, TestCaseParameterSet } from './TestCaseParameters';
+import { PlanCopyProgressCallback, PlanCopyResult, TestPlanCloner } from './TestPlanCloner';
+import { TestStepsXml } from './TestStepsXml';
+
+export const TEST_PLAN_EXPORT_FORMATS = ['csv', 'markdown', 'json', 'html'] as const;
+export type TestPlanExportFormat = typeof TEST_PLAN_EXPORT_FORMATS[number];
+
+export const TEST_PLAN_SNAPSHOT_FORMAT = 'ado-test-plan-snapshot';
+/** Bumped when the snapshot shape changes; older versions stay importable */
+export const TEST_PLAN_SNAPSHOT_VERSION = 1;
+
+export interface ExportedTestStep {
+    action: string;
+    expectedResult: string;
+    /** Set on steps copied in from a Shared Steps work item */
+    sharedStepsId?: number;
+}
+
+export interface ExportedTestCase {
+    id: number;
+    title: string;
+    state?: string;
+    priority?: number;
+    tags: string[];
+    areaPath?: string;
+    iterationPath?: string;
+    /** Plain text */
+    description?: string;
+    steps: ExportedTestStep[];
+    parameters?: TestCaseParameterSet;
+}
+
+export interface ExportedTestPoint {
+    configurationId: number;
+    configurationName?: string;
+    tester?: string;
+    /** Outcome of the latest result, 'None' if never run */
+    outcome: string;
+    lastRunId?: number;
+    lastUpdatedDate?: Date;
+}
+
+export interface ExportedSuite {
+    id: number;
+    name: string;
+    suiteType: PlanTemplateSuite['suiteType'];
+    requirementId?: number;
+    queryString?: string;
+    testCases: Array<{ testCaseId: number; points: ExportedTestPoint[] }>;
+    children: ExportedSuite[];
+}
+
+/**
+ * A plan (or one suite subtree) with its test case content, self-contained so it can be imported into another project
+ */
+export interface TestPlanSnapshot {
+    format: typeof TEST_PLAN_SNAPSHOT_FORMAT;
+    version: number;
+    exportedAt: string;
+    source: { project?: string; planId: number; suiteId?: number };
+    plan: { name: string; areaPath?: string; iteration?: string; description?: string; startDate?: Date; endDate?: Date };
+    /** Each test case once, however many suites it is in */
+    testCases: ExportedTestCase[];
+    rootSuite: ExportedSuite;
+}
+
+export interface TestPlanExport {
+    fileName: string;
+    contentType: string;
+    content: string;
+}
+
+export interface SnapshotImportOptions {
+    /** Defaults to the name in the snapshot */
+    name?: string;
+    iteration: string;
+    /** Area path of the plan and its test cases; the project's default area when omitted */
+    areaPath?: string;
+}
+
+export interface SnapshotImportResult extends PlanCopyResult {
+    /** Snapshot test case ID to the ID of the test case created for it */
+    createdTestCases: Record<string, number>;
+}
+
+// Outcomes counted as executed in the report summary
+const EXECUTED_OUTCOMES = ['Passed', 'Failed', 'Blocked', 'NotApplicable', 'Timeout', 'Aborted', 'Error', 'Inconclusive', 'Warning'];
+
+/**
+ * Exports a plan or suite as CSV (ADO import layout), Markdown, a versioned JSON snapshot or a self-contained HTML report,
+ * and imports snapshots as new plans
+ */
+export class TestPlanExporter {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Export a plan, or the subtree of one of its suites, in the given format
+     */
+    async export(planId: number, format: TestPlanExportFormat, suiteId?: number): Promise<TestPlanExport> {
+        const snapshot = await this.snapshot(planId, suiteId);
+        const baseName = `test-plan-${planId}${suiteId !== undefined ? `-suite-${suiteId}` : ''}`;
+
+        switch (format) {
+            case 'csv':
+                return { fileName: `${baseName}.csv`, contentType: 'text/csv; charset=utf-8', content: TestPlanExporter.toCsv(snapshot) };
+            case 'markdown':
+                return { fileName: `${baseName}.md`, contentType: 'text/markdown; charset=utf-8', content: TestPlanExporter.toMarkdown(snapshot) };
+            case 'html':
+                return { fileName: `${baseName}.html`, contentType: 'text/html; charset=utf-8', content: TestPlanExporter.toHtml(snapshot) };
+            default:
+                return { fileName: `${baseName}.json`, contentType: 'application/json; charset=utf-8', content: JSON.stringify(snapshot, null, 2) };
+        }
+    }
+
+    /**
+     * Read the suites, test cases (with shared steps inlined) and latest point outcomes of a plan or suite subtree
+     */
+    async snapshot(planId: number, suiteId?: number): Promise<TestPlanSnapshot> {
+        const plan = await this.client.getTestPlan(planId);
+        if (!plan) {
+            const error: any = new Error(`Test plan ${planId} not found`);
+            error.statusCode = 404;
+            throw error;
+        }
+
+        const roots = await this.client.getTestSuiteHierarchy(planId, false);
+        const targetId = suiteId ?? plan.rootSuite?.id;
+        const root = TestPlanExporter.findSuite(roots, targetId) || (suiteId === undefined ? roots[0] : undefined);
+        if (!root) {
+            const error: any = new Error(`Suite ${suiteId} not found in test plan ${planId}`);
+            error.statusCode = 404;
+            throw error;
+        }
+
+        const readSuite = async (node: TestSuiteNode): Promise<ExportedSuite> => {
+            const testCases = await this.client.getTestCaseList(planId, node.id);
+            const ids: number[] = testCases
+                .map((testCase: any) => testCase.workItem?.id)
+                .filter((id: number | undefined): id is number => id !== undefined);
+            const points = ids.length > 0 ? await this.client.getTestPointSummaries(planId, node.id) : [];
+
+            const children: ExportedSuite[] = [];
+            for (const child of node.children) {
+                children.push(await readSuite(child));
+            }
+
+            return {
+                id: node.id,
+                name: node.name,
+                suiteType: node.suiteType === 'None' ? 'StaticTestSuite' : node.suiteType,
+                requirementId: node.requirementId,
+                queryString: node.queryString,
+                testCases: ids.map(id => ({
+                    testCaseId: id,
+                    points: points.filter(point => point.testCaseId === id).map(TestPlanExporter.exportPoint)
+                })),
+                children
+            };
+        };
+        const rootSuite = await readSuite(root);
+
+        const ids = Array.from(new Set(TestPlanExporter.suites(rootSuite).flatMap(suite => suite.testCases.map(testCase => testCase.testCaseId))));
+        const testCases = await this.exportTestCases(ids);
+
+        return {
+            format: TEST_PLAN_SNAPSHOT_FORMAT,
+            version: TEST_PLAN_SNAPSHOT_VERSION,
+            exportedAt: new Date().toISOString(),
+            source: { project: plan.project?.name, planId, suiteId },
+            plan: {
+                name: plan.name,
+                areaPath: plan.areaPath,
+                iteration: plan.iteration,
+                description: plan.description,
+                startDate: plan.startDate,
+                endDate: plan.endDate
+            },
+            testCases,
+            rootSuite
+        };
+    }
+
+    /**
+     * Read test cases as they appear in a snapshot; IDs that do not exist are left out
+     */
+    async exportTestCases(ids: number[]): Promise<ExportedTestCase[]> {
+        const details = ids.length > 0 ? await this.client.getMultipleTestCaseDetails(ids) : [];
+        const sharedSteps = new Map<number, SharedStepsDetails | undefined>();
+        const testCases: ExportedTestCase[] = [];
+        for (const detail of details) {
+            testCases.push(await this.exportTestCase(detail, sharedSteps));
+        }
+        return testCases;
+    }
+
+    /**
+     * Create a plan from a snapshot: every test case is created anew in this project, then the suites are rebuilt around them.
+     * Configurations, requirements and queries belong to the source project, so every suite is imported as a static suite
+     * holding the test cases it had at export.
+     */
+    async importSnapshot(snapshot: TestPlanSnapshot, options: SnapshotImportOptions, onProgress: PlanCopyProgressCallback = () => {}): Promise<SnapshotImportResult> {
+        // Check everything up front; a snapshot that fails halfway would leave test cases outside any suite
+        const snapshotError = TestPlanExporter.validateSnapshot(snapshot);
+        if (snapshotError) {
+            const error: any = new Error(snapshotError);
+            error.statusCode = 400;
+            throw error;
+        }
+
+        const createdTestCases: Record<string, number> = {};
+        const warnings: string[] = [];
+
+        for (let i = 0; i < snapshot.testCases.length; i++) {
+            const testCase = snapshot.testCases[i];
+            onProgress({ stage: 'copying-test-cases', completed: i, total: snapshot.testCases.length, message: `Creating test case "${testCase.title}"` });
+            try {
+                const workItem = await this.client.createWorkItem('Test Case', TestCaseImporter.toWorkItemFields({
+                    line: 0,
+                    title: testCase.title,
+                    description: testCase.description,
+                    steps: testCase.steps,
+                    priority: testCase.priority,
+                    tags: testCase.tags,
+                    areaPath: options.areaPath,
+                    iterationPath: options.iteration,
+                    parameters: testCase.parameters,
+                    errors: [],
+                    warnings: []
+                }));
+                createdTestCases[testCase.id] = workItem.id;
+            } catch (error) {
+                warnings.push(`Test case ${testCase.id} was not created: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        const toTemplateSuite = (suite: ExportedSuite): PlanTemplateSuite => {
+            if (suite.suiteType === 'RequirementTestSuite') {
+                warnings.push(`Suite "${suite.name}" was requirement-based (work item ${suite.requirementId}); it is imported as a static suite`);
+            } else if (suite.suiteType === 'DynamicTestSuite') {
+                warnings.push(`Suite "${suite.name}" was query-based; it is imported as a static suite`);
+            }
+            return {
+                name: suite.name,
+                suiteType: 'StaticTestSuite',
+                testCases: suite.testCases
+                    .filter(testCase => createdTestCases[testCase.testCaseId] !== undefined)
+                    .map(testCase => ({ id: createdTestCases[testCase.testCaseId], configurationIds: [] })),
+                children: suite.children.map(toTemplateSuite)
+            };
+        };
+
+        const now = new Date().toISOString();
+        const template: PlanTemplate = {
+            name: snapshot.plan.name,
+            description: snapshot.plan.description,
+            areaPath: options.areaPath,
+            rootSuite: toTemplateSuite(snapshot.rootSuite),
+            createdAt: now,
+            updatedAt: now
+        };
+
+        const result = await new TestPlanCloner(this.client).createPlanFromTemplate(template, {
+            name: options.name || snapshot.plan.name,
+            iteration: options.iteration,
+            areaPath: options.areaPath,
+            copyMode: 'reference'
+        }, onProgress);
+
+        return { ...result, templateName: undefined, sourcePlanId: snapshot.source.planId, createdTestCases, warnings: [...warnings, ...result.warnings] };
+    }
+
+    /**
+     * Return an error message when the value is not a snapshot this version can import, or null
+     */
+    static validateSnapshot(snapshot: any): string | null {
+        if (!snapshot || typeof snapshot !== 'object' || snapshot.format !== TEST_PLAN_SNAPSHOT_FORMAT) {
+            return `snapshot must be a JSON export (format "${TEST_PLAN_SNAPSHOT_FORMAT}")`;
+        }
+        if (!Number.isInteger(snapshot.version) || snapshot.version < 1 || snapshot.version > TEST_PLAN_SNAPSHOT_VERSION) {
+            return `snapshot version ${snapshot.version} is not supported (latest is ${TEST_PLAN_SNAPSHOT_VERSION})`;
+        }
+        if (!Array.isArray(snapshot.testCases) || !snapshot.rootSuite || typeof snapshot.rootSuite !== 'object' || typeof snapshot.plan?.name !== 'string') {
+            return 'snapshot must have plan, testCases and rootSuite';
+        }
+        for (const testCase of snapshot.testCases) {
+            const error = TestPlanExporter.validateSnapshotTestCase(testCase);
+            if (error) {
+                return error;
+            }
+        }
+        return TestPlanExporter.validateSnapshotSuite(snapshot.rootSuite, 'rootSuite');
+    }
+
+    /**
+     * Return an error message when a snapshot test case could not be created as it is, or null
+     */
+    private static validateSnapshotTestCase(testCase: any): string | null {
+        if (!testCase || typeof testCase !== 'object' || !Number.isInteger(testCase.id) || typeof testCase.title !== 'string'
+            || !Array.isArray(testCase.steps) || !Array.isArray(testCase.tags)) {
+            return 'each test case needs an integer id, a title, steps and tags';
+        }
+        const label = `test case ${testCase.id}`;
+        if (testCase.tags.some((tag: any) => typeof tag !== 'string')) {
+            return `${label}: tags must be strings`;
+        }
+        if (testCase.steps.some((step: any) => !step || typeof step.action !== 'string' || typeof step.expectedResult !== 'string')) {
+            return `${label}: each step needs a string action and expectedResult`;
+        }
+        if (testCase.description !== undefined && typeof testCase.description !== 'string') {
+            return `${label}: description must be a string`;
+        }
+        if (testCase.priority !== undefined && !Number.isInteger(testCase.priority)) {
+            return `${label}: priority must be an integer`;
+        }
+        if (testCase.parameters !== undefined) {
+            const { names, rows } = testCase.parameters || {};
+            if (!Array.isArray(names) || names.some((name: any) => typeof name !== 'string') || !Array.isArray(rows)
+                || rows.some((row: any) => !row || typeof row !== 'object' || Object.values(row).some(value => typeof value !== 'string'))) {
+                return `${label}: parameters need a names array and rows of string values`;
+            }
+            const invalid = TestCaseParameters.validate(names, rows);
+            if (invalid) {
+                return `${label}: ${invalid}`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Return an error message when a snapshot suite or one of its children is malformed, or null
+     */
+    private static validateSnapshotSuite(suite: any, path: string): string | null {
+        if (!suite || typeof suite !== 'object' || typeof suite.name !== 'string' || !Array.isArray(suite.testCases) || !Array.isArray(suite.children)) {
+            return `${path} needs a name and testCases and children arrays`;
+        }
+        if (suite.testCases.some((testCase: any) => !Number.isInteger(testCase?.testCaseId))) {
+            return `${path}: each test case entry needs an integer testCaseId`;
+        }
+        for (let i = 0; i < suite.children.length; i++) {
+            const error = TestPlanExporter.validateSnapshotSuite(suite.children[i], `${path}.children[${i}]`);
+            if (error) {
+                return error;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * CSV in the layout ADO imports: a row per test case followed by a row per step
+     */
+    static toCsv(snapshot: TestPlanSnapshot): string {
+        const rows: unknown[][] = [];
+        for (const testCase of snapshot.testCases) {
+            rows.push([testCase.id, 'Test Case', testCase.title, '', '', '', testCase.areaPath, testCase.iterationPath, testCase.priority, testCase.tags.join('; '), testCase.state]);
+            testCase.steps.forEach((step, index) => {
+                rows.push(['', '', '', index + 1, step.action, step.expectedResult, '', '', '', '', '']);
+            });
+        }
+
+        return toCsv(['ID', 'Work Item Type', 'Title', 'Test Step', 'Step Action', 'Step Expected', 'Area Path', 'Iteration Path', 'Priority', 'Tags', 'State'], rows);
+    }
+
+    /**
+     * Markdown with a heading per suite and per test case, in the checklist layout the Markdown import reads
+     */
+    static toMarkdown(snapshot: TestPlanSnapshot): string {
+        const testCases = new Map(snapshot.testCases.map(testCase => [testCase.id, testCase]));
+        const lines: string[] = [
+            `<!-- Exported from test plan ${snapshot.source.planId} on ${snapshot.exportedAt} -->`,
+            ''
+        ];
+        const inline = (text: string) => text.replace(/\r?\n/g, '<br>');
+
+        const writeSuite = (suite: ExportedSuite, depth: number) => {
+            lines.push(`${'#'.repeat(Math.min(depth, 6))} ${suite.name}`, '');
+
+            for (const entry of suite.testCases) {
+                const testCase = testCases.get(entry.testCaseId);
+                if (!testCase) {
+                    continue;
+                }
+
+                lines.push(`${'#'.repeat(Math.min(depth + 1, 6))} ${testCase.title}`);
+                lines.push(`ID: ${testCase.id}`);
+                if (testCase.priority !== undefined) {
+                    lines.push(`Priority: ${testCase.priority}`);
+                }
+                if (testCase.tags.length > 0) {
+                    lines.push(`Tags: ${testCase.tags.join(', ')}`);
+                }
+                if (testCase.parameters && testCase.parameters.names.length > 0) {
+                    const cell = (value: string) => inline(value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|'));
+                    lines.push('Parameters:', `| ${testCase.parameters.names.map(cell).join(' | ')} |`, `|${testCase.parameters.names.map(() => ' --- |').join('')}`);
+                    testCase.parameters.rows.forEach(row => lines.push(`| ${testCase.parameters!.names.map(name => cell(row[name] ?? '')).join(' | ')} |`));
+                }
+                if (testCase.description) {
+                    lines.push('', testCase.description);
+                }
+                lines.push('');
+                for (const step of testCase.steps) {
+                    lines.push(`- [ ] ${inline(step.action)}${step.expectedResult ? ` -> ${inline(step.expectedResult)}` : ''}`);
+                }
+                lines.push('');
+            }
+
+            suite.children.forEach(child => writeSuite(child, depth + 1));
+        };
+        writeSuite(snapshot.rootSuite, 1);
+
+        return lines.join('\n').replace(/\n{3,}/g, '\n\n');
+    }
+
+    /**
+     * A single HTML file with inline styles: outcome summary, then each suite's test cases with their latest outcome per configuration
+     */
+    static toHtml(snapshot: TestPlanSnapshot): string {
+        const escape = TestPlanExporter.escapeHtml;
+        const testCases = new Map(snapshot.testCases.map(testCase => [testCase.id, testCase]));
+        const points = TestPlanExporter.suites(snapshot.rootSuite).flatMap(suite => suite.testCases.flatMap(testCase => testCase.points));
+
+        const counts = new Map<string, number>();
+        points.forEach(point => counts.set(point.outcome, (counts.get(point.outcome) || 0) + 1));
+        const executed = points.filter(point => EXECUTED_OUTCOMES.includes(point.outcome)).length;
+        const passRate = executed > 0 ? Math.round(((counts.get('Passed') || 0) / executed) * 1000) / 10 : 0;
+        const badge = (outcome: string, label = outcome) =>
+            `<span class="outcome outcome-${escape(outcome.toLowerCase())}">${escape(label)}</span>`;
+
+        const renderSuite = (suite: ExportedSuite, depth: number): string => {
+            const heading = `h${Math.min(depth + 1, 6)}`;
+            const rows = suite.testCases.map(entry => {
+                const testCase = testCases.get(entry.testCaseId);
+                const outcomes = entry.points.length > 0
+                    ? entry.points.map(point => badge(point.outcome, `${point.configurationName || `Configuration ${point.configurationId}`}: ${point.outcome}`)).join(' ')
+                    : badge('None', 'No test points');
+                const steps = testCase && testCase.steps.length > 0
+                    ? `<details><summary>${testCase.steps.length} step(s)</summary><ol>${testCase.steps
+                        .map(step => `<li>${TestPlanExporter.htmlText(step.action)}${step.expectedResult ? `<div class="expected">Expected: ${TestPlanExporter.htmlText(step.expectedResult)}</div>` : ''}</li>`)
+                        .join('')}</ol></details>`
+                    : '';
+                return `<tr><td>${entry.testCaseId}</td><td>${escape(testCase?.title || `Test Case ${entry.testCaseId}`)}${steps}</td>` +
+                    `<td>${testCase?.priority ?? ''}</td><td>${outcomes}</td></tr>`;
+            }).join('\n');
+
+            const table = suite.testCases.length > 0
+                ? `<table><thead><tr><th>ID</th><th>Test case</th><th>Priority</th><th>Latest outcome</th></tr></thead><tbody>\n${rows}\n</tbody></table>`
+                : '<p class="empty">No test cases</p>';
+            return `<section><${heading}>${escape(suite.name)}</${heading}>\n${table}\n${suite.children.map(child => renderSuite(child, depth + 1)).join('\n')}</section>`;
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escape(snapshot.plan.name)} - Test Report</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+section section { margin-left: 1rem; }
+.summary span { margin-right: 0.5rem; }
+.outcome { display: inline-block; padding: 0.1rem 0.5rem; border-radius: 1rem; font-size: 0.85em; background: #eaeef2; margin: 0.1rem 0; }
+.outcome-passed { background: #dafbe1; color: #116329; }
+.outcome-failed, .outcome-error, .outcome-timeout, .outcome-aborted { background: #ffebe9; color: #a40e26; }
+.outcome-blocked { background: #fff8c5; color: #7d4e00; }
+.expected { color: #57606a; }
+.empty, .meta { color: #57606a; }
+</style>
+</head>
+<body>
+<h1>${escape(snapshot.plan.name)}</h1>
+<p class="meta">Test plan ${snapshot.source.planId}${snapshot.plan.iteration ? ` &middot; ${escape(snapshot.plan.iteration)}` : ''} &middot; exported ${escape(snapshot.exportedAt)}</p>
+<div class="summary">
+<p>${snapshot.testCases.length} test case(s), ${points.length} test point(s), ${executed} executed, pass rate ${passRate}%</p>
+<p>${Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([outcome, count]) => badge(outcome, `${outcome}: ${count}`)).join(' ')}</p>
+</div>
+${renderSuite(snapshot.rootSuite, 1)}
+</body>
+</html>
+`;
+    }
+
+    /**
+     * A test case with shared steps replaced by their steps, so the export reads (and imports) on its own
+     */
+    private async exportTestCase(detail: any, sharedSteps: Map<number, SharedStepsDetails | undefined>): Promise<ExportedTestCase> {
+        const steps: ExportedTestStep[] = [];
+        for (const step of (detail.parsedSteps || []) as TestStep[]) {
+            if (step.type !== 'SharedStepsReference') {
+                steps.push({ action: step.action, expectedResult: step.expectedResult });
+                continue;
+            }
+            if (step.sharedStepsId === undefined) {
+                continue;
+            }
+            if (!sharedSteps.has(step.sharedStepsId)) {
+                sharedSteps.set(step.sharedStepsId, await this.client.getSharedSteps(step.sharedStepsId).catch(() => undefined));
+            }
+            const shared = sharedSteps.get(step.sharedStepsId);
+            if (!shared) {
+                steps.push({ action: `Shared steps ${step.sharedStepsId}`, expectedResult: '', sharedStepsId: step.sharedStepsId });
+                continue;
+            }
+            shared.steps
+                .filter(sharedStep => sharedStep.type !== 'SharedStepsReference')
+                .forEach(sharedStep => steps.push({ action: sharedStep.action, expectedResult: sharedStep.expectedResult, sharedStepsId: shared.id }));
+        }
+
+        const parameters = TestCaseParameters.parse(detail.testCaseFields?.parameters, detail.testCaseFields?.localDataSource);
+
+        return {
+            id: detail.id,
+            title: detail.fields.title || `Test Case ${detail.id}`,
+            state: detail.fields.state,
+            priority: detail.fields.priority,
+            tags: detail.fields.tags ? String(detail.fields.tags).split(';').map(tag => tag.trim()).filter(tag => tag !== '') : [],
+            areaPath: detail.fields.areaPath,
+            iterationPath: detail.fields.iterationPath,
+            description: detail.fields.description ? TestStepsXml.htmlToText(detail.fields.description) || undefined : undefined,
+            steps,
+            parameters: parameters.names.length > 0 ? parameters : undefined
+        };
+    }
+
+    private static exportPoint(point: TestPointSummary): ExportedTestPoint {
+        return {
+            configurationId: point.configurationId,
+            configurationName: point.configurationName,
+            tester: point.tester?.displayName,
+            outcome: point.outcome,
+            lastRunId: point.lastRunId,
+            lastUpdatedDate: point.lastUpdatedDate
+        };
+    }
+
+    private static findSuite(nodes: TestSuiteNode[], suiteId?: number): TestSuiteNode | undefined {
+        for (const node of nodes) {
+            if (node.id === suiteId) {
+                return node;
+            }
+            const found = TestPlanExporter.findSuite(node.children, suiteId);
+            if (found) {
+                return found;
+            }
+        }
+        return undefined;
+    }
+
+    private static suites(suite: ExportedSuite): ExportedSuite[] {
+        return [suite, ...suite.children.flatMap(child => TestPlanExporter.suites(child))];
+    }
+
+    private static htmlText(text: string): string {
+        return TestPlanExporter.escapeHtml(text).replace(/\r?\n/g, '<br>');
+    }
+
+    private static escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,245 @@
+import { AzureDevOpsTestPlansClient, TestOutcome, TestResultUpdate } from './AzureDevOpsTestPlansClient';
+import { ParsedTestResult, TestResultFormat, TestResultParser } from './TestResultParser';
+
+export type TestResultMatchType = 'annotation' | 'automatedTestName' | 'title' | 'created';
+
+export interface ImportTestResultsOptions {
+    format?: TestResultFormat;
+    runName?: string;
+    buildId?: number;
+    /** Create (and add to the suite) a test case for every unmatched result */
+    autoCreate?: boolean;
+    /** Minimum title similarity (0-1) for a fuzzy match, default 0.6 */
+    matchThreshold?: number;
+    /** Leave the run in progress instead of completing it */
+    keepRunOpen?: boolean;
+}
+
+export interface ImportedResultItem {
+    name: string;
+    fullName: string;
+    outcome: TestOutcome;
+    testCaseId?: number;
+    matchedBy?: TestResultMatchType;
+    similarity?: number;
+    error?: string;
+}
+
+export interface ImportTestResultsReport {
+    planId: number;
+    suiteId: number;
+    format: TestResultFormat;
+    runId?: number;
+    runUrl?: string;
+    totalResults: number;
+    matchedCount: number;
+    createdCount: number;
+    unmatchedCount: number;
+    outcomes: Partial<Record<TestOutcome, number>>;
+    items: ImportedResultItem[];
+    unmatched: ImportedResultItem[];
+}
+
+export interface CandidateTestCase {
+    id: number;
+    title: string;
+    automatedTestName?: string;
+    tokens: Set<string>;
+}
+
+// Worst outcome wins when several results (retries, browser projects) map to one test case
+const OUTCOME_SEVERITY: TestOutcome[] = ['Error', 'Failed', 'Timeout', 'Aborted', 'Blocked', 'Inconclusive', 'Warning', 'InProgress', 'Paused', 'Passed', 'NotApplicable', 'NotExecuted', 'None'];
+
+/**
+ * Publishes JUnit, TRX and Playwright reports as Azure DevOps test runs against the test cases of a suite
+ */
+export class TestResultImporter {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Parse a report, match every result to a test case of the suite and publish a completed run with the outcomes
+     */
+    async import(planId: number, suiteId: number, content: string | object, options: ImportTestResultsOptions = {}): Promise<ImportTestResultsReport> {
+        const format = options.format || TestResultParser.detectFormat(content);
+        const parsed = TestResultParser.parse(content, format);
+        const threshold = options.matchThreshold ?? 0.6;
+
+        const points = await this.client.getTestPoints(planId, suiteId);
+        const testCaseIds = Array.from(new Set(points.map(point => parseInt(String(point.testCaseReference.id)))));
+        const details = testCaseIds.length > 0 ? await this.client.getMultipleTestCaseDetails(testCaseIds) : [];
+        const candidates: CandidateTestCase[] = details.map(detail => ({
+            id: detail.id,
+            title: detail.fields.title || '',
+            automatedTestName: detail.testCaseFields.automatedTestName,
+            tokens: new Set(TestResultImporter.tokenize(detail.fields.title || ''))
+        }));
+
+        const items = parsed.map(result => TestResultImporter.match(result, candidates, threshold));
+
+        if (options.autoCreate) {
+            await this.createMissingTestCases(planId, suiteId, parsed, items);
+        }
+
+        const report: ImportTestResultsReport = {
+            planId,
+            suiteId,
+            format,
+            totalResults: parsed.length,
+            matchedCount: items.filter(item => item.testCaseId !== undefined && item.matchedBy !== 'created').length,
+            createdCount: items.filter(item => item.matchedBy === 'created').length,
+            unmatchedCount: 0,
+            outcomes: {},
+            items,
+            unmatched: items.filter(item => item.testCaseId === undefined)
+        };
+        report.unmatchedCount = report.unmatched.length;
+        items.forEach(item => report.outcomes[item.outcome] = (report.outcomes[item.outcome] || 0) + 1);
+
+        const byTestCase = new Map<number, ParsedTestResult[]>();
+        items.forEach((item, index) => {
+            if (item.testCaseId !== undefined) {
+                byTestCase.set(item.testCaseId, [...(byTestCase.get(item.testCaseId) || []), parsed[index]]);
+            }
+        });
+
+        if (byTestCase.size === 0) {
+            console.warn('No imported results matched a test case; no test run was published');
+            return report;
+        }
+
+        // Test cases created above have new points, so re-read them before creating the run
+        const runPoints = report.createdCount > 0 ? await this.client.getTestPoints(planId, suiteId) : points;
+        const pointIds = runPoints
+            .filter(point => byTestCase.has(parseInt(String(point.testCaseReference.id))))
+            .map(point => point.id);
+
+        const run = await this.client.createTestRun(planId, options.runName || `Imported ${format} results ${new Date().toISOString()}`, {
+            pointIds,
+            buildId: options.buildId,
+            automated: true,
+            comment: `Imported from a ${format} report: ${report.matchedCount + report.createdCount} of ${parsed.length} result(s) matched`
+        });
+        report.runId = run.id;
+        report.runUrl = run.webAccessUrl;
+
+        const runResults = await this.client.getTestRunResults(run.id);
+        const updates: TestResultUpdate[] = runResults
+            .filter(result => result.id !== undefined && result.testCase?.id !== undefined)
+            .flatMap(result => {
+                const matched = byTestCase.get(parseInt(String(result.testCase!.id)));
+                return matched ? [TestResultImporter.toResultUpdate(result.id!, matched)] : [];
+            });
+
+        if (updates.length > 0) {
+            await this.client.updateTestResults(run.id, updates);
+        }
+        if (!options.keepRunOpen) {
+            await this.client.completeTestRun(run.id);
+        }
+
+        return report;
+    }
+
+    /**
+     * Match a result by test case ID annotation, then by AutomatedTestName, then by fuzzy title similarity
+     */
+    static match(result: ParsedTestResult, candidates: CandidateTestCase[], threshold: number): ImportedResultItem {
+        const item: ImportedResultItem = { name: result.name, fullName: result.fullName, outcome: result.outcome };
+
+        if (result.testCaseId !== undefined && candidates.some(candidate => candidate.id === result.testCaseId)) {
+            return { ...item, testCaseId: result.testCaseId, matchedBy: 'annotation' };
+        }
+
+        const names = [result.fullName, result.name].map(name => name.toLowerCase());
+        const byName = candidates.find(candidate => candidate.automatedTestName && names.includes(candidate.automatedTestName.toLowerCase()));
+        if (byName) {
+            return { ...item, testCaseId: byName.id, matchedBy: 'automatedTestName' };
+        }
+
+        const resultTokens = new Set(TestResultImporter.tokenize(result.name));
+        let best: { candidate: CandidateTestCase; similarity: number } | undefined;
+        for (const candidate of candidates) {
+            const similarity = TestResultImporter.similarity(resultTokens, candidate.tokens);
+            if (!best || similarity > best.similarity) {
+                best = { candidate, similarity };
+            }
+        }
+
+        if (best && best.similarity >= threshold) {
+            return { ...item, testCaseId: best.candidate.id, matchedBy: 'title', similarity: Math.round(best.similarity * 100) / 100 };
+        }
+
+        return item;
+    }
+
+    /**
+     * Combine the results mapped to one test case into a single outcome update
+     */
+    static toResultUpdate(resultId: number, results: ParsedTestResult[]): TestResultUpdate {
+        const outcome = results
+            .map(result => result.outcome)
+            .sort((a, b) => OUTCOME_SEVERITY.indexOf(a) - OUTCOME_SEVERITY.indexOf(b))[0];
+        const failures = results.filter(result => result.errorMessage);
+
+        return {
+            resultId,
+            outcome,
+            durationInMs: results.reduce((total, result) => total + result.durationInMs, 0),
+            errorMessage: failures.length > 0
+                ? failures.map(result => result.project ? `[${result.project}] ${result.errorMessage}` : result.errorMessage).join('\n')
+                : undefined,
+            comment: results.length > 1 ? `Aggregated from ${results.length} automated results` : undefined
+        };
+    }
+
+    /**
+     * Create a test case (added to the suite) for each unmatched result, one per distinct title
+     */
+    private async createMissingTestCases(planId: number, suiteId: number, parsed: ParsedTestResult[], items: ImportedResultItem[]): Promise<void> {
+        const createdByTitle = new Map<string, number>();
+
+        for (let i = 0; i < items.length; i++) {
+            const item = items[i];
+            if (item.testCaseId !== undefined) {
+                continue;
+            }
+
+            const title = parsed[i].name;
+            try {
+                let testCaseId = createdByTitle.get(title);
+                if (testCaseId === undefined) {
+                    const workItem = await this.client.createTestCase(title, undefined, undefined, undefined, undefined, ['automated-import']);
+                    testCaseId = workItem.id as number;
+                    await this.client.addTestCasesToSuite(planId, suiteId, testCaseId.toString());
+                    createdByTitle.set(title, testCaseId);
+                }
+                item.testCaseId = testCaseId;
+                item.matchedBy = 'created';
+            } catch (error) {
+                item.error = error instanceof Error ? error.message : 'Unknown error';
+            }
+        }
+    }
+
+    private static tokenize(text: string): string[] {
+        return text
+            .replace(/([a-z])([A-Z])/g, '$1 $2')
+            .toLowerCase()
+            .replace(/\b(?:tc|ado)[-:#]?\d+\b/g, ' ')
+            .replace(/[^a-z0-9]+/g, ' ')
+            .split(' ')
+            .filter(word => word.length >= 2 && !['should', 'test', 'the', 'and', 'can', 'when'].includes(word))
+            .map(word => word.length > 4 ? word.replace(/(ing|ed|s)$/, '') : word);
+    }
+
+    /**
+     * Dice coefficient of two token sets
+     */
+    private static similarity(a: Set<string>, b: Set<string>): number {
+        if (a.size === 0 || b.size === 0) {
+            return 0;
+        }
+        const shared = Array.from(a).filter(token => b.has(token)).length;
+        return (2 * shared) / (a.size + b.size);
+    }
+}
@@ -0,0 +1,323 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { TestOutcome } from './AzureDevOpsTestPlansClient';
+
+export type TestResultFormat = 'junit' | 'trx' | 'playwright';
+
+export const TEST_RESULT_FORMATS: TestResultFormat[] = ['junit', 'trx', 'playwright'];
+
+export interface ParsedTestResult {
+    /** Test title as shown by the framework */
+    name: string;
+    /** Fully qualified name (class/file path plus title), compared against AutomatedTestName */
+    fullName: string;
+    /** Class, assembly or spec file the test belongs to */
+    storage?: string;
+    outcome: TestOutcome;
+    durationInMs: number;
+    errorMessage?: string;
+    stackTrace?: string;
+    /** ADO test case ID from an annotation such as [TC-123] or a Playwright annotation */
+    testCaseId?: number;
+    /** Playwright project (browser) the result was produced by */
+    project?: string;
+}
+
+// Matches "[TC-123]", "@TC123", "TC:123", "[ADO-123]" and "ADO#123" in test titles
+const TEST_CASE_ID_PATTERN = /(?:^|[\s[(@])(?:TC|ADO)[-:#]?(\d+)\b/i;
+
+const PLAYWRIGHT_ANNOTATION_TYPES = new Set(['testcase', 'test-case', 'tc', 'ado', 'ado-id', 'testcaseid']);
+
+const PLAYWRIGHT_OUTCOMES: Record<string, TestOutcome> = {
+    passed: 'Passed',
+    failed: 'Failed',
+    timedOut: 'Timeout',
+    skipped: 'NotExecuted',
+    interrupted: 'Aborted'
+};
+
+const TRX_OUTCOMES: Record<string, TestOutcome> = {
+    passed: 'Passed',
+    failed: 'Failed',
+    error: 'Error',
+    timeout: 'Timeout',
+    aborted: 'Aborted',
+    inconclusive: 'Inconclusive',
+    warning: 'Warning',
+    notexecuted: 'NotExecuted',
+    notrunnable: 'NotExecuted',
+    pending: 'NotExecuted',
+    passedbutrunaborted: 'Passed',
+    disconnected: 'Aborted',
+    completed: 'Passed',
+    inprogress: 'InProgress'
+};
+
+/**
+ * A report that cannot be parsed; a client error, so it carries statusCode 400 for the error handler
+ */
+export class TestReportFormatError extends Error {
+    readonly statusCode: number = 400;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'TestReportFormatError';
+    }
+}
+
+/**
+ * Parses JUnit XML, TRX and Playwright JSON reports into a common result shape
+ */
+export class TestResultParser {
+    /**
+     * Parse a report, detecting the format from its content when not given
+     */
+    static parse(content: string | object, format?: TestResultFormat): ParsedTestResult[] {
+        const resolvedFormat = format || TestResultParser.detectFormat(content);
+
+        switch (resolvedFormat) {
+            case 'junit':
+                return TestResultParser.parseJUnit(TestResultParser.asText(content));
+            case 'trx':
+                return TestResultParser.parseTrx(TestResultParser.asText(content));
+            case 'playwright':
+                return TestResultParser.parsePlaywright(typeof content === 'string' ? TestResultParser.parseJson(content) : content);
+            default:
+                throw new TestReportFormatError(`Unsupported test result format "${resolvedFormat}". Use ${TEST_RESULT_FORMATS.join(', ')}.`);
+        }
+    }
+
+    /**
+     * Detect the report format: JSON is Playwright, XML with a <TestRun> root is TRX, other XML is JUnit
+     */
+    static detectFormat(content: string | object): TestResultFormat {
+        if (typeof content !== 'string') {
+            return 'playwright';
+        }
+
+        const trimmed = content.trimStart();
+        if (trimmed.startsWith('{')) {
+            return 'playwright';
+        }
+        if (/<TestRun[\s>]/.test(trimmed)) {
+            return 'trx';
+        }
+        if (/<testsuites?[\s>]/.test(trimmed)) {
+            return 'junit';
+        }
+
+        throw new TestReportFormatError('Unable to detect test result format. Specify format as junit, trx or playwright.');
+    }
+
+    /**
+     * Extract an ADO test case ID annotation from a test title
+     */
+    static extractTestCaseId(title: string): number | undefined {
+        const match = title.match(TEST_CASE_ID_PATTERN);
+        return match ? parseInt(match[1]) : undefined;
+    }
+
+    /**
+     * Parse JUnit XML (<testsuites>/<testsuite>/<testcase>, time in seconds)
+     */
+    static parseJUnit(xml: string): ParsedTestResult[] {
+        const document = TestResultParser.parseXml(xml, ['testsuite', 'testcase', 'failure', 'error', 'skipped']);
+        const results: ParsedTestResult[] = [];
+
+        const visitSuite = (suite: any) => {
+            for (const testCase of suite.testcase || []) {
+                const name = String(testCase['@_name'] ?? '');
+                const className = testCase['@_classname'] ? String(testCase['@_classname']) : undefined;
+                const failure = testCase.failure?.[0] ?? testCase.error?.[0];
+
+                let outcome: TestOutcome = 'Passed';
+                if (testCase.failure) {
+                    outcome = 'Failed';
+                } else if (testCase.error) {
+                    outcome = 'Error';
+                } else if (testCase.skipped) {
+                    outcome = 'NotExecuted';
+                }
+
+                results.push({
+                    name,
+                    fullName: className ? `${className}.${name}` : name,
+                    storage: className || (suite['@_name'] ? String(suite['@_name']) : undefined),
+                    outcome,
+                    durationInMs: Math.round(parseFloat(testCase['@_time'] ?? '0') * 1000) || 0,
+                    errorMessage: failure ? TestResultParser.text(failure['@_message']) || TestResultParser.firstLine(TestResultParser.text(failure)) : undefined,
+                    stackTrace: failure ? TestResultParser.text(failure) : undefined,
+                    testCaseId: TestResultParser.extractTestCaseId(name)
+                });
+            }
+            (suite.testsuite || []).forEach(visitSuite);
+        };
+
+        const root = document.testsuites ?? { testsuite: document.testsuite };
+        (root.testsuite || []).forEach(visitSuite);
+
+        return results;
+    }
+
+    /**
+     * Parse a Visual Studio TRX file (UnitTestResult elements joined to their TestDefinitions)
+     */
+    static parseTrx(xml: string): ParsedTestResult[] {
+        const document = TestResultParser.parseXml(xml, ['UnitTestResult', 'UnitTest', 'Results', 'TestDefinitions']);
+        const run = document.TestRun;
+        if (!run) {
+            throw new TestReportFormatError('Invalid TRX file: missing <TestRun> root element');
+        }
+
+        const definitions = new Map<string, any>();
+        for (const group of run.TestDefinitions || []) {
+            for (const unitTest of group.UnitTest || []) {
+                definitions.set(String(unitTest['@_id']), unitTest);
+            }
+        }
+
+        const results: ParsedTestResult[] = [];
+        for (const group of run.Results || []) {
+            for (const result of group.UnitTestResult || []) {
+                const name = String(result['@_testName'] ?? '');
+                const definition = definitions.get(String(result['@_testId']));
+                const method = definition?.TestMethod;
+                const className = method?.['@_className'] ? String(method['@_className']).split(',')[0].trim() : undefined;
+                const methodName = method?.['@_name'] ? String(method['@_name']) : name;
+                const errorInfo = result.Output?.ErrorInfo;
+
+                results.push({
+                    name,
+                    fullName: className ? `${className}.${methodName}` : name,
+                    storage: definition?.['@_storage'] ? String(definition['@_storage']) : className,
+                    outcome: TRX_OUTCOMES[String(result['@_outcome'] ?? '').toLowerCase()] || 'None',
+                    durationInMs: TestResultParser.parseTimeSpan(result['@_duration']),
+                    errorMessage: errorInfo ? TestResultParser.text(errorInfo.Message) : undefined,
+                    stackTrace: errorInfo ? TestResultParser.text(errorInfo.StackTrace) : undefined,
+                    testCaseId: TestResultParser.extractTestCaseId(name)
+                });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Parse a Playwright JSON report (nested suites of specs; one result per spec and project, using the final retry)
+     */
+    static parsePlaywright(report: any): ParsedTestResult[] {
+        if (!report || !Array.isArray(report.suites)) {
+            throw new TestReportFormatError('Invalid Playwright report: missing "suites" array');
+        }
+
+        const results: ParsedTestResult[] = [];
+
+        const visitSuite = (suite: any, titlePath: string[], file?: string) => {
+            const suiteFile = suite.file || file;
+            // The top-level suite title is the spec file name, which is already kept as storage
+            const path = suite.title && suite.title !== suiteFile ? [...titlePath, suite.title] : titlePath;
+
+            for (const spec of suite.specs || []) {
+                for (const test of spec.tests || []) {
+                    const attempts: any[] = test.results || [];
+                    const last = attempts[attempts.length - 1];
+                    const projectName: string | undefined = test.projectName || undefined;
+                    const titleParts = [...path, spec.title];
+
+                    let outcome: TestOutcome = last ? PLAYWRIGHT_OUTCOMES[last.status] || 'None' : 'NotExecuted';
+                    if (test.status === 'skipped') {
+                        outcome = 'NotExecuted';
+                    }
+
+                    const annotationId = (test.annotations || [])
+                        .filter((annotation: any) => PLAYWRIGHT_ANNOTATION_TYPES.has(String(annotation.type).toLowerCase()))
+                        .map((annotation: any) => parseInt(String(annotation.description).replace(/^\D+/, '')))
+                        .find((id: number) => !isNaN(id));
+
+                    results.push({
+                        name: spec.title,
+                        fullName: [suiteFile, ...titleParts].filter(Boolean).join(' › '),
+                        storage: suiteFile,
+                        outcome,
+                        durationInMs: attempts.reduce((total, attempt) => total + (attempt.duration || 0), 0),
+                        errorMessage: last?.error?.message ? TestResultParser.stripAnsi(last.error.message) : undefined,
+                        stackTrace: last?.error?.stack ? TestResultParser.stripAnsi(last.error.stack) : undefined,
+                        testCaseId: annotationId ?? TestResultParser.extractTestCaseId(titleParts.join(' ')),
+                        project: projectName
+                    });
+                }
+            }
+
+            for (const child of suite.suites || []) {
+                visitSuite(child, path, suiteFile);
+            }
+        };
+
+        report.suites.forEach((suite: any) => visitSuite(suite, []));
+        return results;
+    }
+
+    private static parseXml(xml: string, arrayElements: string[]): any {
+        // XMLParser recovers from some malformed documents; a report that is not well-formed is rejected instead
+        const validation = XMLValidator.validate(xml);
+        if (validation !== true) {
+            throw new TestReportFormatError(`Failed to parse test result XML: ${validation.err.msg} (line ${validation.err.line})`);
+        }
+
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '@_',
+            textNodeName: '#text',
+            parseAttributeValue: false,
+            parseTagValue: false,
+            isArray: (tagName: string) => arrayElements.includes(tagName)
+        });
+
+        try {
+            return parser.parse(xml);
+        } catch (error) {
+            throw new TestReportFormatError(`Failed to parse test result XML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private static parseJson(content: string): any {
+        try {
+            return JSON.parse(content);
+        } catch (error) {
+            throw new TestReportFormatError(`Failed to parse Playwright JSON report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private static asText(content: string | object): string {
+        if (typeof content !== 'string') {
+            throw new TestReportFormatError('XML test result formats must be sent as text');
+        }
+        return content;
+    }
+
+    /**
+     * Convert a TRX duration ("hh:mm:ss.fffffff") to milliseconds
+     */
+    private static parseTimeSpan(value?: string): number {
+        const match = String(value ?? '').match(/^(\d+):(\d+):(\d+(?:\.\d+)?)$/);
+        if (!match) {
+            return 0;
+        }
+        return Math.round(((parseInt(match[1]) * 60 + parseInt(match[2])) * 60 + parseFloat(match[3])) * 1000);
+    }
+
+    private static text(node: any): string | undefined {
+        if (node === undefined || node === null) {
+            return undefined;
+        }
+        const value = typeof node === 'object' ? node['#text'] : node;
+        return value !== undefined ? String(value).trim() : undefined;
+    }
+
+    private static firstLine(text?: string): string | undefined {
+        return text?.split('\n')[0].trim() || undefined;
+    }
+
+    private static stripAnsi(text: string): string {
+        return text.replace(/\u001b\[[0-9;]*m/g, '');
+    }
+}
@@ -0,0 +1,304 @@
+import { ShallowTestCaseResult } from 'azure-devops-node-api/interfaces/TestInterfaces';
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+
+export type OutcomeCategory = 'passed' | 'failed' | 'skipped' | 'other';
+
+export interface DurationStats {
+    totalMs: number;
+    averageMs: number;
+    p50Ms: number;
+    p90Ms: number;
+    p95Ms: number;
+    p99Ms: number;
+    maxMs: number;
+}
+
+export interface TestResultEntry {
+    key: string;
+    name: string;
+    storage?: string;
+    outcome: string;
+    category: OutcomeCategory;
+    durationInMs: number;
+    runId?: number;
+    resultId?: number;
+}
+
+export interface BuildTestSummary {
+    buildId: number;
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    other: number;
+    /** Percentage of executed (non-skipped) tests that passed */
+    passRate: number;
+    countsByOutcome: Record<string, number>;
+    duration: DurationStats;
+    slowestTests: TestResultEntry[];
+}
+
+export interface BuildComparison {
+    base: BuildTestSummary;
+    target: BuildTestSummary;
+    passRateDelta: number;
+    newlyFailing: TestResultEntry[];
+    newlyPassing: TestResultEntry[];
+    stillFailing: TestResultEntry[];
+    addedTests: TestResultEntry[];
+    removedTests: TestResultEntry[];
+}
+
+export interface BuildTrendPoint {
+    buildId: number;
+    buildNumber?: string;
+    finishTime?: Date;
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    passRate: number;
+    totalDurationMs: number;
+    p90DurationMs: number;
+}
+
+export interface BuildTrend {
+    builds: BuildTrendPoint[];
+    averagePassRate: number;
+    /** Pass rate of the newest build minus the oldest */
+    passRateChange: number;
+    /** Change in p90 duration between the oldest and newest build */
+    p90DurationChangeMs: number;
+    /** Tests failing in every build of the range */
+    consistentlyFailing: string[];
+}
+
+const OUTCOME_CATEGORIES: Record<string, OutcomeCategory> = {
+    Passed: 'passed',
+    Failed: 'failed',
+    Error: 'failed',
+    Timeout: 'failed',
+    Aborted: 'failed',
+    NotExecuted: 'skipped',
+    NotApplicable: 'skipped',
+    NotImpacted: 'skipped'
+};
+
+/**
+ * Summaries, build-to-build comparisons and trends over the test results published for builds
+ */
+export class TestResultsAnalytics {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Summarize the results of one build
+     */
+    async summarizeBuild(buildId: number, slowestCount: number = 10): Promise<BuildTestSummary> {
+        const results = await this.client.getTestResultsByBuild(buildId);
+        return TestResultsAnalytics.summarize(buildId, TestResultsAnalytics.toEntries(results), slowestCount);
+    }
+
+    /**
+     * Compare the results of two builds
+     */
+    async compareBuilds(baseBuildId: number, targetBuildId: number, slowestCount: number = 10): Promise<BuildComparison> {
+        const [baseResults, targetResults] = await Promise.all([
+            this.client.getTestResultsByBuild(baseBuildId),
+            this.client.getTestResultsByBuild(targetBuildId)
+        ]);
+        const baseEntries = TestResultsAnalytics.toEntries(baseResults);
+        const targetEntries = TestResultsAnalytics.toEntries(targetResults);
+
+        return TestResultsAnalytics.compare(
+            TestResultsAnalytics.summarize(baseBuildId, baseEntries, slowestCount),
+            baseEntries,
+            TestResultsAnalytics.summarize(targetBuildId, targetEntries, slowestCount),
+            targetEntries
+        );
+    }
+
+    /**
+     * Compute trends over explicit builds or the latest builds of a pipeline definition
+     */
+    async buildTrend(options: { buildIds?: number[]; definitionId?: number; top?: number; branchName?: string }): Promise<BuildTrend> {
+        const builds = await this.client.getBuilds(options);
+        const points: BuildTrendPoint[] = [];
+        const entriesByBuild: TestResultEntry[][] = [];
+
+        // Oldest first so the trend reads left to right
+        const ordered = [...builds].sort((a, b) => (a.finishTime?.getTime() ?? a.id ?? 0) - (b.finishTime?.getTime() ?? b.id ?? 0));
+        for (const build of ordered) {
+            const entries = TestResultsAnalytics.toEntries(await this.client.getTestResultsByBuild(build.id!));
+            const summary = TestResultsAnalytics.summarize(build.id!, entries, 0);
+            entriesByBuild.push(entries);
+            points.push({
+                buildId: build.id!,
+                buildNumber: build.buildNumber,
+                finishTime: build.finishTime,
+                total: summary.total,
+                passed: summary.passed,
+                failed: summary.failed,
+                skipped: summary.skipped,
+                passRate: summary.passRate,
+                totalDurationMs: summary.duration.totalMs,
+                p90DurationMs: summary.duration.p90Ms
+            });
+        }
+
+        return TestResultsAnalytics.trend(points, entriesByBuild);
+    }
+
+    /**
+     * Collapse raw results into one entry per test; for re-runs the latest result wins
+     */
+    static toEntries(results: ShallowTestCaseResult[]): TestResultEntry[] {
+        const byKey = new Map<string, TestResultEntry>();
+
+        for (const result of results) {
+            const entry: TestResultEntry = {
+                key: TestResultsAnalytics.testKey(result),
+                name: result.automatedTestName || result.testCaseTitle || `Result ${result.id}`,
+                storage: result.automatedTestStorage,
+                outcome: result.outcome || 'None',
+                category: TestResultsAnalytics.categorize(result.outcome),
+                durationInMs: result.durationInMs || 0,
+                runId: result.runId,
+                resultId: result.id
+            };
+
+            const existing = byKey.get(entry.key);
+            const isLater = !existing || (entry.runId ?? 0) > (existing.runId ?? 0)
+                || ((entry.runId ?? 0) === (existing.runId ?? 0) && (entry.resultId ?? 0) > (existing.resultId ?? 0));
+            if (isLater) {
+                byKey.set(entry.key, entry);
+            }
+        }
+
+        return Array.from(byKey.values());
+    }
+
+    /**
+     * Stable identity of a test across builds: storage plus automated test name, else the test case title
+     */
+    static testKey(result: ShallowTestCaseResult): string {
+        if (result.automatedTestName) {
+            return `${result.automatedTestStorage || ''}::${result.automatedTestName}`.toLowerCase();
+        }
+        return `title::${result.testCaseTitle || result.refId || result.id}`.toLowerCase();
+    }
+
+    /**
+     * Group an ADO outcome into passed, failed, skipped or other
+     */
+    static categorize(outcome?: string): OutcomeCategory {
+        return OUTCOME_CATEGORIES[outcome || ''] || 'other';
+    }
+
+    static summarize(buildId: number, entries: TestResultEntry[], slowestCount: number = 10): BuildTestSummary {
+        const countsByOutcome: Record<string, number> = {};
+        const categories: Record<OutcomeCategory, number> = { passed: 0, failed: 0, skipped: 0, other: 0 };
+
+        for (const entry of entries) {
+            countsByOutcome[entry.outcome] = (countsByOutcome[entry.outcome] || 0) + 1;
+            categories[entry.category]++;
+        }
+
+        const executed = entries.length - categories.skipped;
+
+        return {
+            buildId,
+            total: entries.length,
+            ...categories,
+            passRate: executed > 0 ? TestResultsAnalytics.round((categories.passed / executed) * 100) : 0,
+            countsByOutcome,
+            duration: TestResultsAnalytics.durationStats(entries.filter(entry => entry.category !== 'skipped').map(entry => entry.durationInMs)),
+            slowestTests: [...entries]
+                .sort((a, b) => b.durationInMs - a.durationInMs)
+                .slice(0, slowestCount)
+        };
+    }
+
+    static compare(base: BuildTestSummary, baseEntries: TestResultEntry[], target: BuildTestSummary, targetEntries: TestResultEntry[]): BuildComparison {
+        const baseByKey = new Map(baseEntries.map(entry => [entry.key, entry]));
+        const targetKeys = new Set(targetEntries.map(entry => entry.key));
+
+        const comparison: BuildComparison = {
+            base,
+            target,
+            passRateDelta: TestResultsAnalytics.round(target.passRate - base.passRate),
+            newlyFailing: [],
+            newlyPassing: [],
+            stillFailing: [],
+            addedTests: [],
+            removedTests: baseEntries.filter(entry => !targetKeys.has(entry.key))
+        };
+
+        for (const entry of targetEntries) {
+            const previous = baseByKey.get(entry.key);
+            if (!previous) {
+                comparison.addedTests.push(entry);
+            } else if (entry.category === 'failed' && previous.category === 'failed') {
+                comparison.stillFailing.push(entry);
+            } else if (entry.category === 'failed') {
+                comparison.newlyFailing.push(entry);
+            } else if (entry.category === 'passed' && previous.category === 'failed') {
+                comparison.newlyPassing.push(entry);
+            }
+        }
+
+        return comparison;
+    }
+
+    static trend(points: BuildTrendPoint[], entriesByBuild: TestResultEntry[][]): BuildTrend {
+        const first = points[0];
+        const last = points[points.length - 1];
+
+        let consistentlyFailing: Set<string> | undefined;
+        for (const entries of entriesByBuild) {
+            const failing = new Set(entries.filter(entry => entry.category === 'failed').map(entry => entry.name));
+            consistentlyFailing = consistentlyFailing
+                ? new Set(Array.from(consistentlyFailing).filter(name => failing.has(name)))
+                : failing;
+        }
+
+        return {
+            builds: points,
+            averagePassRate: points.length > 0
+                ? TestResultsAnalytics.round(points.reduce((total, point) => total + point.passRate, 0) / points.length)
+                : 0,
+            passRateChange: first && last ? TestResultsAnalytics.round(last.passRate - first.passRate) : 0,
+            p90DurationChangeMs: first && last ? last.p90DurationMs - first.p90DurationMs : 0,
+            consistentlyFailing: Array.from(consistentlyFailing || [])
+        };
+    }
+
+    static durationStats(durations: number[]): DurationStats {
+        const sorted = [...durations].sort((a, b) => a - b);
+        const totalMs = sorted.reduce((total, duration) => total + duration, 0);
+
+        return {
+            totalMs,
+            averageMs: sorted.length > 0 ? Math.round(totalMs / sorted.length) : 0,
+            p50Ms: TestResultsAnalytics.percentile(sorted, 50),
+            p90Ms: TestResultsAnalytics.percentile(sorted, 90),
+            p95Ms: TestResultsAnalytics.percentile(sorted, 95),
+            p99Ms: TestResultsAnalytics.percentile(sorted, 99),
+            maxMs: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+        };
+    }
+
+    /**
+     * Nearest-rank percentile of an ascending list
+     */
+    static percentile(sorted: number[], percent: number): number {
+        if (sorted.length === 0) {
+            return 0;
+        }
+        const rank = Math.ceil((percent / 100) * sorted.length);
+        return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
@@ -0,0 +1,538 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { WorkItemRelation } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+
+export interface StepsXmlStep {
+    kind: 'step';
+    id: number;
+    /** ActionStep or ValidateStep */
+    type: string;
+    /** Step text as stored: HTML when `formatted`, plain text otherwise */
+    action: string;
+    expectedResult: string;
+    formatted: boolean;
+    /** Raw content of the <description> element, kept as-is */
+    description?: string;
+    /** Any other attributes of the element, written back unchanged */
+    attributes?: Record<string, string>;
+}
+
+export interface StepsXmlSharedStepsReference {
+    kind: 'compref';
+    id: number;
+    /** Work item ID of the Shared Steps */
+    ref: number;
+    /** Steps grouped under the reference; ADO shows them after the shared steps */
+    children: StepsXmlNode[];
+    attributes?: Record<string, string>;
+}
+
+export type StepsXmlNode = StepsXmlStep | StepsXmlSharedStepsReference;
+
+export interface TestStepsDocument {
+    /** Highest step id handed out so far */
+    last: number;
+    nodes: StepsXmlNode[];
+    attributes?: Record<string, string>;
+}
+
+/**
+ * One entry of a structured step list. Entries with an id keep that step (and its formatting unless the text
+ * changes); entries without one are added. Steps left out of the list are deleted.
+ */
+export interface TestStepEdit {
+    id?: number | string;
+    /** Plain text */
+    action?: string;
+    expectedResult?: string;
+    /** Formatted text; sanitized, and used instead of the plain text */
+    actionHtml?: string;
+    expectedResultHtml?: string;
+    /** Add a reference to these Shared Steps (new entries only) */
+    sharedStepsId?: number;
+}
+
+export interface TestStepAttachment {
+    name: string;
+    url: string;
+    comment?: string;
+}
+
+// Elements whose content is dropped entirely when sanitizing
+const DROPPED_HTML_ELEMENTS = ['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'svg', 'math'];
+
+const ALLOWED_HTML_ATTRIBUTES: Record<string, string[]> = {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan'],
+    ol: ['start'],
+    font: ['color', 'size', 'face']
+};
+
+const ALLOWED_HTML_ELEMENTS = new Set([
+    'div', 'p', 'br', 'span', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'sub', 'sup', 'font',
+    'ul', 'ol', 'li', 'a', 'img', 'code', 'pre', 'blockquote', 'hr',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'thead', 'tbody', 'tr', 'td', 'th'
+]);
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+
+// Step attachments are work item attachments whose comment starts with [TestStep=<id>]:
+const STEP_ATTACHMENT_COMMENT = /^\[TestStep=(\d+)\]:?\s*([\s\S]*)$/;
+
+/**
+ * Reads and writes the Microsoft.VSTS.TCM.Steps document of test cases and shared steps.
+ *
+ * Parsing keeps what ADO stores: step HTML (formatting included), shared steps references (compref) with the
+ * steps grouped under them, descriptions and unknown attributes. Serializing an unedited document yields
+ * XML that ADO accepts unchanged, so edits only touch the steps they change.
+ */
+export class TestStepsXml {
+    /**
+     * Parse a steps document; throws on malformed XML
+     */
+    static parse(stepsXml?: string): TestStepsDocument {
+        if (!stepsXml || stepsXml.trim().length === 0) {
+            return { last: 0, nodes: [] };
+        }
+
+        const validation = XMLValidator.validate(stepsXml);
+        if (validation !== true) {
+            throw new Error(`Invalid steps XML: ${validation.err.msg} (line ${validation.err.line})`);
+        }
+
+        const parser = new XMLParser({
+            preserveOrder: true,
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            parseAttributeValue: false,
+            parseTagValue: false,
+            trimValues: false,
+            // Step text is HTML; keep it as raw text instead of parsing it as XML
+            stopNodes: ['*.parameterizedString', '*.description']
+        });
+
+        const root = (parser.parse(stepsXml) as any[]).find(node => node.steps !== undefined);
+        if (!root) {
+            throw new Error('Invalid steps XML: missing <steps> element');
+        }
+
+        const { id, last, ...attributes } = root[':@'] || {};
+        const nodes = TestStepsXml.readNodes(root.steps);
+        const maxId = TestStepsXml.flatten({ last: 0, nodes }).reduce((max, node) => Math.max(max, node.id), 0);
+
+        return {
+            last: Math.max(parseInt(last) || 0, maxId),
+            nodes,
+            attributes: TestStepsXml.nonEmpty(id !== undefined ? { id, ...attributes } : attributes)
+        };
+    }
+
+    /**
+     * Serialize a steps document in the compact form ADO writes
+     */
+    static serialize(document: TestStepsDocument): string {
+        const { id = '0', ...attributes } = document.attributes || {};
+        const last = Math.max(document.last, TestStepsXml.nextId(document) - 1);
+
+        return `<steps${TestStepsXml.writeAttributes({ id, last: String(last), ...attributes })}>` +
+            document.nodes.map(node => TestStepsXml.writeNode(node)).join('') +
+            '</steps>';
+    }
+
+    /**
+     * Build a document from step lines: '1. Action|Expected result', or '[shared:123]' for a shared steps reference
+     */
+    static fromText(steps: string): TestStepsDocument {
+        const document: TestStepsDocument = { last: 0, nodes: [] };
+
+        for (const line of steps.split('\n').map(line => line.trim()).filter(line => line !== '')) {
+            const sharedMatch = line.match(/^(?:\d+\.\s*)?\[shared:(\d+)\]$/i);
+            if (sharedMatch) {
+                TestStepsXml.insert(document, { kind: 'compref', id: 0, ref: parseInt(sharedMatch[1]), children: [] });
+                continue;
+            }
+
+            // Split step and expected result by '|', fallback to default if not provided
+            const [stepPart, expectedPart] = line.split('|').map(part => part.trim());
+            const stepMatch = stepPart.match(/^(\d+)\.\s*(.+)$/);
+            TestStepsXml.insert(document, TestStepsXml.createStep(
+                stepMatch ? stepMatch[2] : stepPart,
+                expectedPart || 'Verify step completes successfully'
+            ));
+        }
+
+        return document;
+    }
+
+    /**
+     * A new formatted step from plain text; its id is assigned on insert
+     */
+    static createStep(action: string, expectedResult: string = ''): StepsXmlStep {
+        return {
+            kind: 'step',
+            id: 0,
+            type: 'ActionStep',
+            action: TestStepsXml.textToHtml(action),
+            expectedResult: TestStepsXml.textToHtml(expectedResult),
+            formatted: true,
+            description: ''
+        };
+    }
+
+    /**
+     * Steps and references in the order ADO displays them (grouped steps follow their reference)
+     */
+    static flatten(document: TestStepsDocument): StepsXmlNode[] {
+        const flattened: StepsXmlNode[] = [];
+        const visit = (nodes: StepsXmlNode[]) => {
+            for (const node of nodes) {
+                flattened.push(node);
+                if (node.kind === 'compref') {
+                    visit(node.children);
+                }
+            }
+        };
+        visit(document.nodes);
+        return flattened;
+    }
+
+    /**
+     * The chain of ids leading to every step and reference: the ids of the references it is grouped under, then its own
+     */
+    static idPaths(document: TestStepsDocument): Map<number, number[]> {
+        const paths = new Map<number, number[]>();
+        const visit = (nodes: StepsXmlNode[], parents: number[]) => {
+            for (const node of nodes) {
+                paths.set(node.id, [...parents, node.id]);
+                if (node.kind === 'compref') {
+                    visit(node.children, [...parents, node.id]);
+                }
+            }
+        };
+        visit(document.nodes, []);
+        return paths;
+    }
+
+    static nextId(document: TestStepsDocument): number {
+        return TestStepsXml.flatten(document).reduce((max, node) => Math.max(max, node.id), document.last) + 1;
+    }
+
+    /**
+     * Insert a node before the entry at `position` (0-based, in display order) or at the end.
+     * The node gets the next free id, and `last` is advanced.
+     */
+    static insert(document: TestStepsDocument, node: StepsXmlNode, position?: number): StepsXmlNode {
+        node.id = TestStepsXml.nextId(document);
+        document.last = node.id;
+
+        const location = position !== undefined ? TestStepsXml.locate(document, position) : undefined;
+        if (location) {
+            location.container.splice(location.index, 0, node);
+        } else {
+            document.nodes.push(node);
+        }
+        return node;
+    }
+
+    /**
+     * Find the array holding the entry at `position` (display order) and its index in that array
+     */
+    static locate(document: TestStepsDocument, position: number): { container: StepsXmlNode[]; index: number } | undefined {
+        let remaining = Math.max(0, position);
+        const search = (nodes: StepsXmlNode[]): { container: StepsXmlNode[]; index: number } | undefined => {
+            for (let index = 0; index < nodes.length; index++) {
+                if (remaining === 0) {
+                    return { container: nodes, index };
+                }
+                remaining--;
+                const node = nodes[index];
+                if (node.kind === 'compref') {
+                    const found = search(node.children);
+                    if (found) {
+                        return found;
+                    }
+                }
+            }
+            return undefined;
+        };
+        return search(document.nodes);
+    }
+
+    /**
+     * Replace the document's steps with a structured list, keeping the ids of existing entries so that
+     * attachments and test results stay attached. Grouped steps are moved to the top level in list order.
+     * Throws an error with statusCode 400 for unknown or repeated ids and incomplete new entries.
+     */
+    static applyEdits(document: TestStepsDocument, edits: TestStepEdit[]): TestStepsDocument {
+        const existing = new Map(TestStepsXml.flatten(document).map(node => [node.id, node]));
+        const seen = new Set<number>();
+        const result: TestStepsDocument = { last: TestStepsXml.nextId(document) - 1, nodes: [], attributes: document.attributes };
+
+        edits.forEach((edit, index) => {
+            const fail = (message: string): never => {
+                const error: any = new Error(`steps[${index}]: ${message}`);
+                error.statusCode = 400;
+                throw error;
+            };
+
+            if (edit.id === undefined || edit.id === null || edit.id === '') {
+                if (edit.sharedStepsId !== undefined) {
+                    if (!Number.isInteger(edit.sharedStepsId) || edit.sharedStepsId <= 0) {
+                        fail('sharedStepsId must be a positive integer');
+                    }
+                    TestStepsXml.insert(result, { kind: 'compref', id: 0, ref: edit.sharedStepsId, children: [] });
+                    return;
+                }
+                if (!edit.action?.trim() && !edit.actionHtml?.trim()) {
+                    fail('action or actionHtml is required for a new step');
+                }
+                const step = TestStepsXml.createStep('', '');
+                TestStepsXml.setText(step, edit);
+                TestStepsXml.insert(result, step);
+                return;
+            }
+
+            const id = typeof edit.id === 'number' ? edit.id : parseInt(edit.id);
+            const node = existing.get(id);
+            if (!node) {
+                fail(`step ${edit.id} does not exist`);
+            }
+            if (seen.has(id)) {
+                fail(`step ${edit.id} is listed more than once`);
+            }
+            if (edit.sharedStepsId !== undefined) {
+                fail('sharedStepsId can only be given for new entries');
+            }
+            seen.add(id);
+
+            if (node!.kind === 'compref') {
+                result.nodes.push({ ...node!, children: [] });
+            } else {
+                const step: StepsXmlStep = { ...node! };
+                TestStepsXml.setText(step, edit);
+                result.nodes.push(step);
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Group a work item's attachment relations by the step they were added to
+     */
+    static stepAttachments(relations: WorkItemRelation[] = []): Map<number, TestStepAttachment[]> {
+        const byStep = new Map<number, TestStepAttachment[]>();
+
+        for (const relation of relations) {
+            const match = relation.rel === 'AttachedFile' ? String(relation.attributes?.comment || '').match(STEP_ATTACHMENT_COMMENT) : null;
+            if (!match || !relation.url) {
+                continue;
+            }
+
+            const stepId = parseInt(match[1]);
+            byStep.set(stepId, [...(byStep.get(stepId) || []), {
+                name: relation.attributes?.name || relation.url.split('/').pop() || relation.url,
+                url: relation.url,
+                comment: match[2] || undefined
+            }]);
+        }
+
+        return byStep;
+    }
+
+    /**
+     * Keep only formatting markup: allowed elements and attributes, safe link targets, no scripts or event handlers
+     */
+    static sanitizeHtml(html: string): string {
+        return TestStepsXml.stripUnsafe(html).replace(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>|</g, (tag, closing: string, name: string, attributeText: string) => {
+            if (name === undefined) {
+                // A stray '<' that does not start a tag
+                return '&lt;';
+            }
+
+            const element = name.toLowerCase();
+            if (!ALLOWED_HTML_ELEMENTS.has(element)) {
+                return '';
+            }
+            if (closing) {
+                return `</${element}>`;
+            }
+
+            const attributes = Array.from(attributeText.matchAll(/([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g))
+                .map(match => ({ name: match[1].toLowerCase(), value: TestStepsXml.decodeEntities(match[2] ?? match[3] ?? match[4] ?? '') }))
+                .filter(attribute => (ALLOWED_HTML_ATTRIBUTES[element] || []).includes(attribute.name))
+                .filter(attribute => attribute.name !== 'href' || /^(https?:|mailto:|\/|#)/i.test(attribute.value.trim()))
+                .filter(attribute => attribute.name !== 'src' || /^(https?:|data:image\/(png|gif|jpe?g|webp);)/i.test(attribute.value.trim()))
+                .map(attribute => ` ${attribute.name}="${TestStepsXml.escape(attribute.value)}"`)
+                .join('');
+
+            return `<${element}${attributes}${/\/\s*$/.test(attributeText) || element === 'br' || element === 'hr' || element === 'img' ? ' /' : ''}>`;
+        });
+    }
+
+    /**
+     * Plain text of step HTML; block elements and <br> become line breaks
+     */
+    static htmlToText(html: string): string {
+        const text = TestStepsXml.stripUnsafe(html)
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<li\b[^>]*>/gi, '\n- ')
+            .replace(/<\/(p|div|li|h[1-6]|tr|pre|blockquote)\s*>/gi, '\n')
+            .replace(/<[^>]*>/g, '');
+
+        return TestStepsXml.decodeEntities(text)
+            .split('\n')
+            .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+            .filter((line, index, lines) => line !== '' || (index > 0 && lines[index - 1] !== ''))
+            .join('\n')
+            .trim();
+    }
+
+    /**
+     * HTML for plain step text: markup characters escaped, line breaks as <BR/>
+     */
+    static textToHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/\r?\n/g, '<BR/>');
+    }
+
+    /**
+     * Apply the text of an edit to a step; plain text that matches the current text keeps the formatting
+     */
+    private static setText(step: StepsXmlStep, edit: TestStepEdit): void {
+        const update = (html: string | undefined, text: string | undefined, current: string): string | undefined => {
+            if (html !== undefined) {
+                return TestStepsXml.sanitizeHtml(html);
+            }
+            if (text !== undefined && text !== (step.formatted ? TestStepsXml.htmlToText(current) : current)) {
+                return TestStepsXml.textToHtml(text);
+            }
+            return undefined;
+        };
+
+        const action = update(edit.actionHtml, edit.action, step.action);
+        const expectedResult = update(edit.expectedResultHtml, edit.expectedResult, step.expectedResult);
+        if (action === undefined && expectedResult === undefined) {
+            return;
+        }
+
+        // New text is HTML, so an unformatted step becomes formatted
+        if (!step.formatted) {
+            step.action = TestStepsXml.textToHtml(step.action);
+            step.expectedResult = TestStepsXml.textToHtml(step.expectedResult);
+            step.formatted = true;
+        }
+        step.action = action ?? step.action;
+        step.expectedResult = expectedResult ?? step.expectedResult;
+    }
+
+    /**
+     * Remove comments and elements whose content must not survive (scripts, embedded objects)
+     */
+    private static stripUnsafe(html: string): string {
+        return DROPPED_HTML_ELEMENTS.reduce(
+            (result, element) => result.replace(new RegExp(`<${element}\\b[\\s\\S]*?(?:<\\/${element}\\s*>|$)`, 'gi'), ''),
+            html.replace(/<!--[\s\S]*?-->/g, '')
+        );
+    }
+
+    private static readNodes(elements: any[] = []): StepsXmlNode[] {
+        const nodes: StepsXmlNode[] = [];
+
+        for (const element of elements) {
+            const { id, type, ref, ...attributes } = element[':@'] || {};
+
+            if (element.step !== undefined) {
+                const strings = (element.step as any[]).filter(child => child.parameterizedString !== undefined);
+                const description = (element.step as any[]).find(child => child.description !== undefined);
+
+                nodes.push({
+                    kind: 'step',
+                    id: parseInt(id) || 0,
+                    type: type || 'ActionStep',
+                    action: TestStepsXml.readString(strings[0]),
+                    expectedResult: TestStepsXml.readString(strings[1]),
+                    formatted: strings.length === 0 || strings.some(child => child[':@']?.isformatted === 'true'),
+                    description: description ? TestStepsXml.rawText(description.description) : undefined,
+                    attributes: TestStepsXml.nonEmpty(attributes)
+                });
+            } else if (element.compref !== undefined) {
+                nodes.push({
+                    kind: 'compref',
+                    id: parseInt(id) || 0,
+                    ref: parseInt(ref) || 0,
+                    children: TestStepsXml.readNodes(element.compref),
+                    attributes: TestStepsXml.nonEmpty(attributes)
+                });
+            }
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Text of a <parameterizedString>. ADO stores the HTML escaped; older items may hold the markup inline.
+     */
+    private static readString(element: any): string {
+        if (!element) {
+            return '';
+        }
+        const raw = TestStepsXml.rawText(element.parameterizedString);
+        return raw.includes('<') ? raw : TestStepsXml.decodeEntities(raw);
+    }
+
+    private static rawText(children: any[] = []): string {
+        return children.map(child => child['#text'] ?? '').join('');
+    }
+
+    private static writeNode(node: StepsXmlNode): string {
+        if (node.kind === 'compref') {
+            const attributes = TestStepsXml.writeAttributes({ id: String(node.id), ref: String(node.ref), ...node.attributes });
+            return node.children.length > 0
+                ? `<compref${attributes}>${node.children.map(child => TestStepsXml.writeNode(child)).join('')}</compref>`
+                : `<compref${attributes} />`;
+        }
+
+        const stringAttributes = TestStepsXml.writeAttributes({ isformatted: String(node.formatted) });
+        return `<step${TestStepsXml.writeAttributes({ id: String(node.id), type: node.type, ...node.attributes })}>` +
+            `<parameterizedString${stringAttributes}>${TestStepsXml.escape(node.action)}</parameterizedString>` +
+            `<parameterizedString${stringAttributes}>${TestStepsXml.escape(node.expectedResult)}</parameterizedString>` +
+            (node.description === undefined ? '' : node.description === '' ? '<description/>' : `<description>${node.description}</description>`) +
+            '</step>';
+    }
+
+    private static writeAttributes(attributes: Record<string, string>): string {
+        return Object.entries(attributes)
+            .map(([name, value]) => ` ${name}="${TestStepsXml.escape(value)}"`)
+            .join('');
+    }
+
+    private static nonEmpty(attributes: Record<string, string>): Record<string, string> | undefined {
+        return Object.keys(attributes).length > 0 ? attributes : undefined;
+    }
+
+    private static decodeEntities(text: string): string {
+        return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, code: string) => {
+            if (code.startsWith('#x') || code.startsWith('#X')) {
+                return String.fromCodePoint(parseInt(code.slice(2), 16));
+            }
+            if (code.startsWith('#')) {
+                return String.fromCodePoint(parseInt(code.slice(1), 10));
+            }
+            return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+        });
+    }
+
+    private static escape(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
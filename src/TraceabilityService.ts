@@ -0,0 +1,193 @@
+import { AzureDevOpsTestPlansClient, SuiteTestCase, TestSuiteNode } from './AzureDevOpsTestPlansClient';
+import { toCsv } from './Csv';
+import { PrdParser, PrdSection } from './PrdParser';
+
+export type CoverageStatus = 'covered' | 'partial' | 'uncovered';
+
+export interface TraceabilityOptions {
+    /** Minimum match score for a section to count as covered (default 0.5) */
+    coveredThreshold?: number;
+    /** Minimum match score for a section to count as partially covered (default 0.2) */
+    partialThreshold?: number;
+}
+
+export interface TraceabilityLink {
+    testCaseId: number;
+    title: string;
+    score: number;
+    explicitReference: boolean;
+}
+
+export interface TraceabilityRow {
+    sectionId: string;
+    title: string;
+    parentTitle?: string;
+    status: CoverageStatus;
+    score: number;
+    testCases: TraceabilityLink[];
+}
+
+export interface TraceabilityMatrix {
+    planId: number;
+    generatedAt: string;
+    summary: {
+        totalSections: number;
+        covered: number;
+        partial: number;
+        uncovered: number;
+        coveragePercent: number;
+        totalTestCases: number;
+        unmappedTestCases: number;
+    };
+    sections: TraceabilityRow[];
+}
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'will', 'should', 'must', 'can',
+    'into', 'onto', 'their', 'they', 'them', 'have', 'has', 'had', 'not', 'all', 'any', 'each', 'its', 'via',
+    'when', 'then', 'than', 'which', 'who', 'what', 'where', 'able', 'also', 'such', 'user', 'users', 'verify',
+    'ensure', 'page', 'click', 'select', 'option', 'display', 'displayed', 'shows', 'show'
+]);
+
+/**
+ * Maps PRD requirement sections to the test cases of a plan and classifies their coverage
+ */
+export class TraceabilityService {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    /**
+     * Build the traceability matrix between the requirement sections of a PRD and the test cases of a plan
+     */
+    async buildMatrix(prd: string, planId: number, options: TraceabilityOptions = {}): Promise<TraceabilityMatrix> {
+        const sections = PrdParser.requirementSections(prd);
+        if (sections.length === 0) {
+            throw new Error('No numbered requirement sections (e.g. "2.1.1 Title") found in the PRD');
+        }
+
+        const suites = await this.client.getTestSuiteHierarchy(planId);
+        const testCases = TraceabilityService.flattenTestCases(suites);
+
+        return TraceabilityService.computeMatrix(planId, sections, testCases, options);
+    }
+
+    /**
+     * Pure matching step, separated from data fetching so it can run on already loaded test cases
+     */
+    static computeMatrix(planId: number, sections: PrdSection[], testCases: SuiteTestCase[], options: TraceabilityOptions = {}): TraceabilityMatrix {
+        const coveredThreshold = options.coveredThreshold ?? 0.5;
+        const partialThreshold = options.partialThreshold ?? 0.2;
+        const testTokens = testCases.map(testCase => {
+            const text = TraceabilityService.testCaseText(testCase);
+            return { testCase, text, tokens: new Set(TraceabilityService.tokenize(text)) };
+        });
+        const mappedTestCaseIds = new Set<number>();
+
+        const rows: TraceabilityRow[] = sections.map(section => {
+            const titleKeywords = Array.from(new Set(TraceabilityService.tokenize(section.title)));
+            const contentKeywords = TraceabilityService.topKeywords(section.content, 25);
+            const referencePattern = new RegExp(`(^|[^\\d.])${section.id.replace(/\./g, '\\.')}(?![\\d.]*\\d)`);
+
+            const links: TraceabilityLink[] = testTokens
+                .map(({ testCase, text, tokens }) => {
+                    const explicitReference = referencePattern.test(text);
+                    const titleScore = TraceabilityService.overlap(titleKeywords, tokens);
+                    const contentScore = TraceabilityService.overlap(contentKeywords, tokens);
+                    const score = explicitReference ? 1 : Math.round((0.6 * titleScore + 0.4 * contentScore) * 100) / 100;
+                    return { testCaseId: testCase.id, title: testCase.name, score, explicitReference };
+                })
+                .filter(link => link.score >= partialThreshold)
+                .sort((a, b) => b.score - a.score);
+
+            const score = links[0]?.score || 0;
+            const status: CoverageStatus = score >= coveredThreshold ? 'covered' : score >= partialThreshold ? 'partial' : 'uncovered';
+            links.forEach(link => mappedTestCaseIds.add(link.testCaseId));
+
+            return {
+                sectionId: section.id,
+                title: section.title,
+                parentTitle: section.parentTitle,
+                status,
+                score,
+                testCases: links
+            };
+        });
+
+        const covered = rows.filter(row => row.status === 'covered').length;
+        const partial = rows.filter(row => row.status === 'partial').length;
+
+        return {
+            planId,
+            generatedAt: new Date().toISOString(),
+            summary: {
+                totalSections: rows.length,
+                covered,
+                partial,
+                uncovered: rows.length - covered - partial,
+                coveragePercent: Math.round((covered / rows.length) * 1000) / 10,
+                totalTestCases: testCases.length,
+                unmappedTestCases: testCases.filter(testCase => !mappedTestCaseIds.has(testCase.id)).length
+            },
+            sections: rows
+        };
+    }
+
+    /**
+     * Render the matrix as CSV with one row per requirement section
+     */
+    static toCsv(matrix: TraceabilityMatrix): string {
+        return toCsv(
+            ['Section', 'Title', 'Parent', 'Status', 'Score', 'Test Case IDs', 'Test Case Titles'],
+            matrix.sections.map(row => [
+                row.sectionId,
+                row.title,
+                row.parentTitle || '',
+                row.status,
+                row.score,
+                row.testCases.map(link => link.testCaseId).join('; '),
+                row.testCases.map(link => link.title).join('; ')
+            ])
+        );
+    }
+
+    /**
+     * Collect the unique test cases of a suite tree
+     */
+    static flattenTestCases(suites: TestSuiteNode[]): SuiteTestCase[] {
+        const byId = new Map<number, SuiteTestCase>();
+        const visit = (suite: TestSuiteNode): void => {
+            suite.testCases.forEach(testCase => byId.set(testCase.id, testCase));
+            suite.children.forEach(visit);
+        };
+        suites.forEach(visit);
+        return Array.from(byId.values());
+    }
+
+    private static testCaseText(testCase: SuiteTestCase): string {
+        return [testCase.name, ...testCase.steps.flatMap(step => [step.action, step.expectedResult])].join(' ');
+    }
+
+    private static tokenize(text: string): string[] {
+        return text
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, ' ')
+            .split(/\s+/)
+            .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+            .map(word => word.length > 4 ? word.replace(/(ing|ed|s)$/, '') : word);
+    }
+
+    private static topKeywords(text: string, limit: number): string[] {
+        const counts = new Map<string, number>();
+        TraceabilityService.tokenize(text).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, limit)
+            .map(([word]) => word);
+    }
+
+    private static overlap(keywords: string[], tokens: Set<string>): number {
+        if (keywords.length === 0) {
+            return 0;
+        }
+        return keywords.filter(keyword => tokens.has(keyword)).length / keywords.length;
+    }
+}
@@ -2,8 +2,27 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { AzureDevOpsTestPlansClient, TEST_OUTCOMES, TestCaseUpdate } from './AzureDevOpsTestPlansClient';
 import { AzureOpenAIService, TestPlanRecommendation } from './AzureOpenAIService';
+import { Connection, StorageProvider, TestCase, TestSuite, createStorage } from './Storage';
+import { InMemoryStorage } from './InMemoryStorage';
+import { GherkinSync } from './GherkinSync';
+import { GitHubRepository, GitHubService } from './GitHubService';
+import { RecommendationApplier } from './RecommendationApplier';
+import { AutomationLinker } from './AutomationLinker';
+import { TestCaseHistory } from './TestCaseHistory';
+import { TestCaseImporter } from './TestCaseImporter';
+import { TEST_CASE_IMPORT_FORMATS } from './TestCaseImportParser';
+import { TestCaseParameters } from './TestCaseParameters';
+import { PlanCopyOptions, PlanCopyProgressCallback, PlanCopyResult, TEST_CASE_COPY_MODES, TestPlanCloner } from './TestPlanCloner';
+import { TEST_PLAN_EXPORT_FORMATS, TestPlanExportFormat, TestPlanExporter } from './TestPlanExporter';
+import { TraceabilityService } from './TraceabilityService';
+import { TestResultImporter } from './TestResultImporter';
+import { TestResultsAnalytics } from './TestResultsAnalytics';
+import { FlakyAnalysisOptions, FlakyTestAnalyzer } from './FlakyTestAnalyzer';
+import { GeneratedPlaywrightSpec, PlaywrightSpecGenerator } from './PlaywrightSpecGenerator';
+import { createLlmProvider } from './LlmProvider';
+import { TEST_RESULT_FORMATS } from './TestResultParser';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
@@ -16,56 +35,50 @@ const PORT = process.env.PORT || 3001;
 app.use(helmet()); // Security headers
 app.use(cors()); // Enable CORS
 app.use(morgan('combined')); // Logging
-app.use(express.json()); // Parse JSON bodies
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '10mb' })); // Parse JSON bodies (attachments are sent base64-encoded)
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Global Azure DevOps client instance
 let adoClient: AzureDevOpsTestPlansClient | null = null;
 
-// In-memory storage for connections (in production, use a proper database)
-interface Connection {
-    resourceId: string;
-    connectionId: string;
-    github_url: string;
-    prd: string;
-    ado_url: string;
-    website_url: string;
-}
-
-interface TestCase {
-    name: string;
-    steps: string[];
-    issueId?: string;
-    status?: string;
-}
+// Storage for connections, suite snapshots, issue links, recommendation history and plan templates
+// (backend selected by STORAGE_PROVIDER: memory, file or cosmos). Starts in memory so the app works
+// when it is imported without startServer (tests); startServer swaps in the configured provider.
+let storage: StorageProvider = new InMemoryStorage();
 
-interface TestSuite {
-    name: string;
-    testCaseId: string;
-    testCases: TestCase[];
+// Initialize storage provider
+async function initializeStorage(): Promise<void> {
+    try {
+        const provider = createStorage();
+        await provider.initialize();
+        storage = provider;
+        console.log(`Storage provider "${storage.name}" initialized successfully`);
+    } catch (error) {
+        console.error('Failed to initialize storage provider:', error);
+        process.exit(1);
+    }
 }
 
-const connections: Map<string, Connection> = new Map();
-const testSuites: Map<string, TestSuite[]> = new Map();
-
-// Initialize Azure DevOps client
+// Initialize Azure DevOps client. Failure is not fatal: routes that need ADO answer 503,
+// while the recommendation flow keeps working (e.g. in CI with LLM_PROVIDER=fake and no Azure credentials)
 async function initializeADOClient(): Promise<void> {
     try {
-        adoClient = new AzureDevOpsTestPlansClient();
-        await adoClient.initialize();
+        const client = new AzureDevOpsTestPlansClient();
+        await client.initialize();
+        adoClient = client;
         console.log('Azure DevOps client initialized successfully');
     } catch (error) {
-        console.error('Failed to initialize Azure DevOps client:', error);
-        process.exit(1);
+        adoClient = null;
+        console.error('Failed to initialize Azure DevOps client; Azure DevOps routes are unavailable:', error);
     }
 }
 
 // Middleware to ensure client is initialized
 const ensureClientInitialized = (req: Request, res: Response, next: NextFunction) => {
     if (!adoClient) {
-        return res.status(500).json({ 
+        return res.status(503).json({ 
             error: 'Azure DevOps client not initialized',
-            message: 'Server is starting up, please try again in a moment'
+            message: 'The Azure DevOps connection is not available; check the AZURE_DEVOPS_* settings and the server log'
         });
     }
     next();
@@ -91,7 +104,8 @@ app.get('/health', (req: Request, res: Response) => {
     res.json({
         status: 'healthy',
         timestamp: new Date().toISOString(),
-        clientInitialized: !!adoClient
+        clientInitialized: !!adoClient,
+        storage: storage.name
     });
 });
 
@@ -107,16 +121,74 @@ app.get('/', (req: Request, res: Response) => {
             'POST /api/testplans': 'Create new test plan',
             'PUT /api/testplans/:id': 'Update test plan',
             'DELETE /api/testplans/:id': 'Delete test plan',
+            'POST /api/testplans/:planId/clone': 'Clone test plan into a new iteration (test cases referenced or deep-copied)',
+            'POST /api/testplans/:planId/clone/stream': 'Clone test plan, progress streamed as Server-Sent Events',
+            'GET /api/plantemplates': 'List plan templates',
+            'GET /api/plantemplates/:name': 'Get plan template',
+            'PUT /api/plantemplates/:name': 'Save the structure of a test plan as a named template',
+            'DELETE /api/plantemplates/:name': 'Delete plan template',
+            'POST /api/plantemplates/:name/plans': 'Create test plan from template',
+            'POST /api/plantemplates/:name/plans/stream': 'Create test plan from template, progress streamed as Server-Sent Events',
+            'GET /api/testplans/:planId/export': 'Export test plan as CSV, Markdown, JSON snapshot or HTML report (?format=)',
+            'POST /api/testplans/import': 'Create test plan and its test cases from a JSON snapshot',
             'POST /api/testcases': 'Create new test case',
             'GET /api/testcases/:id': 'Get test case details by work item ID',
+            'PATCH /api/testcases/:id': 'Update test case fields and steps (optimistic concurrency on revision)',
+            'DELETE /api/testcases/:id': 'Remove test case from suites, or delete it permanently with ?mode=destroy',
             'POST /api/testcases/batch': 'Get multiple test case details',
+            'PUT /api/testcases/:id/automation': 'Link test case to an automated test',
+            'DELETE /api/testcases/:id/automation': 'Unlink automated test from test case',
+            'POST /api/testcases/automation/manifest': 'Bulk-link test cases to automated tests from a manifest',
+            'POST /api/sharedsteps': 'Create shared steps',
+            'GET /api/sharedsteps/:id': 'Get shared steps with parsed steps and parameters',
+            'POST /api/testcases/:id/sharedsteps': 'Insert shared steps reference into test case',
+            'PUT /api/testcases/:id/parameters': 'Define test case parameters and data rows',
+            'GET /api/testcases/:id/expanded': 'Get test case with shared steps and parameter iterations expanded',
+            'GET /api/testcases/:id/revisions': 'List test case revisions with changed fields',
+            'GET /api/testcases/:id/revisions/diff?from=&to=': 'Diff fields and steps between two revisions',
+            'GET /api/testcases/:id/revisions/:revision': 'Get test case as of a revision',
+            'GET /api/testplans/:planId/suites': 'Get suite hierarchy of a test plan',
+            'POST /api/testplans/:planId/suites': 'Create test suite (static, requirement-based or query-based)',
+            'GET /api/testplans/:planId/suites/:suiteId': 'Get test suite by ID',
+            'PUT /api/testplans/:planId/suites/:suiteId': 'Update test suite (rename, query, reparent)',
+            'POST /api/testplans/:planId/suites/:suiteId/move': 'Move test suite under another parent',
+            'DELETE /api/testplans/:planId/suites/:suiteId': 'Delete test suite',
             'POST /api/testplans/:planId/suites/:suiteId/testcases': 'Add test cases to suite',
             'GET /api/testplans/:planId/suites/:suiteId/testcases': 'Get test cases from suite',
+            'POST /api/testplans/:planId/suites/:suiteId/testcases/import': 'Bulk-import test cases from CSV, Markdown or Gherkin (with dry run)',
+            'GET /api/testplans/:planId/suites/:suiteId/feature': 'Download suite test cases as a Gherkin feature file',
+            'POST /api/testplans/:planId/suites/:suiteId/gherkin/sync': 'Sync feature files with a suite (created, updated and orphaned scenarios, with dry run)',
             'GET /api/builds/:buildId/testresults': 'Get test results for build',
+            'GET /api/builds/:buildId/testresults/summary': 'Test results summary for build (counts, pass rate, durations, slowest tests)',
+            'GET /api/builds/compare': 'Compare test results of two builds',
+            'GET /api/builds/trends': 'Test result trends across a build range',
+            'GET /api/flaky': 'Detect flaky tests across builds',
+            'POST /api/flaky': 'Detect flaky tests and create or update tracking work items',
+            'POST /api/testcases/:id/playwright': 'Generate Playwright spec skeleton from a test case',
+            'POST /api/testplans/:planId/suites/:suiteId/playwright': 'Generate Playwright spec skeleton from a suite',
+            'GET /api/testplans/:planId/suites/:suiteId/points': 'Get test points of a suite with configuration, tester and outcome',
+            'PUT /api/testplans/:planId/suites/:suiteId/points/testers': 'Bulk-assign testers to test points',
+            'GET /api/testconfigurations': 'Get test configurations',
+            'POST /api/testconfigurations': 'Create test configuration',
+            'PUT /api/testplans/:planId/suites/:suiteId/configurations': 'Set default configurations of a suite',
+            'PUT /api/testplans/:planId/suites/:suiteId/testcases/configurations': 'Assign configurations to test cases in a suite',
+            'POST /api/testruns': 'Create test run from suite or test points',
+            'GET /api/testruns/:runId': 'Get test run with results',
+            'PUT /api/testruns/:runId/results': 'Record result outcomes, comments, durations and step outcomes',
+            'POST /api/testruns/:runId/attachments': 'Attach evidence to test run',
+            'POST /api/testruns/:runId/results/:resultId/attachments': 'Attach evidence to test result',
+            'POST /api/testruns/:runId/complete': 'Complete test run',
+            'POST /api/testplans/:planId/suites/:suiteId/results/import': 'Publish JUnit, TRX or Playwright results as a test run',
+            'POST /api/testplans/recommendations': 'Generate test plan recommendations from a PRD',
+            'POST /api/testplans/recommendations/stream': 'Generate recommendations, streamed as Server-Sent Events',
+            'GET /api/testplans/recommendations/history': 'Get saved recommendation history',
+            'POST /api/testplans/:planId/recommendations/apply': 'Create test cases from selected recommendations',
+            'POST /api/testplans/:planId/traceability': 'Requirement traceability matrix (JSON or CSV)',
             'POST /:resourceId/saveConnection': 'Save connection configuration',
             'GET /:resourceId': 'Get connection configuration',
             'GET /:resourceId/ado_plans': 'Get ADO test plans and suites',
-            'POST /:resourceId/createIssue/:testCaseId': 'Create GitHub issue for test case'
+            'POST /:resourceId/createIssue/:testCaseId': 'Create GitHub issue for test case',
+            'POST /:resourceId/syncIssues': 'Sync GitHub issue state back into test case status'
         },
         documentation: 'See README.md for detailed API documentation'
     });
@@ -271,28 +343,38 @@ app.delete('/api/testplans/:id', ensureClientInitialized, async (req: Request, r
     }
 });
 
+// Test Plan Clone and Template API Routes
+
 /**
- * POST /api/testcases
- * Create new test case
- * Body: { title, steps?, priority?, areaPath?, iterationPath? }
+ * POST /api/testplans/:planId/clone
+ * Copy a plan into a new iteration with its suite hierarchy, configurations and test cases
+ * Body: { name, iteration, areaPath?, description?, startDate?, endDate?, copyMode?: 'reference' | 'deep' }
  */
-app.post('/api/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.post('/api/testplans/:planId/clone', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { title, steps, priority, areaPath, iterationPath } = req.body;
-        
-        if (!title) {
-            return res.status(400).json({ 
-                error: 'Missing required field',
-                message: 'title is required'
+        const planId = parseInt(req.params.planId);
+
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
             });
         }
-        
-        const testCase = await adoClient!.createTestCase(title, steps, priority, areaPath, iterationPath);
-        
+
+        const validationError = validatePlanCopyOptions(req.body);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Invalid clone request',
+                message: validationError
+            });
+        }
+
+        const result = await new TestPlanCloner(adoClient!).clonePlan(planId, planCopyOptions(req.body));
+
         res.status(201).json({
             success: true,
-            data: testCase,
-            message: 'Test case created successfully'
+            data: result,
+            message: `Test plan ${planId} cloned to ${result.plan.id}`
         });
     } catch (error) {
         next(error);
@@ -300,84 +382,71 @@ app.post('/api/testcases', ensureClientInitialized, async (req: Request, res: Re
 });
 
 /**
- * GET /api/testcases/:id
- * Get test case details by work item ID
+ * POST /api/testplans/:planId/clone/stream
+ * Same as /clone, with progress streamed as Server-Sent Events (progress, done, error)
  */
-app.get('/api/testcases/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
-    try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-            return res.status(400).json({ error: 'Invalid test case ID' });
-        }
+app.post('/api/testplans/:planId/clone/stream', ensureClientInitialized, async (req: Request, res: Response) => {
+    const planId = parseInt(req.params.planId);
 
-        const testCaseDetails = await adoClient!.getTestCaseDetails(id);
-        res.json(testCaseDetails);
-    } catch (error) {
-        next(error);
+    if (isNaN(planId)) {
+        return res.status(400).json({
+            error: 'Invalid test plan ID',
+            message: 'Test plan ID must be a number'
+        });
+    }
+
+    const validationError = validatePlanCopyOptions(req.body);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'Invalid clone request',
+            message: validationError
+        });
     }
+
+    await streamPlanCopy(res, onProgress => new TestPlanCloner(adoClient!).clonePlan(planId, planCopyOptions(req.body), onProgress));
 });
 
 /**
- * POST /api/testcases/batch
- * Get multiple test case details
- * Body: { ids: number[] }
+ * GET /api/plantemplates
+ * List saved plan templates
  */
-app.post('/api/testcases/batch', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.get('/api/plantemplates', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { ids } = req.body;
-        
-        if (!Array.isArray(ids) || ids.length === 0) {
-            return res.status(400).json({ error: 'ids array is required and cannot be empty' });
-        }
-
-        if (ids.length > 100) {
-            return res.status(400).json({ error: 'Maximum 100 test case IDs allowed per request' });
-        }
-
-        // Validate all IDs are numbers
-        const validIds = ids.filter(id => Number.isInteger(id) && id > 0);
-        if (validIds.length !== ids.length) {
-            return res.status(400).json({ error: 'All IDs must be positive integers' });
-        }
+        const templates = await storage.getPlanTemplates();
 
-        const testCaseDetails = await adoClient!.getMultipleTestCaseDetails(validIds);
-        res.json(testCaseDetails);
+        res.json({
+            success: true,
+            data: templates,
+            count: templates.length
+        });
     } catch (error) {
         next(error);
     }
 });
 
 /**
- * POST /api/testplans/:planId/suites/:suiteId/testcases
- * Add test cases to suite
- * Body: { testCaseIds: string[] | string }
+ * GET /api/plantemplates/:name
+ * Get a saved plan template
  */
-app.post('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.get('/api/plantemplates/:name', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const planId = parseInt(req.params.planId);
-        const suiteId = parseInt(req.params.suiteId);
-        const { testCaseIds } = req.body;
-        
-        if (isNaN(planId) || isNaN(suiteId)) {
-            return res.status(400).json({ 
-                error: 'Invalid IDs',
-                message: 'Plan ID and Suite ID must be numbers'
-            });
+        const name = planTemplateName(req, res);
+        if (name === null) {
+            return;
         }
-        
-        if (!testCaseIds) {
-            return res.status(400).json({ 
-                error: 'Missing required field',
-                message: 'testCaseIds is required'
+
+        const template = await storage.getPlanTemplate(name);
+
+        if (!template) {
+            return res.status(404).json({
+                error: 'Plan template not found',
+                message: `No plan template named "${name}"`
             });
         }
-        
-        const result = await adoClient!.addTestCasesToSuite(planId, suiteId, testCaseIds);
-        
+
         res.json({
             success: true,
-            data: result,
-            message: 'Test cases added to suite successfully'
+            data: template
         });
     } catch (error) {
         next(error);
@@ -385,29 +454,37 @@ app.post('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitial
 });
 
 /**
- * GET /api/testplans/:planId/suites/:suiteId/testcases
- * Get test cases from suite
+ * PUT /api/plantemplates/:name
+ * Save the structure of a test plan as a named template (replacing a template of the same name)
+ * Body: { planId, description? }
  */
-app.get('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.put('/api/plantemplates/:name', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const planId = parseInt(req.params.planId);
-        const suiteId = parseInt(req.params.suiteId);
-        
-        if (isNaN(planId) || isNaN(suiteId)) {
-            return res.status(400).json({ 
-                error: 'Invalid IDs',
-                message: 'Plan ID and Suite ID must be numbers'
+        const name = planTemplateName(req, res);
+        if (name === null) {
+            return;
+        }
+
+        const { planId, description } = req.body;
+
+        if (!Number.isInteger(planId)) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'planId is required and must be an integer'
             });
         }
-        
-        const testCases = await adoClient!.getTestCaseList(planId, suiteId);
-        
-        res.json({
+
+        const existing = await storage.getPlanTemplate(name);
+        const template = await new TestPlanCloner(adoClient!).captureTemplate(planId, name, description);
+        if (existing) {
+            template.createdAt = existing.createdAt;
+        }
+        await storage.savePlanTemplate(template);
+
+        res.status(existing ? 200 : 201).json({
             success: true,
-            data: testCases,
-            count: testCases.length,
-            planId,
-            suiteId
+            data: template,
+            message: `Plan template "${name}" ${existing ? 'updated' : 'created'} from test plan ${planId}`
         });
     } catch (error) {
         next(error);
@@ -415,176 +492,2668 @@ app.get('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitiali
 });
 
 /**
- * GET /api/builds/:buildId/testresults
- * Get test results for build
+ * DELETE /api/plantemplates/:name
+ * Delete a saved plan template
  */
-app.get('/api/builds/:buildId/testresults', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.delete('/api/plantemplates/:name', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const buildId = parseInt(req.params.buildId);
-        
-        if (isNaN(buildId)) {
-            return res.status(400).json({ 
-                error: 'Invalid build ID',
-                message: 'Build ID must be a number'
+        const name = planTemplateName(req, res);
+        if (name === null) {
+            return;
+        }
+
+        const deleted = await storage.deletePlanTemplate(name);
+
+        if (!deleted) {
+            return res.status(404).json({
+                error: 'Plan template not found',
+                message: `No plan template named "${name}"`
             });
         }
-        
-        const testResults = await adoClient!.getTestResultsFromBuildId(buildId);
-        
+
         res.json({
             success: true,
-            data: testResults,
-            buildId
+            message: 'Plan template deleted successfully'
         });
     } catch (error) {
         next(error);
     }
 });
 
-// POST /api/testplans/recommendations - Generate test plan recommendations based on PRD
-app.post('/api/testplans/recommendations', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+/**
+ * POST /api/plantemplates/:name/plans
+ * Create a test plan from a saved template
+ * Body: { name, iteration, areaPath?, description?, startDate?, endDate?, copyMode?: 'reference' | 'deep' }
+ */
+app.post('/api/plantemplates/:name/plans', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { prd, testPlanId } = req.body;
-        
-        // Validate required fields
-        if (!prd) {
-            return res.status(400).json({
-                success: false,
-                error: 'PRD (Product Requirements Document) is required'
-            });
+        const name = planTemplateName(req, res);
+        if (name === null) {
+            return;
         }
-        
-        // Use testPlanId from request body or fallback to environment variable
-        const planId = testPlanId || process.env.TEST_PLAN_ID;
-        if (!planId) {
+
+        const validationError = validatePlanCopyOptions(req.body);
+        if (validationError) {
             return res.status(400).json({
-                success: false,
-                error: 'Test Plan ID is required either in request body or TEST_PLAN_ID environment variable'
+                error: 'Invalid plan request',
+                message: validationError
             });
         }
-        
-        console.log(`Generating recommendations for test plan ${planId} with PRD length: ${prd.length} characters`);
-        
-        // Fetch existing test plans from Azure DevOps
-        let existingTestPlans: any[] = [];
-        try {
-            // Get test plan details
-            const testPlanResponse = await adoClient!.getTestPlan(planId);
-            
-            // Get test cases from the test plan
-            if (testPlanResponse && testPlanResponse.rootSuite?.id) {
-                const testCasesResponse = await adoClient!.getTestCaseList(planId, testPlanResponse.rootSuite.id);
-                existingTestPlans = testCasesResponse || [];
-            }
-            
-            console.log(`Found ${existingTestPlans.length} existing test cases in test plan ${planId}`);
-        } catch (adoError) {
-            console.warn('Could not fetch existing test plans from Azure DevOps:', adoError);
-            // Continue with empty existing plans - this allows the API to work even if ADO fetch fails
+
+        const template = await storage.getPlanTemplate(name);
+        if (!template) {
+            return res.status(404).json({
+                error: 'Plan template not found',
+                message: `No plan template named "${name}"`
+            });
         }
-        
-        // Initialize Azure OpenAI service
-        const openAIService = new AzureOpenAIService();
-        
-        // Generate recommendations using Azure OpenAI
-        const recommendations = await openAIService.generateTestPlanRecommendations(
-            prd,
-            existingTestPlans,
-            planId
-        );
-        
-        console.log(`Generated ${recommendations.length} test plan recommendations`);
-        
-        res.json({
+
+        const result = await new TestPlanCloner(adoClient!).createPlanFromTemplate(template, planCopyOptions(req.body));
+
+        res.status(201).json({
             success: true,
-            data: {
-                testPlanId: planId,
-                prdLength: prd.length,
-                existingTestCasesCount: existingTestPlans.length,
-                recommendations,
-                generatedAt: new Date().toISOString()
-            }
-        });
-        
-    } catch (error: any) {
-        console.error('Error generating test plan recommendations:', error);
-        
-        // Provide more specific error messages
-        let errorMessage = 'Failed to generate test plan recommendations';
-        let statusCode = 500;
-        
-        if (error.message?.includes('Azure OpenAI configuration missing')) {
-            errorMessage = 'Azure OpenAI service is not properly configured';
-            statusCode = 503;
-        } else if (error.message?.includes('Failed to generate recommendations')) {
-            errorMessage = error.message;
-            statusCode = 502;
-        } else if (error.message?.includes('Failed to parse recommendations')) {
-            errorMessage = 'Azure OpenAI returned invalid response format';
-            statusCode = 502;
-        }
-        
-        res.status(statusCode).json({
-            success: false,
-            error: errorMessage,
-            details: error.message,
-            timestamp: new Date().toISOString()
+            data: result,
+            message: `Test plan ${result.plan.id} created from template "${template.name}"`
         });
+    } catch (error) {
+        next(error);
     }
 });
 
-// 404 handler for unknown routes
-app.use('*', (req: Request, res: Response) => {
-    res.status(404).json({
-        error: 'Not Found',
-        message: `Route ${req.originalUrl} not found`,
-        availableEndpoints: '/'
-    });
-});
-
 /**
- * POST /:resourceId/saveConnection
- * Save connection configuration
- * Body: { github_url, prd, ado_url, website_url }
+ * POST /api/plantemplates/:name/plans/stream
+ * Same as /plans, with progress streamed as Server-Sent Events (progress, done, error)
  */
-app.post('/:resourceId/saveConnection', (req: Request, res: Response) => {
+app.post('/api/plantemplates/:name/plans/stream', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { resourceId } = req.params;
-        const { github_url, prd, ado_url, website_url } = req.body;
+        const name = planTemplateName(req, res);
+        if (name === null) {
+            return;
+        }
 
-        // Validate required fields
-        if (!github_url || !prd || !ado_url || !website_url) {
+        const validationError = validatePlanCopyOptions(req.body);
+        if (validationError) {
             return res.status(400).json({
-                error: 'Missing required fields',
-                message: 'github_url, prd, ado_url, and website_url are required'
+                error: 'Invalid plan request',
+                message: validationError
             });
         }
 
-        // Generate a connection ID
-        const connectionId = Math.random().toString(36).substr(2, 10);
+        const template = await storage.getPlanTemplate(name);
+        if (!template) {
+            return res.status(404).json({
+                error: 'Plan template not found',
+                message: `No plan template named "${name}"`
+            });
+        }
 
-        // Save connection
-        const connection: Connection = {
-            resourceId,
-            connectionId,
-            github_url,
-            prd,
-            ado_url,
-            website_url
-        };
+        await streamPlanCopy(res, onProgress => new TestPlanCloner(adoClient!).createPlanFromTemplate(template, planCopyOptions(req.body), onProgress));
+    } catch (error) {
+        next(error);
+    }
+});
 
-        connections.set(resourceId, connection);
+// Template names are a path segment of the template routes, so they cannot contain these characters
+const PLAN_TEMPLATE_NAME_PATTERN = /^[^/\\?#]{1,100}$/;
 
-        res.json({
-            message: "Connection saved successfully",
-            status: "success",
-            resourceId,
-            connectionId
+/**
+ * Helper function to read the template name from the route, trimmed the same way for every template route.
+ * Sends a 400 response and returns null when the name is not a valid template name.
+ */
+function planTemplateName(req: Request, res: Response): string | null {
+    const name = req.params.name.trim();
+    if (!PLAN_TEMPLATE_NAME_PATTERN.test(name)) {
+        res.status(400).json({
+            error: 'Invalid template name',
+            message: 'Template names are 1-100 characters and cannot contain /, \\, ? or #'
         });
-    } catch (error: any) {
-        console.error('Error saving connection:', error);
-        res.status(500).json({
-            error: 'Failed to save connection',
+        return null;
+    }
+    return name;
+}
+
+/**
+ * Helper function to validate the body of a plan clone or plan-from-template request
+ */
+function validatePlanCopyOptions(body: any): string | null {
+    for (const field of ['name', 'iteration']) {
+        if (typeof body[field] !== 'string' || body[field].trim().length === 0) {
+            return 'name and iteration are required';
+        }
+    }
+    for (const field of ['areaPath', 'description', 'startDate', 'endDate']) {
+        if (body[field] !== undefined && typeof body[field] !== 'string') {
+            return `${field} must be a string`;
+        }
+    }
+    if (body.copyMode !== undefined && !TEST_CASE_COPY_MODES.includes(body.copyMode)) {
+        return `copyMode must be one of: ${TEST_CASE_COPY_MODES.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * Helper function to pick the plan copy options out of a validated request body
+ */
+function planCopyOptions(body: any): PlanCopyOptions {
+    const { name, iteration, areaPath, description, startDate, endDate, copyMode } = body;
+    return { name, iteration, areaPath, description, startDate, endDate, copyMode };
+}
+
+/**
+ * Helper function to run a plan copy with its progress streamed as Server-Sent Events.
+ * The copy is not cancelled when the client disconnects, since stopping midway would leave a partial plan.
+ */
+async function streamPlanCopy(res: Response, copy: (onProgress: PlanCopyProgressCallback) => Promise<PlanCopyResult>): Promise<void> {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+        if (!res.writableEnded) {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+    };
+
+    try {
+        sendEvent('done', await copy(progress => sendEvent('progress', progress)));
+    } catch (error: any) {
+        console.error('Error copying test plan:', error);
+        sendEvent('error', { statusCode: error.statusCode || 500, error: error.message, timestamp: new Date().toISOString() });
+    }
+
+    res.end();
+}
+
+// Test Plan Export and Import API Routes
+
+/**
+ * GET /api/testplans/:planId/export
+ * Download a plan's suites and test cases, with latest outcomes, for readers without ADO access
+ * Query params: format (csv | markdown | json | html, default json), suiteId? (export only that suite and its children)
+ */
+app.get('/api/testplans/:planId/export', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = req.query.suiteId !== undefined ? parseInt(req.query.suiteId as string) : undefined;
+        const format = (req.query.format as string) || 'json';
+
+        if (isNaN(planId) || (suiteId !== undefined && isNaN(suiteId))) {
+            return res.status(400).json({
+                error: 'Invalid ID',
+                message: 'Test plan ID and suiteId must be numbers'
+            });
+        }
+
+        if (!(TEST_PLAN_EXPORT_FORMATS as readonly string[]).includes(format)) {
+            return res.status(400).json({
+                error: 'Invalid format',
+                message: `format must be one of: ${TEST_PLAN_EXPORT_FORMATS.join(', ')}`
+            });
+        }
+
+        const exported = await new TestPlanExporter(adoClient!).export(planId, format as TestPlanExportFormat, suiteId);
+
+        res.setHeader('Content-Type', exported.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}"`);
+        res.send(exported.content);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/import
+ * Create a test plan from a JSON export, creating new copies of its test cases in this project
+ * Body: { snapshot, iteration, name?, areaPath? }
+ */
+app.post('/api/testplans/import', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { snapshot, iteration, name, areaPath } = req.body;
+
+        const snapshotError = TestPlanExporter.validateSnapshot(snapshot);
+        if (snapshotError) {
+            return res.status(400).json({
+                error: 'Invalid snapshot',
+                message: snapshotError
+            });
+        }
+
+        if (typeof iteration !== 'string' || iteration.trim().length === 0) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'iteration is required'
+            });
+        }
+
+        for (const [field, value] of Object.entries({ name, areaPath })) {
+            if (value !== undefined && typeof value !== 'string') {
+                return res.status(400).json({
+                    error: 'Invalid import request',
+                    message: `${field} must be a string`
+                });
+            }
+        }
+
+        const result = await new TestPlanExporter(adoClient!).importSnapshot(snapshot, { iteration, name, areaPath });
+
+        res.status(201).json({
+            success: true,
+            data: result,
+            message: `Test plan ${result.plan.id} created with ${Object.keys(result.createdTestCases).length} test case(s) from snapshot of plan ${snapshot.source?.planId}`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testcases
+ * Create new test case
+ * Body: { title, steps?, priority?, areaPath?, iterationPath? }
+ */
+app.post('/api/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { title, steps, priority, areaPath, iterationPath } = req.body;
+        
+        if (!title) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'title is required'
+            });
+        }
+        
+        const testCase = await adoClient!.createTestCase(title, steps, priority, areaPath, iterationPath);
+        
+        res.status(201).json({
+            success: true,
+            data: testCase,
+            message: 'Test case created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testcases/:id
+ * Get test case details by work item ID
+ * Query params: includeHistory (true to include the revision history)
+ */
+app.get('/api/testcases/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const testCaseDetails = await adoClient!.getTestCaseDetails(id, req.query.includeHistory === 'true');
+        res.json(testCaseDetails);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PATCH /api/testcases/:id
+ * Update test case fields and steps; rejected with 409 if the test case changed since `revision`
+ * Body: { revision: number, title?, priority?, state?, tags?: string[], areaPath?, iterationPath?, assignedTo?, acceptanceCriteria?, steps?: Array<{ id?, action?, expectedResult?, actionHtml?, expectedResultHtml?, sharedStepsId? }> }
+ */
+app.patch('/api/testcases/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { revision, ...update } = req.body;
+
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        if (!Number.isInteger(revision)) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'revision (from GET /api/testcases/:id) is required'
+            });
+        }
+
+        const validationError = validateTestCaseUpdate(update);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Invalid test case update',
+                message: validationError
+            });
+        }
+
+        const workItem = await adoClient!.updateTestCase(id, update as TestCaseUpdate, revision);
+
+        res.json({
+            success: true,
+            data: workItem,
+            message: `Test case updated to revision ${workItem.rev}`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/testcases/:id
+ * Remove a test case from suites, or permanently delete it
+ * Query params: mode (remove | destroy, default remove), planId & suiteId (remove from one suite only)
+ */
+app.delete('/api/testcases/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const mode = (req.query.mode as string | undefined) || 'remove';
+
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        if (mode !== 'remove' && mode !== 'destroy') {
+            return res.status(400).json({
+                error: 'Invalid mode',
+                message: 'mode must be remove or destroy'
+            });
+        }
+
+        if (mode === 'destroy') {
+            await adoClient!.destroyTestCase(id);
+            return res.json({
+                success: true,
+                message: `Test case ${id} deleted permanently`
+            });
+        }
+
+        let suite: { planId: number; suiteId: number } | undefined;
+        if (req.query.planId !== undefined || req.query.suiteId !== undefined) {
+            const planId = parseInt(req.query.planId as string);
+            const suiteId = parseInt(req.query.suiteId as string);
+            if (isNaN(planId) || isNaN(suiteId)) {
+                return res.status(400).json({
+                    error: 'Invalid IDs',
+                    message: 'planId and suiteId must both be numbers'
+                });
+            }
+            suite = { planId, suiteId };
+        }
+
+        const removedFrom = await adoClient!.removeTestCaseFromSuites(id, suite);
+
+        res.json({
+            success: true,
+            data: { removedFrom },
+            message: `Test case ${id} removed from ${removedFrom.length} suite(s)`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * Helper function to validate a test case update; returns an error message or null
+ */
+function validateTestCaseUpdate(update: any): string | null {
+    const textFields = ['title', 'state', 'areaPath', 'iterationPath'];
+    const unknown = Object.keys(update).filter(key => ![...textFields, 'priority', 'tags', 'assignedTo', 'acceptanceCriteria', 'steps'].includes(key));
+
+    if (unknown.length > 0) {
+        return `Unknown field(s): ${unknown.join(', ')}`;
+    }
+    if (Object.keys(update).length === 0) {
+        return 'No fields to update';
+    }
+    for (const field of textFields) {
+        if (update[field] !== undefined && (typeof update[field] !== 'string' || update[field].trim().length === 0)) {
+            return `${field} must be a non-empty string`;
+        }
+    }
+    for (const field of ['assignedTo', 'acceptanceCriteria']) {
+        if (update[field] !== undefined && update[field] !== null && typeof update[field] !== 'string') {
+            return `${field} must be a string or null`;
+        }
+    }
+    if (update.priority !== undefined && (!Number.isInteger(update.priority) || update.priority < 1 || update.priority > 4)) {
+        return 'priority must be 1, 2, 3 or 4';
+    }
+    if (update.tags !== undefined && (!Array.isArray(update.tags) || update.tags.some((tag: any) => typeof tag !== 'string'))) {
+        return 'tags must be an array of strings';
+    }
+    if (update.steps !== undefined) {
+        if (!Array.isArray(update.steps)) {
+            return 'steps must be an array';
+        }
+        for (let i = 0; i < update.steps.length; i++) {
+            const step = update.steps[i];
+            if (!step || typeof step !== 'object') {
+                return `steps[${i}] must be an object`;
+            }
+            for (const field of ['action', 'expectedResult', 'actionHtml', 'expectedResultHtml']) {
+                if (step[field] !== undefined && typeof step[field] !== 'string') {
+                    return `steps[${i}].${field} must be a string`;
+                }
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * POST /api/testcases/batch
+ * Get multiple test case details
+ * Body: { ids: number[] }
+ */
+app.post('/api/testcases/batch', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { ids } = req.body;
+        
+        if (!Array.isArray(ids) || ids.length === 0) {
+            return res.status(400).json({ error: 'ids array is required and cannot be empty' });
+        }
+
+        if (ids.length > 100) {
+            return res.status(400).json({ error: 'Maximum 100 test case IDs allowed per request' });
+        }
+
+        // Validate all IDs are numbers
+        const validIds = ids.filter(id => Number.isInteger(id) && id > 0);
+        if (validIds.length !== ids.length) {
+            return res.status(400).json({ error: 'All IDs must be positive integers' });
+        }
+
+        const testCaseDetails = await adoClient!.getMultipleTestCaseDetails(validIds);
+        res.json(testCaseDetails);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testcases/:id/automation
+ * Associate a test case with an automated test
+ * Body: { automatedTestName: string, automatedTestStorage?: string, automatedTestType?: string, automatedTestId?: string }
+ */
+app.put('/api/testcases/:id/automation', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { automatedTestName, automatedTestStorage, automatedTestType, automatedTestId } = req.body;
+
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        if (typeof automatedTestName !== 'string' || automatedTestName.trim().length === 0) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'automatedTestName is required'
+            });
+        }
+
+        const workItem = await adoClient!.setTestCaseAutomation(id, {
+            automatedTestName: automatedTestName.trim(),
+            automatedTestStorage,
+            automatedTestType,
+            automatedTestId
+        });
+
+        res.json({
+            success: true,
+            data: workItem,
+            message: 'Automated test linked successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/testcases/:id/automation
+ * Remove the automated test association of a test case
+ */
+app.delete('/api/testcases/:id/automation', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const workItem = await adoClient!.clearTestCaseAutomation(id);
+
+        res.json({
+            success: true,
+            data: workItem,
+            message: 'Automated test unlinked successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testcases/automation/manifest
+ * Bulk-associate test cases with automated tests from a manifest
+ * Body: { manifest: object | array } (see AutomationLinker for accepted shapes)
+ */
+app.post('/api/testcases/automation/manifest', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { entries, errors } = AutomationLinker.parseManifest(req.body?.manifest);
+
+        if (errors.length > 0) {
+            return res.status(400).json({
+                error: 'Invalid manifest',
+                message: errors.join('; ')
+            });
+        }
+
+        const linker = new AutomationLinker(adoClient!);
+        const report = await linker.applyManifest(entries);
+
+        res.json({
+            success: report.failedCount === 0,
+            data: report,
+            message: `${report.linkedCount} test case(s) linked, ${report.failedCount} failed`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/sharedsteps
+ * Create a Shared Steps work item
+ * Body: { title: string, steps: string ('1. Action|Expected' lines, @name for parameters), areaPath?, iterationPath? }
+ */
+app.post('/api/sharedsteps', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { title, steps, areaPath, iterationPath } = req.body;
+
+        if (!title || typeof steps !== 'string' || steps.trim().length === 0) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'title and steps are required'
+            });
+        }
+
+        if (/\[shared:\d+\]/i.test(steps)) {
+            return res.status(400).json({
+                error: 'Invalid steps',
+                message: 'Shared steps cannot reference other shared steps'
+            });
+        }
+
+        const sharedSteps = await adoClient!.createSharedSteps(title, steps, areaPath, iterationPath);
+
+        res.status(201).json({
+            success: true,
+            data: sharedSteps,
+            message: 'Shared steps created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/sharedsteps/:id
+ * Get a Shared Steps work item with parsed steps and parameters
+ */
+app.get('/api/sharedsteps/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid shared steps ID' });
+        }
+
+        const sharedSteps = await adoClient!.getSharedSteps(id);
+
+        res.json({
+            success: true,
+            data: sharedSteps
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testcases/:id/sharedsteps
+ * Insert a shared steps reference into a test case
+ * Body: { sharedStepsId: number, position?: number (0-based, default end) }
+ */
+app.post('/api/testcases/:id/sharedsteps', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const sharedStepsId = parseInt(req.body.sharedStepsId);
+        const position = req.body.position !== undefined ? parseInt(req.body.position) : undefined;
+
+        if (isNaN(id) || isNaN(sharedStepsId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Test case ID and sharedStepsId must be numbers'
+            });
+        }
+
+        if (position !== undefined && (isNaN(position) || position < 0)) {
+            return res.status(400).json({
+                error: 'Invalid position',
+                message: 'position must be a non-negative number'
+            });
+        }
+
+        const workItem = await adoClient!.insertSharedStepsReference(id, sharedStepsId, position);
+
+        res.json({
+            success: true,
+            data: workItem,
+            message: 'Shared steps inserted successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testcases/:id/parameters
+ * Define test case parameters and their data rows
+ * Body: { parameters: string[], rows: Array<Record<string, string>> }
+ */
+app.put('/api/testcases/:id/parameters', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { parameters, rows = [] } = req.body;
+
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        if (!Array.isArray(parameters) || !Array.isArray(rows)
+            || parameters.some((name: any) => typeof name !== 'string')
+            || rows.some((row: any) => !row || typeof row !== 'object' || Object.values(row).some(value => typeof value !== 'string' && typeof value !== 'number'))) {
+            return res.status(400).json({
+                error: 'Invalid parameters',
+                message: 'parameters must be an array of names and rows an array of { name: value } objects'
+            });
+        }
+
+        const normalizedRows = rows.map((row: Record<string, string | number>) =>
+            Object.fromEntries(Object.entries(row).map(([name, value]) => [name, String(value)])));
+        const validationError = TestCaseParameters.validate(parameters, normalizedRows);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Invalid parameters',
+                message: validationError
+            });
+        }
+
+        const workItem = await adoClient!.setTestCaseParameters(id, parameters, normalizedRows);
+
+        res.json({
+            success: true,
+            data: workItem,
+            message: `${parameters.length} parameter(s) with ${normalizedRows.length} data row(s) saved`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testcases/:id/expanded
+ * Get a test case with shared steps expanded and one concrete iteration per data row
+ */
+app.get('/api/testcases/:id/expanded', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const expanded = await adoClient!.getExpandedTestCase(id);
+
+        res.json({
+            success: true,
+            data: expanded
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testcases/:id/revisions
+ * List every revision of a test case: who changed it, when, and which fields
+ */
+app.get('/api/testcases/:id/revisions', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const revisions = await adoClient!.getTestCaseRevisions(id);
+
+        res.json({
+            success: true,
+            data: revisions,
+            count: revisions.length
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testcases/:id/revisions/diff
+ * Diff fields and steps between two revisions
+ * Query params: from (revision), to (revision, default latest)
+ */
+app.get('/api/testcases/:id/revisions/diff', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const from = parseInt(req.query.from as string);
+        const to = req.query.to !== undefined ? parseInt(req.query.to as string) : undefined;
+
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        if (isNaN(from) || (to !== undefined && isNaN(to)) || from < 1 || (to !== undefined && to < 1)) {
+            return res.status(400).json({
+                error: 'Invalid revisions',
+                message: 'from (and to, when given) must be revision numbers'
+            });
+        }
+
+        const history = new TestCaseHistory(adoClient!);
+        const diff = await history.diffRevisions(id, from, to);
+
+        res.json({
+            success: true,
+            data: diff
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testcases/:id/revisions/:revision
+ * Get a test case as it was at a revision
+ */
+app.get('/api/testcases/:id/revisions/:revision', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        const revision = parseInt(req.params.revision);
+
+        if (isNaN(id) || isNaN(revision)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Test case ID and revision must be numbers'
+            });
+        }
+
+        const testCaseRevision = await adoClient!.getTestCaseRevision(id, revision);
+
+        res.json({
+            success: true,
+            data: testCaseRevision
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites
+ * Get the suite hierarchy of a test plan
+ * Query params: includeTestCases (boolean, default true)
+ */
+app.get('/api/testplans/:planId/suites', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        
+        if (isNaN(planId)) {
+            return res.status(400).json({ 
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
+            });
+        }
+        
+        const includeTestCases = req.query.includeTestCases !== 'false'; // default true
+        const suites = await adoClient!.getTestSuiteHierarchy(planId, includeTestCases);
+        
+        res.json({
+            success: true,
+            data: suites,
+            planId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites
+ * Create a test suite
+ * Body: { name, parentSuiteId?, suiteType?, requirementId?, queryString? }
+ */
+app.post('/api/testplans/:planId/suites', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const { name, parentSuiteId, suiteType, requirementId, queryString } = req.body;
+        
+        if (isNaN(planId)) {
+            return res.status(400).json({ 
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
+            });
+        }
+        
+        if (typeof name !== 'string' || name.trim().length === 0) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'name is required and must be a non-empty string'
+            });
+        }
+        
+        if (parentSuiteId !== undefined && !Number.isInteger(parentSuiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid parent suite',
+                message: 'parentSuiteId must be a number'
+            });
+        }
+        
+        const validSuiteTypes = ['StaticTestSuite', 'RequirementTestSuite', 'DynamicTestSuite'];
+        if (suiteType && !validSuiteTypes.includes(suiteType)) {
+            return res.status(400).json({ 
+                error: 'Invalid suite type',
+                message: `suiteType must be one of: ${validSuiteTypes.join(', ')}`
+            });
+        }
+        
+        if (suiteType === 'RequirementTestSuite' && !Number.isInteger(requirementId)) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'requirementId (work item ID) is required for requirement-based suites'
+            });
+        }
+        
+        if (suiteType === 'DynamicTestSuite' && !queryString) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'queryString (WIQL) is required for query-based suites'
+            });
+        }
+        
+        const testSuite = await adoClient!.createTestSuite(planId, name, parentSuiteId, { suiteType, requirementId, queryString });
+        
+        res.status(201).json({
+            success: true,
+            data: testSuite,
+            message: 'Test suite created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId
+ * Get a test suite by ID
+ */
+app.get('/api/testplans/:planId/suites/:suiteId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        const testSuite = await adoClient!.getTestSuite(planId, suiteId);
+        
+        res.json({
+            success: true,
+            data: testSuite
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testplans/:planId/suites/:suiteId
+ * Update a test suite (rename, change query, reparent)
+ * Body: { name?, queryString?, parentSuiteId? }
+ */
+app.put('/api/testplans/:planId/suites/:suiteId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { name, queryString, parentSuiteId } = req.body;
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        if (name === undefined && queryString === undefined && parentSuiteId === undefined) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'At least one of name, queryString or parentSuiteId is required'
+            });
+        }
+        
+        if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+            return res.status(400).json({ 
+                error: 'Invalid name',
+                message: 'name must be a non-empty string'
+            });
+        }
+        
+        if (queryString !== undefined && typeof queryString !== 'string') {
+            return res.status(400).json({ 
+                error: 'Invalid query',
+                message: 'queryString must be a string'
+            });
+        }
+        
+        if (parentSuiteId !== undefined && !Number.isInteger(parentSuiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid parent suite',
+                message: 'parentSuiteId must be a number'
+            });
+        }
+        
+        if (parentSuiteId === suiteId) {
+            return res.status(400).json({ 
+                error: 'Invalid parent suite',
+                message: 'A test suite cannot be its own parent'
+            });
+        }
+        
+        const updatedSuite = await adoClient!.updateTestSuite(planId, suiteId, { name, queryString, parentSuiteId });
+        
+        res.json({
+            success: true,
+            data: updatedSuite,
+            message: 'Test suite updated successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/move
+ * Move a test suite under another parent suite
+ * Body: { parentSuiteId }
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/move', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { parentSuiteId } = req.body;
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        if (!Number.isInteger(parentSuiteId)) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'parentSuiteId is required and must be a number'
+            });
+        }
+        
+        if (parentSuiteId === suiteId) {
+            return res.status(400).json({ 
+                error: 'Invalid parent suite',
+                message: 'A test suite cannot be its own parent'
+            });
+        }
+        
+        const movedSuite = await adoClient!.moveTestSuite(planId, suiteId, parentSuiteId);
+        
+        res.json({
+            success: true,
+            data: movedSuite,
+            message: 'Test suite moved successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/testplans/:planId/suites/:suiteId
+ * Delete a test suite
+ */
+app.delete('/api/testplans/:planId/suites/:suiteId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        await adoClient!.deleteTestSuite(planId, suiteId);
+        
+        res.json({
+            success: true,
+            message: 'Test suite deleted successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/testcases
+ * Add test cases to suite
+ * Body: { testCaseIds: string[] | string }
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { testCaseIds } = req.body;
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        if (!testCaseIds) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'testCaseIds is required'
+            });
+        }
+        
+        const result = await adoClient!.addTestCasesToSuite(planId, suiteId, testCaseIds);
+        
+        res.json({
+            success: true,
+            data: result,
+            message: 'Test cases added to suite successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId/testcases
+ * Get test cases from suite
+ */
+app.get('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        const testCases = await adoClient!.getTestCaseList(planId, suiteId);
+        
+        res.json({
+            success: true,
+            data: testCases,
+            count: testCases.length,
+            planId,
+            suiteId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/testcases/import
+ * Bulk-create test cases from CSV (ADO export layout), Markdown checklists or Gherkin and add them to the suite
+ * Body (JSON): { content: string, format?: 'csv' | 'markdown' | 'gherkin', fileName?: string, dryRun?: boolean, areaPath?: string, iterationPath?: string, tags?: string[], skipInvalid?: boolean, batchSize?: number }
+ * Body (raw text): the file itself, with the options above as query params (tags comma-separated)
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/testcases/import', ensureClientInitialized, express.text({ type: ['text/csv', 'text/markdown', 'text/x-gherkin', 'text/plain'], limit: process.env.JSON_BODY_LIMIT || '10mb' }), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const rawUpload = typeof req.body === 'string';
+        const options = rawUpload ? req.query as Record<string, any> : req.body;
+        const content = rawUpload ? req.body : req.body.content;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (typeof content !== 'string' || content.trim().length === 0) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'Send the file as the request body (text) or as the "content" field of a JSON body'
+            });
+        }
+
+        if (options.format !== undefined && !TEST_CASE_IMPORT_FORMATS.includes(options.format)) {
+            return res.status(400).json({
+                error: 'Invalid format',
+                message: `format must be one of ${TEST_CASE_IMPORT_FORMATS.join(', ')}`
+            });
+        }
+
+        const tags = typeof options.tags === 'string' ? options.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean) : options.tags;
+        if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag: any) => typeof tag !== 'string'))) {
+            return res.status(400).json({
+                error: 'Invalid tags',
+                message: 'tags must be an array of strings'
+            });
+        }
+
+        const batchSize = options.batchSize !== undefined ? parseInt(options.batchSize) : undefined;
+        if (batchSize !== undefined && (isNaN(batchSize) || batchSize < 1 || batchSize > 200)) {
+            return res.status(400).json({
+                error: 'Invalid batchSize',
+                message: 'batchSize must be a number between 1 and 200'
+            });
+        }
+
+        const skipInvalid = options.skipInvalid === true || options.skipInvalid === 'true';
+        const report = await new TestCaseImporter(adoClient!).import(planId, suiteId, content, {
+            format: options.format,
+            fileName: options.fileName,
+            dryRun: options.dryRun === true || options.dryRun === 'true',
+            areaPath: options.areaPath,
+            iterationPath: options.iterationPath,
+            tags,
+            skipInvalid,
+            batchSize
+        });
+
+        if (report.dryRun) {
+            return res.json({
+                success: true,
+                data: report,
+                message: `Dry run: ${report.validCount} of ${report.totalCount} test case(s) are valid`
+            });
+        }
+
+        if (report.invalidCount > 0 && !skipInvalid) {
+            return res.status(400).json({
+                error: 'Invalid test cases',
+                message: `${report.invalidCount} test case(s) have errors; nothing was created. Fix them, or set skipInvalid to import the rest.`,
+                data: report
+            });
+        }
+
+        res.status(report.createdCount > 0 ? 201 : 200).json({
+            success: true,
+            data: report,
+            message: `Created ${report.createdCount} test case(s), added ${report.addedToSuiteCount} to suite ${suiteId}`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId/feature
+ * Download the suite's test cases as a Gherkin feature file, one scenario per test case tagged with its ID
+ */
+app.get('/api/testplans/:planId/suites/:suiteId/feature', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        const feature = await new GherkinSync(adoClient!).writeSuiteFeature(planId, suiteId);
+
+        res.setHeader('Content-Type', 'text/x-gherkin; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${feature.fileName}"`);
+        res.send(feature.content);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/gherkin/sync
+ * Sync a directory of feature files with a suite: scenarios are matched to test cases by @TC-123 tags,
+ * untagged scenarios create test cases and test cases no scenario refers to are reported as orphans
+ * Body: { files: [{ path, content }], dryRun?: boolean, areaPath?: string, iterationPath?: string, removeOrphans?: boolean }
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/gherkin/sync', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { files, dryRun, areaPath, iterationPath, removeOrphans } = req.body;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (!Array.isArray(files) || files.length === 0
+            || files.some((file: any) => typeof file?.path !== 'string' || !file.path.trim() || typeof file.content !== 'string')) {
+            return res.status(400).json({
+                error: 'Invalid files',
+                message: 'files must be a non-empty array of { path, content } strings'
+            });
+        }
+
+        const paths = files.map((file: any) => file.path);
+        const duplicate = paths.find((path: string, index: number) => paths.indexOf(path) !== index);
+        if (duplicate) {
+            return res.status(400).json({
+                error: 'Invalid files',
+                message: `File "${duplicate}" is listed more than once`
+            });
+        }
+
+        for (const [field, value] of Object.entries({ areaPath, iterationPath })) {
+            if (value !== undefined && typeof value !== 'string') {
+                return res.status(400).json({
+                    error: 'Invalid sync request',
+                    message: `${field} must be a string`
+                });
+            }
+        }
+
+        const report = await new GherkinSync(adoClient!).sync(planId, suiteId, files, {
+            dryRun: dryRun === true,
+            areaPath,
+            iterationPath,
+            removeOrphans: removeOrphans === true
+        });
+
+        res.json({
+            success: true,
+            data: report,
+            message: `${report.dryRun ? 'Dry run: ' : ''}${report.createdCount} created, ${report.updatedCount} updated, ` +
+                `${report.unchangedCount} unchanged, ${report.orphanedCount} orphaned`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/builds/:buildId/testresults
+ * Get test results for build
+ */
+app.get('/api/builds/:buildId/testresults', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const buildId = parseInt(req.params.buildId);
+        
+        if (isNaN(buildId)) {
+            return res.status(400).json({ 
+                error: 'Invalid build ID',
+                message: 'Build ID must be a number'
+            });
+        }
+        
+        const testResults = await adoClient!.getTestResultsFromBuildId(buildId);
+        
+        res.json({
+            success: true,
+            data: testResults,
+            buildId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/builds/:buildId/testresults/summary
+ * Pass/fail/skip counts, pass rate, duration percentiles and slowest tests of a build
+ * Query params: slowest (number of slowest tests, default 10)
+ */
+app.get('/api/builds/:buildId/testresults/summary', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const buildId = parseInt(req.params.buildId);
+        const slowest = req.query.slowest !== undefined ? parseInt(req.query.slowest as string) : 10;
+
+        if (isNaN(buildId)) {
+            return res.status(400).json({
+                error: 'Invalid build ID',
+                message: 'Build ID must be a number'
+            });
+        }
+
+        if (isNaN(slowest) || slowest < 0) {
+            return res.status(400).json({
+                error: 'Invalid slowest',
+                message: 'slowest must be a non-negative number'
+            });
+        }
+
+        const analytics = new TestResultsAnalytics(adoClient!);
+        const summary = await analytics.summarizeBuild(buildId, slowest);
+
+        res.json({
+            success: true,
+            data: summary,
+            buildId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/builds/compare
+ * Compare the test results of two builds
+ * Query params: base (build ID), target (build ID), slowest (optional)
+ */
+app.get('/api/builds/compare', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const baseBuildId = parseInt(req.query.base as string);
+        const targetBuildId = parseInt(req.query.target as string);
+        const slowest = req.query.slowest !== undefined ? parseInt(req.query.slowest as string) : 10;
+
+        if (isNaN(baseBuildId) || isNaN(targetBuildId)) {
+            return res.status(400).json({
+                error: 'Invalid build IDs',
+                message: 'base and target query params must be build IDs'
+            });
+        }
+
+        if (isNaN(slowest) || slowest < 0) {
+            return res.status(400).json({
+                error: 'Invalid slowest',
+                message: 'slowest must be a non-negative number'
+            });
+        }
+
+        const analytics = new TestResultsAnalytics(adoClient!);
+        const comparison = await analytics.compareBuilds(baseBuildId, targetBuildId, slowest);
+
+        res.json({
+            success: true,
+            data: comparison
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/builds/trends
+ * Test result trends across builds
+ * Query params: buildIds (comma-separated) or definitionId with top (default 10) and branch (optional)
+ */
+app.get('/api/builds/trends', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const buildIds = req.query.buildIds ? (req.query.buildIds as string).split(',').map(id => parseInt(id.trim())) : undefined;
+        const definitionId = req.query.definitionId !== undefined ? parseInt(req.query.definitionId as string) : undefined;
+        const top = req.query.top !== undefined ? parseInt(req.query.top as string) : 10;
+        const branchName = req.query.branch as string | undefined;
+
+        if (!buildIds && definitionId === undefined) {
+            return res.status(400).json({
+                error: 'Missing required query param',
+                message: 'Either buildIds or definitionId is required'
+            });
+        }
+
+        if (buildIds?.some(id => isNaN(id)) || (definitionId !== undefined && isNaN(definitionId)) || isNaN(top) || top < 1 || top > 100) {
+            return res.status(400).json({
+                error: 'Invalid query params',
+                message: 'buildIds and definitionId must be numbers and top must be between 1 and 100'
+            });
+        }
+
+        const analytics = new TestResultsAnalytics(adoClient!);
+        const trend = await analytics.buildTrend({ buildIds, definitionId, top, branchName });
+
+        res.json({
+            success: true,
+            data: trend,
+            count: trend.builds.length
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Flaky Test API Routes
+
+/**
+ * GET /api/flaky
+ * Detect flaky tests across builds
+ * Query params: buildIds (comma-separated) or definitionId with top (default 20) and branch; minRuns (default 3), threshold (0-1, default 0.2)
+ */
+app.get('/api/flaky', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { options, error } = parseFlakyOptions(req.query);
+        if (error) {
+            return res.status(400).json({
+                error: 'Invalid query params',
+                message: error
+            });
+        }
+
+        const analyzer = new FlakyTestAnalyzer(adoClient!);
+        const report = await analyzer.analyze(options!);
+
+        res.json({
+            success: true,
+            data: report,
+            count: report.flakyTests.length
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/flaky
+ * Detect flaky tests and optionally create or update a tracking work item per flaky test
+ * Body: { buildIds?: number[], definitionId?: number, top?: number, branch?: string, minRuns?: number, threshold?: number,
+ *         trackWorkItems?: boolean, workItemType?: string, areaPath?: string, iterationPath?: string }
+ */
+app.post('/api/flaky', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { options, error } = parseFlakyOptions(req.body);
+        if (error) {
+            return res.status(400).json({
+                error: 'Invalid request body',
+                message: error
+            });
+        }
+
+        const analyzer = new FlakyTestAnalyzer(adoClient!);
+        let report = await analyzer.analyze(options!);
+
+        if (req.body.trackWorkItems) {
+            const { workItemType, areaPath, iterationPath } = req.body;
+            report = await analyzer.trackFlakyTests(report, { workItemType, areaPath, iterationPath });
+        }
+
+        res.json({
+            success: true,
+            data: report,
+            count: report.flakyTests.length
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * Helper function to read flaky analysis options from query params or a JSON body
+ */
+function parseFlakyOptions(source: any): { options?: FlakyAnalysisOptions; error?: string } {
+    const toNumber = (value: any) => value !== undefined && value !== '' ? Number(value) : undefined;
+    const buildIds = source.buildIds === undefined
+        ? undefined
+        : (Array.isArray(source.buildIds) ? source.buildIds : String(source.buildIds).split(',')).map((id: any) => parseInt(String(id).trim()));
+
+    const options: FlakyAnalysisOptions = {
+        buildIds,
+        definitionId: toNumber(source.definitionId),
+        top: toNumber(source.top),
+        branchName: source.branch,
+        minRuns: toNumber(source.minRuns),
+        threshold: toNumber(source.threshold)
+    };
+
+    if (!options.buildIds && options.definitionId === undefined) {
+        return { error: 'Either buildIds or definitionId is required' };
+    }
+    if (options.buildIds && (options.buildIds.length < 2 || options.buildIds.some(id => isNaN(id)))) {
+        return { error: 'buildIds must list at least two build IDs' };
+    }
+    if (options.definitionId !== undefined && !Number.isInteger(options.definitionId)) {
+        return { error: 'definitionId must be a number' };
+    }
+    if (options.top !== undefined && (!Number.isInteger(options.top) || options.top < 2 || options.top > 100)) {
+        return { error: 'top must be between 2 and 100' };
+    }
+    if (options.minRuns !== undefined && (!Number.isInteger(options.minRuns) || options.minRuns < 2)) {
+        return { error: 'minRuns must be an integer of at least 2' };
+    }
+    if (options.threshold !== undefined && (isNaN(options.threshold) || options.threshold < 0 || options.threshold > 1)) {
+        return { error: 'threshold must be between 0 and 1' };
+    }
+
+    return { options };
+}
+
+// Playwright Generation API Routes
+
+/**
+ * POST /api/testcases/:id/playwright
+ * Generate a Playwright spec skeleton from a test case
+ * Body: { baseUrl?: string, resourceId?: string, useLlm?: boolean, fileName?: string }
+ * Query params: format (json | ts, default json)
+ */
+app.post('/api/testcases/:id/playwright', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const resolved = await resolvePlaywrightRequest(req);
+        if ('error' in resolved) {
+            return res.status(resolved.statusCode).json({ error: resolved.error, message: resolved.message });
+        }
+
+        const spec = await resolved.generator.generateForTestCase(id, { baseUrl: resolved.baseUrl, fileName: resolved.fileName });
+        sendPlaywrightSpec(res, spec, req.query.format as string | undefined);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/playwright
+ * Generate one Playwright spec skeleton for all test cases of a suite
+ * Body: { baseUrl?: string, resourceId?: string, useLlm?: boolean, fileName?: string }
+ * Query params: format (json | ts, default json)
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/playwright', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        const resolved = await resolvePlaywrightRequest(req);
+        if ('error' in resolved) {
+            return res.status(resolved.statusCode).json({ error: resolved.error, message: resolved.message });
+        }
+
+        const spec = await resolved.generator.generateForSuite(planId, suiteId, { baseUrl: resolved.baseUrl, fileName: resolved.fileName });
+        sendPlaywrightSpec(res, spec, req.query.format as string | undefined);
+    } catch (error) {
+        next(error);
+    }
+});
+
+const PLAYWRIGHT_FILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,99}$/;
+
+/**
+ * Helper function to resolve the site under test (body or saved connection) and build the generator.
+ * The LLM provider is only created when useLlm is set, so stub generation works without LLM configuration.
+ */
+async function resolvePlaywrightRequest(req: Request): Promise<{ generator: PlaywrightSpecGenerator; baseUrl: string; fileName?: string } | { statusCode: number; error: string; message: string }> {
+    const { resourceId, useLlm, fileName } = req.body;
+    const format = (req.query.format as string) || 'json';
+
+    if (format !== 'json' && format !== 'ts') {
+        return { statusCode: 400, error: 'Invalid format', message: 'format must be json or ts' };
+    }
+    if (req.body.baseUrl !== undefined && typeof req.body.baseUrl !== 'string') {
+        return { statusCode: 400, error: 'Invalid baseUrl', message: 'baseUrl must be a string' };
+    }
+    // The file name ends up in the Content-Disposition header, so only a plain file name is accepted
+    if (fileName !== undefined && (typeof fileName !== 'string' || !PLAYWRIGHT_FILE_NAME_PATTERN.test(fileName))) {
+        return {
+            statusCode: 400,
+            error: 'Invalid fileName',
+            message: 'fileName must be a file name of up to 100 letters, digits, dots, dashes and underscores, e.g. checkout.spec.ts'
+        };
+    }
+
+    let baseUrl: string | undefined = req.body.baseUrl;
+    if (!baseUrl && resourceId) {
+        baseUrl = (await storage.getConnection(resourceId))?.website_url;
+    }
+
+    if (!baseUrl) {
+        return { statusCode: 400, error: 'Missing required field', message: 'baseUrl, or the resourceId of a saved connection with a website_url, is required' };
+    }
+
+    try {
+        const provider = useLlm ? createLlmProvider() : undefined;
+        return { generator: new PlaywrightSpecGenerator(adoClient!, provider), baseUrl, fileName };
+    } catch (error) {
+        return { statusCode: 503, error: 'LLM provider unavailable', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+/**
+ * Helper function to send a generated spec as JSON or as a .spec.ts download
+ */
+function sendPlaywrightSpec(res: Response, spec: GeneratedPlaywrightSpec, format: string = 'json'): void {
+    if (format === 'ts') {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${spec.fileName}"`);
+        res.send(spec.content);
+        return;
+    }
+
+    res.json({
+        success: true,
+        data: spec
+    });
+}
+
+// Test Configuration API Routes
+
+/**
+ * GET /api/testconfigurations
+ * Get all test configurations of the project
+ */
+app.get('/api/testconfigurations', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const configurations = await adoClient!.getTestConfigurations();
+
+        res.json({
+            success: true,
+            data: configurations,
+            count: configurations.length
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testconfigurations
+ * Create a test configuration
+ * Body: { name: string, values: { [variable: string]: string }, description?: string, isDefault?: boolean }
+ */
+app.post('/api/testconfigurations', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { name, values, description, isDefault } = req.body;
+
+        if (!name || typeof name !== 'string') {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'name is required'
+            });
+        }
+
+        if (!values || typeof values !== 'object' || Array.isArray(values) || Object.keys(values).length === 0
+            || Object.values(values).some(value => typeof value !== 'string')) {
+            return res.status(400).json({
+                error: 'Invalid values',
+                message: 'values must map configuration variables to values, e.g. { "Browser": "Edge" }'
+            });
+        }
+
+        const configuration = await adoClient!.createTestConfiguration(name, values, description, isDefault === true);
+
+        res.status(201).json({
+            success: true,
+            data: configuration,
+            message: 'Test configuration created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testplans/:planId/suites/:suiteId/configurations
+ * Set the default configurations of a suite
+ * Body: { configurationIds: number[] } or { inherit: true }
+ */
+app.put('/api/testplans/:planId/suites/:suiteId/configurations', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { configurationIds, inherit } = req.body;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (inherit !== true && !isIdList(configurationIds)) {
+            return res.status(400).json({
+                error: 'Invalid configurations',
+                message: 'configurationIds must be a non-empty array of numbers, or set inherit to true'
+            });
+        }
+
+        const suite = await adoClient!.setSuiteConfigurations(planId, suiteId, inherit === true ? null : configurationIds);
+
+        res.json({
+            success: true,
+            data: suite,
+            message: 'Suite configurations updated successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testplans/:planId/suites/:suiteId/testcases/configurations
+ * Set the configurations of test cases in a suite (one test point per test case and configuration)
+ * Body: { testCaseIds: number[], configurationIds: number[] }
+ */
+app.put('/api/testplans/:planId/suites/:suiteId/testcases/configurations', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { testCaseIds, configurationIds } = req.body;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (!isIdList(testCaseIds) || !isIdList(configurationIds)) {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: 'testCaseIds and configurationIds must be non-empty arrays of numbers'
+            });
+        }
+
+        const testCases = await adoClient!.setTestCaseConfigurations(planId, suiteId, testCaseIds, configurationIds);
+
+        res.json({
+            success: true,
+            data: testCases,
+            message: `${configurationIds.length} configuration(s) assigned to ${testCaseIds.length} test case(s)`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testplans/:planId/suites/:suiteId/points/testers
+ * Assign testers to test points
+ * Body: { assignments: Array<{ pointIds: number[], tester: { id: string, displayName?: string } }> }
+ */
+app.put('/api/testplans/:planId/suites/:suiteId/points/testers', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { assignments } = req.body;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (!Array.isArray(assignments) || assignments.length === 0) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'assignments must be a non-empty array'
+            });
+        }
+
+        for (let i = 0; i < assignments.length; i++) {
+            if (!isIdList(assignments[i]?.pointIds) || typeof assignments[i].tester?.id !== 'string' || assignments[i].tester.id.trim().length === 0) {
+                return res.status(400).json({
+                    error: 'Invalid assignment',
+                    message: `assignments[${i}] needs pointIds (array of numbers) and tester.id`
+                });
+            }
+        }
+
+        const points = await adoClient!.assignTesters(planId, suiteId, assignments);
+
+        res.json({
+            success: true,
+            data: points,
+            message: `Testers assigned to ${points.length} test point(s)`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * Helper function to check for a non-empty array of numeric IDs
+ */
+function isIdList(value: any): value is number[] {
+    return Array.isArray(value) && value.length > 0 && value.every(id => Number.isInteger(id) && id > 0);
+}
+
+// Test Runs API Routes
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId/points
+ * Get the test points of a suite with configuration, tester and current outcome
+ * Query params: testCaseId, configurationId, outcome (all optional)
+ */
+app.get('/api/testplans/:planId/suites/:suiteId/points', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const testCaseId = req.query.testCaseId !== undefined ? parseInt(req.query.testCaseId as string) : undefined;
+        const configurationId = req.query.configurationId !== undefined ? parseInt(req.query.configurationId as string) : undefined;
+        const outcome = req.query.outcome as string | undefined;
+
+        if (isNaN(planId) || isNaN(suiteId) || (testCaseId !== undefined && isNaN(testCaseId)) || (configurationId !== undefined && isNaN(configurationId))) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID, Suite ID, testCaseId and configurationId must be numbers'
+            });
+        }
+
+        const points = (await adoClient!.getTestPointSummaries(planId, suiteId, testCaseId))
+            .filter(point => configurationId === undefined || point.configurationId === configurationId)
+            .filter(point => outcome === undefined || point.outcome.toLowerCase() === outcome.toLowerCase());
+
+        res.json({
+            success: true,
+            data: points,
+            count: points.length,
+            planId,
+            suiteId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testruns
+ * Create a test run from a suite's test points or explicit point IDs
+ * Body: { planId: number, name: string, suiteId?: number, pointIds?: number[], comment?: string, buildId?: number, automated?: boolean }
+ */
+app.post('/api/testruns', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { planId, name, suiteId, pointIds, comment, buildId, automated } = req.body;
+
+        if (!planId || !name) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'planId and name are required'
+            });
+        }
+
+        if (suiteId === undefined && (!Array.isArray(pointIds) || pointIds.length === 0)) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'Either suiteId or a non-empty pointIds array is required'
+            });
+        }
+
+        const parsedPointIds = Array.isArray(pointIds) ? pointIds.map((id: any) => parseInt(id)) : undefined;
+        if (isNaN(parseInt(planId)) || (suiteId !== undefined && isNaN(parseInt(suiteId))) || parsedPointIds?.some(id => isNaN(id))) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'planId, suiteId and pointIds must be numbers'
+            });
+        }
+
+        const run = await adoClient!.createTestRun(parseInt(planId), name, {
+            suiteId: suiteId !== undefined ? parseInt(suiteId) : undefined,
+            pointIds: parsedPointIds,
+            comment,
+            buildId: buildId !== undefined ? parseInt(buildId) : undefined,
+            automated
+        });
+
+        res.status(201).json({
+            success: true,
+            data: run,
+            message: 'Test run created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testruns/:runId
+ * Get a test run with its results
+ */
+app.get('/api/testruns/:runId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        const [run, results] = await Promise.all([
+            adoClient!.getTestRun(runId),
+            adoClient!.getTestRunResults(runId)
+        ]);
+
+        res.json({
+            success: true,
+            data: { run, results }
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testruns/:runId/results
+ * Record outcomes for results of a test run
+ * Body: { results: [{ resultId: number, outcome?: string, comment?: string, durationInMs?: number, errorMessage?: string, steps?: [{ stepId, outcome, comment? }] }] }
+ */
+app.put('/api/testruns/:runId/results', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+        const { results } = req.body;
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        if (!Array.isArray(results) || results.length === 0) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'results must be a non-empty array'
+            });
+        }
+
+        const validationError = validateResultUpdates(results);
+        if (validationError) {
+            return res.status(400).json({
+                error: 'Invalid results',
+                message: validationError
+            });
+        }
+
+        const updated = await adoClient!.updateTestResults(runId, results);
+
+        res.json({
+            success: true,
+            data: updated,
+            message: `${updated.length} result(s) updated successfully`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testruns/:runId/attachments
+ * Attach evidence to a test run
+ * Body: { fileName: string, content: string (base64), comment?: string, attachmentType?: string }
+ */
+app.post('/api/testruns/:runId/attachments', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+        const { fileName, content, comment, attachmentType } = req.body;
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        if (!fileName || typeof content !== 'string' || content.length === 0) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'fileName and base64 content are required'
+            });
+        }
+
+        if (!isBase64(content)) {
+            return res.status(400).json({
+                error: 'Invalid content',
+                message: 'content must be base64-encoded'
+            });
+        }
+
+        const attachment = await adoClient!.addTestRunAttachment(runId, { fileName, content, comment, attachmentType });
+
+        res.status(201).json({
+            success: true,
+            data: attachment,
+            message: 'Attachment added to test run successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testruns/:runId/results/:resultId/attachments
+ * Attach evidence to a single test result
+ * Body: { fileName: string, content: string (base64), comment?: string, attachmentType?: string }
+ */
+app.post('/api/testruns/:runId/results/:resultId/attachments', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+        const resultId = parseInt(req.params.resultId);
+        const { fileName, content, comment, attachmentType } = req.body;
+
+        if (isNaN(runId) || isNaN(resultId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Run ID and Result ID must be numbers'
+            });
+        }
+
+        if (!fileName || typeof content !== 'string' || content.length === 0) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'fileName and base64 content are required'
+            });
+        }
+
+        if (!isBase64(content)) {
+            return res.status(400).json({
+                error: 'Invalid content',
+                message: 'content must be base64-encoded'
+            });
+        }
+
+        const attachment = await adoClient!.addTestResultAttachment(runId, resultId, { fileName, content, comment, attachmentType });
+
+        res.status(201).json({
+            success: true,
+            data: attachment,
+            message: 'Attachment added to test result successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testruns/:runId/complete
+ * Mark a test run as completed
+ * Body: { comment?: string }
+ */
+app.post('/api/testruns/:runId/complete', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        const run = await adoClient!.completeTestRun(runId, req.body?.comment);
+
+        res.json({
+            success: true,
+            data: run,
+            message: 'Test run completed successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/results/import
+ * Publish a JUnit XML, TRX or Playwright JSON report as a test run against the suite's test cases
+ * Body (JSON): { content: string | object, format?: 'junit' | 'trx' | 'playwright', runName?: string, buildId?: number, autoCreate?: boolean, matchThreshold?: number, keepRunOpen?: boolean }
+ * Body (raw XML or text): the report itself, with the options above as query params
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/results/import', ensureClientInitialized, express.text({ type: ['application/xml', 'text/xml', 'text/plain'], limit: process.env.JSON_BODY_LIMIT || '10mb' }), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const rawUpload = typeof req.body === 'string';
+        const options = rawUpload ? req.query as Record<string, any> : req.body;
+        const content = rawUpload ? req.body : req.body.content;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (!content || (typeof content !== 'string' && typeof content !== 'object')) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'Send the report as the request body (XML/text) or as the "content" field of a JSON body'
+            });
+        }
+
+        if (options.format !== undefined && !TEST_RESULT_FORMATS.includes(options.format)) {
+            return res.status(400).json({
+                error: 'Invalid format',
+                message: `format must be one of ${TEST_RESULT_FORMATS.join(', ')}`
+            });
+        }
+
+        const matchThreshold = options.matchThreshold !== undefined ? parseFloat(options.matchThreshold) : undefined;
+        if (matchThreshold !== undefined && (isNaN(matchThreshold) || matchThreshold < 0 || matchThreshold > 1)) {
+            return res.status(400).json({
+                error: 'Invalid matchThreshold',
+                message: 'matchThreshold must be a number between 0 and 1'
+            });
+        }
+
+        const importer = new TestResultImporter(adoClient!);
+        const report = await importer.import(planId, suiteId, content, {
+            format: options.format,
+            runName: options.runName,
+            buildId: options.buildId !== undefined ? parseInt(options.buildId) : undefined,
+            autoCreate: options.autoCreate === true || options.autoCreate === 'true',
+            keepRunOpen: options.keepRunOpen === true || options.keepRunOpen === 'true',
+            matchThreshold
+        });
+
+        res.status(report.runId !== undefined ? 201 : 200).json({
+            success: true,
+            data: report,
+            message: report.runId !== undefined
+                ? `Published test run ${report.runId}: ${report.matchedCount} matched, ${report.createdCount} created, ${report.unmatchedCount} unmatched`
+                : 'No results matched a test case in the suite; no test run was published'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * Helper function to check attachment content is base64 (whitespace such as line breaks is allowed)
+ */
+function isBase64(content: string): boolean {
+    const compact = content.replace(/\s+/g, '');
+    return compact.length > 0 && compact.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(compact);
+}
+
+/**
+ * Helper function to validate result updates; returns an error message or null
+ */
+function validateResultUpdates(results: any[]): string | null {
+    const outcomes: readonly string[] = TEST_OUTCOMES;
+
+    for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        if (typeof result?.resultId !== 'number') {
+            return `results[${i}].resultId must be a number`;
+        }
+        if (result.outcome !== undefined && !outcomes.includes(result.outcome)) {
+            return `results[${i}].outcome must be one of ${TEST_OUTCOMES.join(', ')}`;
+        }
+        if (result.durationInMs !== undefined && (typeof result.durationInMs !== 'number' || result.durationInMs < 0)) {
+            return `results[${i}].durationInMs must be a non-negative number`;
+        }
+        if (result.steps !== undefined) {
+            if (!Array.isArray(result.steps)) {
+                return `results[${i}].steps must be an array`;
+            }
+            for (let j = 0; j < result.steps.length; j++) {
+                const step = result.steps[j];
+                if (!/^\d+(\.\d+)?$/.test(String(step?.stepId ?? ''))) {
+                    return `results[${i}].steps[${j}].stepId must be a step ID, or '<shared steps reference id>.<step id>' for a step inside shared steps`;
+                }
+                if (!outcomes.includes(step.outcome)) {
+                    return `results[${i}].steps[${j}].outcome must be one of ${TEST_OUTCOMES.join(', ')}`;
+                }
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * GET /api/testplans/recommendations/history
+ * Get previously generated recommendations, newest first
+ * Query params: testPlanId (optional)
+ */
+app.get('/api/testplans/recommendations/history', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const testPlanId = req.query.testPlanId as string | undefined;
+        const history = await storage.getRecommendationHistory(testPlanId);
+        
+        res.json({
+            success: true,
+            data: history,
+            count: history.length
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * Fetch the existing test cases of a plan's root suite for the recommendation prompt.
+ * Failures are logged and yield an empty list so recommendations still work without ADO data.
+ */
+async function fetchExistingTestCases(planId: any): Promise<any[]> {
+    let existingTestPlans: any[] = [];
+    if (!adoClient) {
+        console.warn('Azure DevOps client not initialized; generating recommendations without existing test cases');
+        return existingTestPlans;
+    }
+    try {
+        // Get test plan details
+        const testPlanResponse = await adoClient!.getTestPlan(planId);
+        
+        // Get test cases from the test plan
+        if (testPlanResponse && testPlanResponse.rootSuite?.id) {
+            const testCasesResponse = await adoClient!.getTestCaseList(planId, testPlanResponse.rootSuite.id);
+            existingTestPlans = testCasesResponse || [];
+        }
+        
+        console.log(`Found ${existingTestPlans.length} existing test cases in test plan ${planId}`);
+    } catch (adoError) {
+        console.warn('Could not fetch existing test plans from Azure DevOps:', adoError);
+        // Continue with empty existing plans - this allows the API to work even if ADO fetch fails
+    }
+    return existingTestPlans;
+}
+
+/**
+ * Save a generation to the recommendation history and build the response payload
+ */
+async function recordRecommendations(planId: any, prd: string, existingTestPlans: any[], recommendations: TestPlanRecommendation[]) {
+    const generatedAt = new Date().toISOString();
+    const historyId = Math.random().toString(36).substr(2, 10);
+    try {
+        await storage.saveRecommendations({
+            id: historyId,
+            testPlanId: planId.toString(),
+            prdLength: prd.length,
+            existingTestCasesCount: existingTestPlans.length,
+            recommendations,
+            generatedAt
+        });
+    } catch (storageError) {
+        console.warn('Could not save recommendation history:', storageError);
+    }
+    
+    return {
+        testPlanId: planId,
+        prdLength: prd.length,
+        existingTestCasesCount: existingTestPlans.length,
+        recommendations,
+        generatedAt,
+        historyId
+    };
+}
+
+/**
+ * Map recommendation generation errors to a status code and user-facing message
+ */
+function describeRecommendationError(error: any): { statusCode: number; errorMessage: string } {
+    // Provide more specific error messages
+    let errorMessage = 'Failed to generate test plan recommendations';
+    let statusCode = 500;
+    
+    if (error.message?.includes('configuration missing')) {
+        errorMessage = 'The LLM provider is not properly configured';
+        statusCode = 503;
+    } else if (error.message?.includes('Failed to parse recommendations')) {
+        errorMessage = 'The LLM provider returned invalid response format';
+        statusCode = 502;
+    } else if (error.message?.includes('Failed to generate recommendations')) {
+        errorMessage = error.message;
+        statusCode = 502;
+    }
+    
+    return { statusCode, errorMessage };
+}
+
+// POST /api/testplans/recommendations - Generate test plan recommendations based on PRD
+app.post('/api/testplans/recommendations', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { prd, testPlanId } = req.body;
+        
+        // Validate required fields
+        if (!prd) {
+            return res.status(400).json({
+                success: false,
+                error: 'PRD (Product Requirements Document) is required'
+            });
+        }
+        
+        // Use testPlanId from request body or fallback to environment variable
+        const planId = testPlanId || process.env.TEST_PLAN_ID;
+        if (!planId) {
+            return res.status(400).json({
+                success: false,
+                error: 'Test Plan ID is required either in request body or TEST_PLAN_ID environment variable'
+            });
+        }
+        
+        console.log(`Generating recommendations for test plan ${planId} with PRD length: ${prd.length} characters`);
+        
+        // Fetch existing test plans from Azure DevOps
+        const existingTestPlans = await fetchExistingTestCases(planId);
+        
+        // Initialize the recommendation service with the configured LLM provider
+        const openAIService = new AzureOpenAIService();
+        
+        // Generate recommendations
+        const recommendations = await openAIService.generateTestPlanRecommendations(
+            prd,
+            existingTestPlans,
+            planId
+        );
+        
+        console.log(`Generated ${recommendations.length} test plan recommendations`);
+        
+        res.json({
+            success: true,
+            data: await recordRecommendations(planId, prd, existingTestPlans, recommendations)
+        });
+        
+    } catch (error: any) {
+        console.error('Error generating test plan recommendations:', error);
+        
+        const { statusCode, errorMessage } = describeRecommendationError(error);
+        
+        res.status(statusCode).json({
+            success: false,
+            error: errorMessage,
+            details: error.message,
+            timestamp: new Date().toISOString()
+        });
+    }
+});
+
+/**
+ * POST /api/testplans/recommendations/stream
+ * Same as POST /api/testplans/recommendations, but streams progress as Server-Sent Events:
+ * progress, plan, chunk, token, recommendation, done, error
+ * Body: { prd, testPlanId? }
+ */
+app.post('/api/testplans/recommendations/stream', async (req: Request, res: Response) => {
+    const { prd, testPlanId } = req.body;
+    
+    // Validation errors are still plain JSON, before the event stream starts
+    if (!prd) {
+        return res.status(400).json({
+            success: false,
+            error: 'PRD (Product Requirements Document) is required'
+        });
+    }
+    
+    const planId = testPlanId || process.env.TEST_PLAN_ID;
+    if (!planId) {
+        return res.status(400).json({
+            success: false,
+            error: 'Test Plan ID is required either in request body or TEST_PLAN_ID environment variable'
+        });
+    }
+    
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+    });
+    
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+    
+    const sendEvent = (event: string, data: unknown) => {
+        if (!res.writableEnded) {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+    };
+    
+    try {
+        sendEvent('progress', { stage: 'fetching-plan', testPlanId: planId });
+        const existingTestPlans = await fetchExistingTestCases(planId);
+        sendEvent('plan', { testPlanId: planId, existingTestCasesCount: existingTestPlans.length });
+        
+        sendEvent('progress', { stage: 'generating', prdLength: prd.length });
+        const openAIService = new AzureOpenAIService();
+        let recommendationIndex = 0;
+        const recommendations = await openAIService.generateTestPlanRecommendations(prd, existingTestPlans, planId, {
+            signal: abortController.signal,
+            onChunk: (index, count) => sendEvent('chunk', { index, count }),
+            onToken: text => sendEvent('token', { text }),
+            onRecommendation: recommendation => sendEvent('recommendation', { index: recommendationIndex++, recommendation })
+        });
+        
+        sendEvent('done', await recordRecommendations(planId, prd, existingTestPlans, recommendations));
+    } catch (error: any) {
+        if (abortController.signal.aborted) {
+            console.log('Recommendation stream closed by client');
+            return;
+        }
+        console.error('Error streaming test plan recommendations:', error);
+        const { statusCode, errorMessage } = describeRecommendationError(error);
+        sendEvent('error', { statusCode, error: errorMessage, details: error.message, timestamp: new Date().toISOString() });
+    }
+    
+    res.end();
+});
+
+/**
+ * POST /api/testplans/:planId/recommendations/apply
+ * Create ADO test cases from selected recommendations and put them in a suite
+ * Body: { indices, recommendations? | historyId?, suiteId?, newSuiteName?, parentSuiteId?, areaPath?, iterationPath? }
+ */
+app.post('/api/testplans/:planId/recommendations/apply', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const { indices, historyId, suiteId, newSuiteName, parentSuiteId, areaPath, iterationPath } = req.body;
+        
+        if (isNaN(planId)) {
+            return res.status(400).json({ 
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
+            });
+        }
+        
+        if (!Array.isArray(indices) || indices.length === 0 || !indices.every(index => Number.isInteger(index) && index >= 0)) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'indices must be a non-empty array of recommendation indices'
+            });
+        }
+        
+        for (const [field, value] of Object.entries({ suiteId, parentSuiteId })) {
+            if (value !== undefined && !Number.isInteger(value)) {
+                return res.status(400).json({
+                    error: 'Invalid suite ID',
+                    message: `${field} must be a number`
+                });
+            }
+        }
+        
+        if (newSuiteName !== undefined && (typeof newSuiteName !== 'string' || newSuiteName.trim().length === 0)) {
+            return res.status(400).json({
+                error: 'Invalid suite name',
+                message: 'newSuiteName must be a non-empty string'
+            });
+        }
+        
+        // Selecting a recommendation twice would create its test cases twice
+        const selected: number[] = Array.from(new Set(indices));
+        
+        // Recommendations come either inline or from a previously saved generation
+        let recommendations: TestPlanRecommendation[] | undefined = req.body.recommendations;
+        if (recommendations !== undefined) {
+            const errors = AzureOpenAIService.validateTestPlanRecommendations(recommendations);
+            if (errors.length > 0) {
+                return res.status(400).json({
+                    error: 'Invalid recommendations',
+                    message: `recommendations do not match the recommendation schema (${errors.length} error(s)):\n- ${errors.join('\n- ')}`
+                });
+            }
+        } else if (historyId) {
+            const history = await storage.getRecommendationHistory();
+            recommendations = history.find(record => record.id === historyId)?.recommendations;
+            if (!recommendations) {
+                return res.status(404).json({ 
+                    error: 'Recommendations not found',
+                    message: `No saved recommendations with historyId ${historyId}`
+                });
+            }
+        }
+        
+        if (!Array.isArray(recommendations)) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'Either recommendations or historyId is required'
+            });
+        }
+        
+        const outOfRange = selected.filter(index => index >= recommendations!.length);
+        if (outOfRange.length > 0) {
+            return res.status(400).json({
+                error: 'Invalid indices',
+                message: `No recommendation at index ${outOfRange.join(', ')} (${recommendations.length} available)`
+            });
+        }
+        
+        const applier = new RecommendationApplier(adoClient!);
+        const report = await applier.apply(planId, recommendations, selected, { suiteId, newSuiteName, parentSuiteId, areaPath, iterationPath });
+        
+        res.status(report.createdCount > 0 ? 201 : 200).json({
+            success: report.failedCount === 0,
+            data: report,
+            message: `Created ${report.createdCount} test case(s), ${report.failedCount} failed`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/traceability
+ * Build a requirement traceability matrix between PRD sections and the plan's test cases
+ * Body: { prd? , resourceId?, coveredThreshold?, partialThreshold? }
+ * Query params: format (json | csv, default json)
+ */
+app.post('/api/testplans/:planId/traceability', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const { resourceId, coveredThreshold, partialThreshold } = req.body;
+        const format = (req.query.format as string) || 'json';
+        
+        if (isNaN(planId)) {
+            return res.status(400).json({ 
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
+            });
+        }
+        
+        if (format !== 'json' && format !== 'csv') {
+            return res.status(400).json({ 
+                error: 'Invalid format',
+                message: 'format must be json or csv'
+            });
+        }
+        
+        // The PRD comes from the body or from a saved connection
+        let prd: string | undefined = req.body.prd;
+        if (!prd && resourceId) {
+            prd = (await storage.getConnection(resourceId))?.prd;
+        }
+        
+        if (!prd) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'prd, or the resourceId of a saved connection, is required'
+            });
+        }
+        
+        const traceabilityService = new TraceabilityService(adoClient!);
+        const matrix = await traceabilityService.buildMatrix(prd, planId, { coveredThreshold, partialThreshold });
+        
+        if (format === 'csv') {
+            res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="traceability-plan-${planId}.csv"`);
+            return res.send(TraceabilityService.toCsv(matrix));
+        }
+        
+        res.json({
+            success: true,
+            data: matrix
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /:resourceId/saveConnection
+ * Save connection configuration
+ * Body: { github_url, prd, ado_url, website_url }
+ */
+app.post('/:resourceId/saveConnection', async (req: Request, res: Response) => {
+    try {
+        const { resourceId } = req.params;
+        const { github_url, prd, ado_url, website_url } = req.body;
+
+        // Validate required fields
+        if (!github_url || !prd || !ado_url || !website_url) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'github_url, prd, ado_url, and website_url are required'
+            });
+        }
+
+        // Generate a connection ID
+        const connectionId = Math.random().toString(36).substr(2, 10);
+
+        // Save connection
+        const connection: Connection = {
+            resourceId,
+            connectionId,
+            github_url,
+            prd,
+            ado_url,
+            website_url
+        };
+
+        await storage.saveConnection(connection);
+
+        res.json({
+            message: "Connection saved successfully",
+            status: "success",
+            resourceId,
+            connectionId
+        });
+    } catch (error: any) {
+        console.error('Error saving connection:', error);
+        res.status(500).json({
+            error: 'Failed to save connection',
             details: error.message
         });
     }
@@ -594,10 +3163,10 @@ app.post('/:resourceId/saveConnection', (req: Request, res: Response) => {
  * GET /:resourceId
  * Get connection configuration
  */
-app.get('/:resourceId', (req: Request, res: Response) => {
+app.get('/:resourceId', async (req: Request, res: Response) => {
     try {
         const { resourceId } = req.params;
-        const connection = connections.get(resourceId);
+        const connection = await storage.getConnection(resourceId);
 
         if (!connection) {
             return res.status(404).json({
@@ -623,16 +3192,39 @@ app.get('/:resourceId', (req: Request, res: Response) => {
     }
 });
 
+/**
+ * Apply an update to every test case with the given ID anywhere in the suite tree.
+ * Returns true if at least one test case was found.
+ */
+function updateTestCaseInSuites(suites: TestSuite[], testCaseId: string, update: Partial<TestCase>): boolean {
+    let found = false;
+    
+    const visit = (suite: TestSuite): void => {
+        suite.testCases = suite.testCases.map(testCase => {
+            if (testCase.id.toString() !== testCaseId) {
+                return testCase;
+            }
+            found = true;
+            return { ...testCase, ...update };
+        });
+        suite.children.forEach(visit);
+    };
+    suites.forEach(visit);
+    
+    return found;
+}
+
 /**
  * GET /:resourceId/ado_plans
- * Get ADO test plans and suites
+ * Get ADO test plans with their real suite hierarchy (static, requirement-based and
+ * query-based suites, nested children) including test cases and parsed steps
  */
 app.get('/:resourceId/ado_plans', ensureClientInitialized, async (req: Request, res: Response) => {
     try {
         const { resourceId } = req.params;
         
         // Check if connection exists
-        const connection = connections.get(resourceId);
+        const connection = await storage.getConnection(resourceId);
         if (!connection) {
             return res.status(404).json({
                 error: 'Connection not found',
@@ -643,37 +3235,33 @@ app.get('/:resourceId/ado_plans', ensureClientInitialized, async (req: Request,
         // Get test plans from Azure DevOps
         const testPlans = await adoClient!.getAllTestPlans(true, true);
         
-        // Transform the data to match the expected format
+        // Build the real suite hierarchy (with test cases and parsed steps) for every plan
         const suites: TestSuite[] = [];
         
         for (const plan of testPlans) {
             if (plan.id) {
                 try {
-                    // For each plan, we'll create a suite entry
-                    // In a real implementation, you'd get actual suites from the plan
-                    const testSuite: TestSuite = {
-                        name: plan.name || `Test Plan ${plan.id}`,
-                        testCaseId: plan.id.toString(),
-                        testCases: [
-                            {
-                                name: `Sample test case for ${plan.name}`,
-                                steps: [
-                                    "Step 1: Navigate to application",
-                                    "Step 2: Perform test action",
-                                    "Step 3: Verify expected result"
-                                ]
-                            }
-                        ]
-                    };
-                    suites.push(testSuite);
+                    const planSuites = await adoClient!.getTestSuiteHierarchy(plan.id);
+                    suites.push(...planSuites.map(suite => ({ ...suite, planName: plan.name })));
                 } catch (error) {
                     console.warn(`Failed to process plan ${plan.id}:`, error);
                 }
             }
         }
 
+        // Carry over GitHub issues already linked to test cases
+        const issueLinks = await storage.getIssueLinks(resourceId);
+        for (const link of issueLinks) {
+            updateTestCaseInSuites(suites, link.testCaseId, {
+                issueId: link.issueId,
+                issueNumber: parseInt(link.issueId),
+                issueUrl: link.issueUrl,
+                status: link.state
+            });
+        }
+
         // Store the suites for this resource
-        testSuites.set(resourceId, suites);
+        await storage.saveSuites(resourceId, suites);
 
         res.json({ suites });
     } catch (error: any) {
@@ -687,16 +3275,16 @@ app.get('/:resourceId/ado_plans', ensureClientInitialized, async (req: Request,
 
 /**
  * POST /:resourceId/createIssue/:testCaseId
- * Create GitHub issue for test case
+ * Create GitHub issue for test case in the repository of the saved connection
  * Body: { title, body, labels, assignees }
  */
-app.post('/:resourceId/createIssue/:testCaseId', (req: Request, res: Response) => {
+app.post('/:resourceId/createIssue/:testCaseId', async (req: Request, res: Response) => {
     try {
         const { resourceId, testCaseId } = req.params;
         const { title, body, labels, assignees } = req.body;
 
         // Check if connection exists
-        const connection = connections.get(resourceId);
+        const connection = await storage.getConnection(resourceId);
         if (!connection) {
             return res.status(404).json({
                 error: 'Connection not found',
@@ -712,69 +3300,151 @@ app.post('/:resourceId/createIssue/:testCaseId', (req: Request, res: Response) =
             });
         }
 
-        // Get existing suites for this resource
-        let suites = testSuites.get(resourceId) || [];
-        
-        // Find the test case and update it with issue information
-        let issueCreated = false;
-        const issueId = Math.random().toString(36).substr(2, 8); // Generate mock issue ID
-        
-        suites = suites.map(suite => {
-            if (suite.testCaseId === testCaseId) {
-                suite.testCases = suite.testCases.map(testCase => ({
-                    ...testCase,
-                    issueId,
-                    status: "Creating"
-                }));
-                issueCreated = true;
-            }
-            return suite;
+        let repository: GitHubRepository;
+        try {
+            repository = GitHubService.parseRepositoryUrl(connection.github_url);
+        } catch (parseError: any) {
+            return res.status(400).json({
+                error: 'Invalid GitHub URL',
+                message: parseError.message
+            });
+        }
+
+        // Create the real GitHub issue
+        const gitHubService = new GitHubService();
+        const issue = await gitHubService.createIssue(repository, {
+            title,
+            body,
+            labels: Array.isArray(labels) ? labels : undefined,
+            assignees: Array.isArray(assignees) ? assignees : undefined
         });
 
+        // Get existing suites for this resource
+        const suites = (await storage.getSuites(resourceId)) || [];
+        
+        // Find the test case anywhere in the suite tree and update it with issue information
+        const issueFields: Partial<TestCase> = {
+            issueId: issue.number.toString(),
+            issueNumber: issue.number,
+            issueUrl: issue.url,
+            status: issue.state
+        };
+        const issueCreated = updateTestCaseInSuites(suites, testCaseId, issueFields);
+
         if (!issueCreated) {
             // If test case not found, create a new suite entry
             const newSuite: TestSuite = {
+                id: 0,
                 name: "GitHub Issue Suite",
-                testCaseId,
+                suiteType: 'None',
+                planId: 0,
                 testCases: [
                     {
+                        id: parseInt(testCaseId) || 0,
                         name: title,
-                        steps: [body],
-                        issueId,
-                        status: "Creating"
+                        steps: [{ id: '1', type: 'ActionStep', action: body, expectedResult: '' }],
+                        ...issueFields
                     }
-                ]
+                ],
+                children: []
             };
             suites.push(newSuite);
         }
 
-        // Update the stored suites
-        testSuites.set(resourceId, suites);
-
-        // In a real implementation, you would create an actual GitHub issue here
-        // using the GitHub API and the connection.github_url
-        console.log(`Mock GitHub issue created: ${title} for test case ${testCaseId}`);
-        console.log(`GitHub URL: ${connection.github_url}`);
-        console.log(`Labels: ${labels?.join(', ')}`);
-        console.log(`Assignees: ${assignees?.join(', ')}`);
+        // Update the stored suites and remember the link for state syncing
+        await storage.saveSuites(resourceId, suites);
+        const now = new Date().toISOString();
+        await storage.saveIssueLink({
+            resourceId,
+            testCaseId,
+            issueId: issue.number.toString(),
+            issueUrl: issue.url,
+            state: issue.state,
+            createdAt: now,
+            updatedAt: now
+        });
 
-        res.json({ suites });
+        res.json({ suites, issue });
     } catch (error: any) {
         console.error('Error creating GitHub issue:', error);
-        res.status(500).json({
+        res.status(error.statusCode || 500).json({
             error: 'Failed to create GitHub issue',
             details: error.message
         });
     }
 });
 
+/**
+ * POST /:resourceId/syncIssues
+ * Refresh the state (open/closed) of every GitHub issue linked to this resource's test cases
+ */
+app.post('/:resourceId/syncIssues', async (req: Request, res: Response) => {
+    try {
+        const { resourceId } = req.params;
+
+        const connection = await storage.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        let repository: GitHubRepository;
+        try {
+            repository = GitHubService.parseRepositoryUrl(connection.github_url);
+        } catch (parseError: any) {
+            return res.status(400).json({
+                error: 'Invalid GitHub URL',
+                message: parseError.message
+            });
+        }
+
+        const gitHubService = new GitHubService();
+        const links = await storage.getIssueLinks(resourceId);
+        const suites = (await storage.getSuites(resourceId)) || [];
+
+        const synced: { testCaseId: string; issueId: string; state?: string; error?: string }[] = [];
+        for (const link of links) {
+            try {
+                const issue = await gitHubService.getIssue(repository, parseInt(link.issueId));
+                updateTestCaseInSuites(suites, link.testCaseId, { status: issue.state });
+                await storage.saveIssueLink({ ...link, state: issue.state, updatedAt: new Date().toISOString() });
+                synced.push({ testCaseId: link.testCaseId, issueId: link.issueId, state: issue.state });
+            } catch (syncError: any) {
+                synced.push({ testCaseId: link.testCaseId, issueId: link.issueId, error: syncError.message });
+            }
+        }
+
+        await storage.saveSuites(resourceId, suites);
+
+        res.json({ suites, synced });
+    } catch (error: any) {
+        console.error('Error syncing GitHub issues:', error);
+        res.status(error.statusCode || 500).json({
+            error: 'Failed to sync GitHub issues',
+            details: error.message
+        });
+    }
+});
+
+// 404 handler for unknown routes
+app.use('*', (req: Request, res: Response) => {
+    res.status(404).json({
+        error: 'Not Found',
+        message: `Route ${req.originalUrl} not found`,
+        availableEndpoints: '/'
+    });
+});
+
 // Error handling middleware (must be last)
 app.use(errorHandler);
 
 // Start server
 async function startServer() {
     try {
-        // Initialize Azure DevOps client first
+        // Initialize storage and the Azure DevOps client first
+        await initializeStorage();
         await initializeADOClient();
         
         // Start the server
@@ -801,7 +3471,9 @@ process.on('SIGINT', () => {
     process.exit(0);
 });
 
-// Start the server
-startServer();
+// Start the server when run directly; tests import the app without listening
+if (require.main === module) {
+    startServer();
+}
 
 export default app;
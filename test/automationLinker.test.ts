@@ -0,0 +1,71 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { AutomationLinker } from '../src/AutomationLinker';
+
+describe('AutomationLinker.parseManifest', () => {
+    it('reads a map of test case IDs with shared defaults', () => {
+        const { entries, errors } = AutomationLinker.parseManifest({
+            defaults: { automatedTestType: 'Unit Test', automatedTestStorage: 'Shop.Tests.dll' },
+            tests: {
+                '123': 'Shop.Tests.CartTests.AddsItem',
+                '124': { automatedTestName: ' Shop.Tests.CartTests.RemovesItem ', automatedTestStorage: 'Cart.dll' }
+            }
+        });
+
+        assert.deepEqual(errors, []);
+        assert.deepEqual(entries, [
+            { testCaseId: 123, automatedTestName: 'Shop.Tests.CartTests.AddsItem', automatedTestStorage: 'Shop.Tests.dll', automatedTestType: 'Unit Test', automatedTestId: undefined },
+            { testCaseId: 124, automatedTestName: 'Shop.Tests.CartTests.RemovesItem', automatedTestStorage: 'Cart.dll', automatedTestType: 'Unit Test', automatedTestId: undefined }
+        ]);
+    });
+
+    it('reads a list of links', () => {
+        const { entries } = AutomationLinker.parseManifest([{ testCaseId: 5, automatedTestName: 'checkout.spec.ts › pays', automatedTestType: 'Playwright' }]);
+
+        assert.equal(entries[0].testCaseId, 5);
+        assert.equal(entries[0].automatedTestType, 'Playwright');
+    });
+
+    it('reports invalid entries and empty manifests', () => {
+        assert.deepEqual(AutomationLinker.parseManifest({ abc: 'Test', '7': { automatedTestName: '' } }).errors, [
+            '"7": automatedTestName is required',
+            '"abc": testCaseId must be a number'
+        ]);
+        assert.deepEqual(AutomationLinker.parseManifest([]).errors, ['manifest contains no tests']);
+        assert.deepEqual(AutomationLinker.parseManifest('tests').errors, ['manifest must be an object or an array']);
+    });
+});
+
+describe('AzureDevOpsTestPlansClient.setTestCaseAutomation', () => {
+    before(() => {
+        process.env.AZURE_DEVOPS_ORG_URL = process.env.AZURE_DEVOPS_ORG_URL || 'https://dev.azure.com/example';
+        process.env.AZURE_DEVOPS_PROJECT = process.env.AZURE_DEVOPS_PROJECT || 'Example';
+    });
+
+    /**
+     * A client with a fake work item API; returns the AutomatedTestId written by setTestCaseAutomation
+     */
+    async function linkedTestId(currentTestId: string | undefined, requestedTestId?: string): Promise<string> {
+        const client: any = new AzureDevOpsTestPlansClient();
+        let written = '';
+        client.workItemApi = {
+            getWorkItem: async () => ({ fields: currentTestId ? { 'Microsoft.VSTS.TCM.AutomatedTestId': currentTestId } : {} }),
+            updateWorkItem: async (headers: unknown, patch: any[]) => {
+                written = patch.find(operation => operation.path === '/fields/Microsoft.VSTS.TCM.AutomatedTestId').value;
+                return {};
+            }
+        };
+        await (client as AzureDevOpsTestPlansClient).setTestCaseAutomation(1, { automatedTestName: 'Shop.Tests.CartTests.AddsItem', automatedTestId: requestedTestId });
+        return written;
+    }
+
+    it('keeps the current AutomatedTestId when relinking', async () => {
+        assert.equal(await linkedTestId('0f8fad5b-d9cb-469f-a165-70867728950e'), '0f8fad5b-d9cb-469f-a165-70867728950e');
+    });
+
+    it('uses the requested ID, or generates one for a test case that has none', async () => {
+        assert.equal(await linkedTestId('0f8fad5b-d9cb-469f-a165-70867728950e', '7c9e6679-7425-40de-944b-e07fc1f90ae7'), '7c9e6679-7425-40de-944b-e07fc1f90ae7');
+        assert.match(await linkedTestId(undefined), /^[0-9a-f]{8}-[0-9a-f]{4}-/);
+    });
+});
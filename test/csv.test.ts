@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectCsvDelimiter, parseCsv, toCsv } from '../src/Csv';
+
+describe('parseCsv', () => {
+    it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+        const records = parseCsv('\uFEFFTitle,Action\r\n"Log in, then out","Say ""hi""\r\nand wave"\r\n\r\nSecond,\r\n');
+
+        assert.deepEqual(records, [
+            { line: 1, fields: ['Title', 'Action'] },
+            { line: 2, fields: ['Log in, then out', 'Say "hi"\nand wave'] },
+            { line: 5, fields: ['Second', ''] }
+        ]);
+    });
+
+    it('detects semicolon and tab delimiters from the header line', () => {
+        assert.deepEqual(parseCsv('Title;Priority\n"A;B";2').map(record => record.fields), [['Title', 'Priority'], ['A;B', '2']]);
+        assert.deepEqual(parseCsv('Title\tPriority\nA, B\t2').map(record => record.fields), [['Title', 'Priority'], ['A, B', '2']]);
+        assert.equal(detectCsvDelimiter('"a;b;c",d'), ',');
+    });
+
+    it('reads back what toCsv writes', () => {
+        const rows = [['Line\nbreak', 'Comma, "quoted"'], [1, undefined]];
+
+        assert.deepEqual(parseCsv(toCsv(['A', 'B'], rows)).map(record => record.fields), [
+            ['A', 'B'],
+            ['Line\nbreak', 'Comma, "quoted"'],
+            ['1', '']
+        ]);
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Build } from 'azure-devops-node-api/interfaces/BuildInterfaces';
+import { ShallowTestCaseResult } from 'azure-devops-node-api/interfaces/TestInterfaces';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { FlakyTestAnalyzer } from '../src/FlakyTestAnalyzer';
+
+const BUILDS: Build[] = [
+    { id: 1, buildNumber: '20240101.1', sourceVersion: 'a' },
+    { id: 2, buildNumber: '20240102.1', sourceVersion: 'b' },
+    { id: 3, buildNumber: '20240103.1', sourceVersion: 'c' },
+    { id: 4, buildNumber: '20240103.2', sourceVersion: 'c' }
+];
+
+// Outcomes per build, oldest first; "FP" is a failure followed by a passing re-run in the same build
+const OUTCOMES: Record<string, string[]> = {
+    Alternating: ['P', 'F', 'P', 'F'],
+    Regressed: ['P', 'P', 'F', 'F'],
+    Retried: ['P', 'FP', 'P', 'P'],
+    SameCommit: ['P', 'P', 'P', 'F'],
+    Skipped: ['P', 'S', 'S', 'F'],
+    Stable: ['P', 'P', 'P', 'P']
+};
+
+function resultsByBuild(): Map<number, ShallowTestCaseResult[]> {
+    const outcomeNames: Record<string, string> = { P: 'Passed', F: 'Failed', S: 'NotExecuted' };
+    const byBuild = new Map<number, ShallowTestCaseResult[]>(BUILDS.map(build => [build.id!, []]));
+    let id = 0;
+
+    for (const [name, outcomes] of Object.entries(OUTCOMES)) {
+        outcomes.forEach((attempts, index) => {
+            Array.from(attempts).forEach((attempt, runId) => {
+                byBuild.get(BUILDS[index].id!)!.push({ id: ++id, runId, automatedTestName: name, outcome: outcomeNames[attempt] });
+            });
+        });
+    }
+    return byBuild;
+}
+
+describe('FlakyTestAnalyzer.computeReport', () => {
+    it('flags tests with unexplained flips, most flaky first', () => {
+        const report = FlakyTestAnalyzer.computeReport(BUILDS, resultsByBuild(), 3, 0.1);
+
+        assert.equal(report.analyzedTests, 6);
+        assert.deepEqual(report.flakyTests.map(test => [test.name, test.flips, test.unexplainedFlips, test.flipRate]), [
+            ['Alternating', 3, 3, 0.429],
+            ['Retried', 0, 1, 0.143],
+            ['SameCommit', 1, 1, 0.143]
+        ]);
+        assert.deepEqual(report.flakyTests[1].history[1], { buildId: 2, outcome: 'passed', retried: true });
+    });
+
+    it('skips tests that ran in fewer builds than minRuns', () => {
+        const report = FlakyTestAnalyzer.computeReport(BUILDS, resultsByBuild(), 5, 0.1);
+
+        assert.equal(report.analyzedTests, 6);
+        assert.deepEqual(report.flakyTests, []);
+        assert.deepEqual(report.builds.map(build => build.buildId), [1, 2, 3, 4]);
+    });
+
+    it('applies the flip rate threshold', () => {
+        const report = FlakyTestAnalyzer.computeReport(BUILDS, resultsByBuild(), 3, 0.2);
+
+        assert.deepEqual(report.flakyTests.map(test => test.name), ['Alternating']);
+    });
+});
+
+describe('FlakyTestAnalyzer.trackFlakyTests', () => {
+    it('updates open tracking items, creates missing ones and records failures per test', async () => {
+        const created: Array<{ type: string; fields: Record<string, any> }> = [];
+        const updated: number[] = [];
+        const client = {
+            queryWorkItemIds: async (wiql: string) => {
+                if (wiql.includes('Broken')) {
+                    throw new Error('WIQL failed');
+                }
+                return wiql.includes("'Flaky test: Known''s test'") ? [55] : [];
+            },
+            updateWorkItemFields: async (id: number) => { updated.push(id); },
+            createWorkItem: async (type: string, fields: Record<string, any>) => {
+                created.push({ type, fields });
+                return { id: 99 };
+            }
+        } as unknown as AzureDevOpsTestPlansClient;
+
+        const report = FlakyTestAnalyzer.computeReport(BUILDS, resultsByBuild(), 3, 0.1);
+        report.flakyTests[0].name = "Known's test";
+        report.flakyTests[2].name = 'Broken';
+
+        await new FlakyTestAnalyzer(client).trackFlakyTests(report, { workItemType: 'Task', areaPath: 'Web' });
+
+        assert.deepEqual(updated, [55]);
+        assert.equal(report.flakyTests[0].workItemAction, 'updated');
+        assert.equal(report.flakyTests[1].workItemId, 99);
+        assert.equal(report.flakyTests[1].workItemAction, 'created');
+        assert.equal(report.flakyTests[2].workItemError, 'WIQL failed');
+        assert.equal(created.length, 1);
+        assert.equal(created[0].type, 'Task');
+        assert.equal(created[0].fields['System.AreaPath'], 'Web');
+        assert.match(created[0].fields['System.Description'], /20240102\.1: passed \(passed on re-run\)/);
+    });
+});
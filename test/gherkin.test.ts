@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GherkinParser } from '../src/GherkinParser';
+import { GherkinSync } from '../src/GherkinSync';
+import { GherkinWriter } from '../src/GherkinWriter';
+import { TestCaseImportParser } from '../src/TestCaseImportParser';
+import { ExportedTestCase } from '../src/TestPlanExporter';
+
+const FEATURE = `# language: en
+@checkout
+Feature: Checkout
+  Paying for the cart
+
+  Background:
+    Given the cart has an item
+
+  Rule: Saved cards
+    Background:
+      Given a saved card
+
+    @TC-31
+    Scenario: Pay with a saved card
+      When I pay with these details
+        | card | last4 |
+        | Visa | 4242  |
+      And I confirm
+      Then I see
+        """
+        Thank you
+          for your order
+        """
+`;
+
+function testCase(overrides: Partial<ExportedTestCase> = {}): ExportedTestCase {
+    return {
+        id: 31,
+        title: 'Pay as a member',
+        priority: 1,
+        tags: ['smoke test'],
+        description: 'Members pay with a stored card.',
+        steps: [
+            { action: 'Given I am signed in as @user', expectedResult: 'The total is shown' },
+            { action: 'Pay with\n| card | last4 |\n| Visa | 4242 |', expectedResult: 'Then I see\nThank you' }
+        ],
+        parameters: { names: ['user'], rows: [{ user: 'ana' }, { user: 'b|ob' }] },
+        ...overrides
+    };
+}
+
+describe('GherkinParser.parse', () => {
+    it('reads rules, backgrounds, data tables and doc strings', () => {
+        const feature = GherkinParser.parse(FEATURE);
+        const [scenario] = feature.scenarios;
+
+        assert.deepEqual(feature.tags, ['checkout']);
+        assert.equal(feature.description, 'Paying for the cart');
+        assert.equal(scenario.rule, 'Saved cards');
+        assert.deepEqual(scenario.tags, ['TC-31']);
+        assert.deepEqual(scenario.background.map(step => step.text), ['the cart has an item', 'a saved card']);
+        assert.deepEqual(scenario.steps.map(step => [step.keyword, step.type]), [['When', 'action'], ['And', 'action'], ['Then', 'outcome']]);
+        assert.deepEqual(scenario.steps[0].dataTable, [['card', 'last4'], ['Visa', '4242']]);
+        assert.equal(scenario.steps[2].docString, 'Thank you\n  for your order');
+    });
+
+    it('reports syntax errors with their line', () => {
+        assert.throws(() => GherkinParser.parse('Feature: A\n  Given no scenario'), /Gherkin line 2: steps must be inside a Background/);
+        assert.throws(() => GherkinParser.parse('Feature: A\n  Scenario: B\n    Given x\n    """\n    open'), /Gherkin line 4: doc string is not closed/);
+        assert.throws(() => GherkinParser.parse('Feature: A\n  Scenario Outline: B\n    Given <x>\n    Examples:\n      | x |\n      | 1 | 2 |'), /Gherkin line 6: row has 2 cells/);
+        assert.throws(() => GherkinParser.parse('# only a comment'), /no Feature found/);
+    });
+
+    it('unescapes table cells', () => {
+        assert.deepEqual(GherkinParser.readRow('| a\\|b | c\\nd | e\\\\ |'), ['a|b', 'c\nd', 'e\\']);
+    });
+});
+
+describe('GherkinWriter', () => {
+    it('writes a parameterized test case as a Scenario Outline', () => {
+        assert.deepEqual(GherkinWriter.writeScenario(testCase()), [
+            '  @TC-31 @priority:1 @smoke_test',
+            '  Scenario Outline: Pay as a member',
+            '    Members pay with a stored card.',
+            '',
+            '    Given I am signed in as <user>',
+            '    Then The total is shown',
+            '    When Pay with',
+            '      | card | last4 |',
+            '      | Visa | 4242 |',
+            '    Then I see',
+            '      """',
+            '      Thank you',
+            '      """',
+            '',
+            '    Examples:',
+            '      | user |',
+            '      | ana |',
+            '      | b\\|ob |'
+        ]);
+    });
+
+    it('writes features that the Gherkin import reads back unchanged', () => {
+        const written = GherkinWriter.writeFeature('Checkout', [testCase(), testCase({ id: 32, parameters: undefined, steps: [{ action: 'Open', expectedResult: '' }] })], ['Exported']);
+        const [outline, plain] = TestCaseImportParser.parse(written, 'gherkin');
+
+        assert.ok(written.startsWith('# Exported\nFeature: Checkout\n'));
+        assert.equal(outline.id, 31);
+        assert.deepEqual(outline.parameters, testCase().parameters);
+        assert.deepEqual(GherkinSync.compare(testCase(), outline), []);
+        assert.deepEqual(GherkinSync.compare(testCase({ id: 32, parameters: undefined, steps: [{ action: 'Open', expectedResult: '' }] }), plain), []);
+    });
+
+    it('continues with And after a step of the same type', () => {
+        assert.deepEqual(GherkinWriter.splitSteps('Open the cart', 'action', 'action').map(step => step.line), ['And Open the cart']);
+    });
+});
+
+describe('GherkinSync', () => {
+    it('lists what differs between a test case and its scenario', () => {
+        const [scenario] = TestCaseImportParser.parse(GherkinWriter.writeFeature('Checkout', [testCase()]), 'gherkin');
+
+        assert.deepEqual(GherkinSync.compare(testCase({ title: 'Renamed', tags: ['smoke_test', 'new'], priority: 2 }), scenario), ['title', 'priority', 'tags']);
+        assert.deepEqual(GherkinSync.compare(testCase({ steps: [], parameters: undefined }), scenario), ['steps', 'parameters']);
+    });
+
+    it('tags new scenarios with their test case ID, keeping indentation and line endings', () => {
+        const content = 'Feature: A\r\n  Scenario: B\r\n    Given x';
+
+        assert.equal(GherkinSync.tagScenarios(content, new Map([[2, 40]])), 'Feature: A\r\n  @TC-40\r\n  Scenario: B\r\n    Given x');
+    });
+});
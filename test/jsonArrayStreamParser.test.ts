@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonArrayStreamParser } from '../src/JsonArrayStreamParser';
+
+const RESPONSE = JSON.stringify({
+    summary: 'two tests',
+    recommended_e2e_tests: [
+        { title: 'Brace } and bracket ] in a string', steps: [{ action: 'Type "{"' }] },
+        { title: 'Escaped quote \\" stays in the string', steps: [] }
+    ],
+    trailing: [{ ignored: true }]
+});
+
+describe('JsonArrayStreamParser', () => {
+    it('returns every element of the array under the key', () => {
+        const elements = new JsonArrayStreamParser('recommended_e2e_tests').feed(RESPONSE);
+
+        assert.deepEqual(elements.map(element => JSON.parse(element).title), [
+            'Brace } and bracket ] in a string',
+            'Escaped quote \\" stays in the string'
+        ]);
+    });
+
+    it('returns elements as soon as they complete when fed one character at a time', () => {
+        const parser = new JsonArrayStreamParser('recommended_e2e_tests');
+        const completedAt: number[] = [];
+        const elements: string[] = [];
+
+        for (let index = 0; index < RESPONSE.length; index++) {
+            const completed = parser.feed(RESPONSE[index]);
+            completed.forEach(() => completedAt.push(index));
+            elements.push(...completed);
+        }
+
+        assert.equal(elements.length, 2);
+        assert.equal(RESPONSE[completedAt[0]], '}');
+        assert.equal(RESPONSE.slice(0, completedAt[0] + 1).endsWith(elements[0]), true);
+    });
+
+    it('waits for the key and the opening bracket to arrive', () => {
+        const parser = new JsonArrayStreamParser('tests');
+
+        assert.deepEqual(parser.feed('{"tes'), []);
+        assert.deepEqual(parser.feed('ts": '), []);
+        assert.deepEqual(parser.feed('[{"a": 1}, {"b"'), ['{"a": 1}']);
+        assert.deepEqual(parser.feed(': 2}]}'), ['{"b": 2}']);
+    });
+
+    it('ignores text after the array has closed', () => {
+        const parser = new JsonArrayStreamParser('tests');
+
+        assert.deepEqual(parser.feed('{"tests": []'), []);
+        assert.deepEqual(parser.feed(', "other": [{"a": 1}]}'), []);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient, TestStep } from '../src/AzureDevOpsTestPlansClient';
+import { FakeLlmProvider } from '../src/FakeLlmProvider';
+import { PlaywrightSpecGenerator, PlaywrightTestSource } from '../src/PlaywrightSpecGenerator';
+
+function step(id: string, action: string, expectedResult: string = ''): TestStep {
+    return { id, type: 'ActionStep', action, expectedResult };
+}
+
+const LOGIN: PlaywrightTestSource = {
+    id: 101,
+    title: "Log in as the shop's owner",
+    steps: [step('2', 'Open the\nlogin page'), step('3', 'Submit the form */ now', 'The dashboard opens')]
+};
+
+// The generator never reads from Azure DevOps when given sources directly
+const NO_CLIENT = {} as AzureDevOpsTestPlansClient;
+
+describe('PlaywrightSpecGenerator.render', () => {
+    it('renders one test per case with a TestCase annotation and TODO stubs per step', () => {
+        const content = PlaywrightSpecGenerator.render([LOGIN], { baseUrl: 'https://shop.example.com' });
+
+        assert.equal(content, [
+            `import { test, expect } from '@playwright/test';`,
+            '',
+            '// Generated from Azure DevOps test cases 101',
+            `test.use({ baseURL: 'https://shop.example.com' });`,
+            '',
+            `test('Log in as the shop\\'s owner', {`,
+            `    annotation: { type: 'TestCase', description: '101' },`,
+            '}, async ({ page }) => {',
+            `    await page.goto('/');`,
+            '',
+            `    await test.step('1. Open the login page', async () => {`,
+            '        // TODO: Open the login page',
+            '    });',
+            '',
+            `    await test.step('2. Submit the form */ now', async () => {`,
+            '        // TODO: Submit the form * / now',
+            '        // Expected: The dashboard opens',
+            '        // await expect(page).toHaveURL(/.../);',
+            '    });',
+            '});',
+            ''
+        ].join('\n'));
+    });
+
+    it('wraps tests in a describe block and marks cases without steps as fixme', () => {
+        const content = PlaywrightSpecGenerator.render([LOGIN, { id: 102, title: 'Empty', steps: [] }], {
+            baseUrl: 'https://shop.example.com',
+            describeTitle: 'Smoke'
+        });
+
+        assert.match(content, /^test\.describe\('Smoke', \(\) => \{$/m);
+        assert.match(content, /^    test\('Empty', \{$/m);
+        assert.match(content, /^        test\.fixme\(true, 'Test case 102 has no steps in Azure DevOps'\);$/m);
+        assert.ok(content.endsWith('    });\n});\n'));
+    });
+});
+
+describe('PlaywrightSpecGenerator.generate', () => {
+    it('uses step bodies drafted by the LLM provider', async () => {
+        const provider = new FakeLlmProvider(() => '```json\n{"steps": ["await page.goto(\'/login\');", "await page.click(\'text=Submit\');\\nawait expect(page).toHaveURL(/dashboard/);"]}\n```');
+
+        const spec = await new PlaywrightSpecGenerator(NO_CLIENT, provider).generate([LOGIN], { baseUrl: 'https://shop.example.com' });
+
+        assert.equal(spec.fileName, 'ado-tests.spec.ts');
+        assert.equal(spec.llmGenerated, true);
+        assert.deepEqual(spec.warnings, []);
+        assert.match(spec.content, /^        await page\.click\('text=Submit'\);\n        await expect\(page\)\.toHaveURL\(\/dashboard\/\);\n        \/\/ Expected: The dashboard opens\n    \}\);$/m);
+        assert.doesNotMatch(spec.content, /TODO/);
+    });
+
+    it('falls back to stubs with a warning when the draft does not match the steps', async () => {
+        const provider = new FakeLlmProvider(() => '{"steps": ["only one"]}');
+
+        const spec = await new PlaywrightSpecGenerator(NO_CLIENT, provider).generate([LOGIN, { id: 102, title: 'Empty', steps: [] }], {
+            baseUrl: 'https://shop.example.com',
+            fileName: 'login.spec.ts'
+        });
+
+        assert.equal(spec.fileName, 'login.spec.ts');
+        assert.equal(spec.llmGenerated, false);
+        assert.deepEqual(spec.testCaseIds, [101, 102]);
+        assert.deepEqual(spec.warnings, [
+            'Test case 101: LLM draft failed (expected 2 step bodies), using stubs',
+            'Test case 102 has no steps'
+        ]);
+        assert.match(spec.content, /\/\/ TODO: Open the login page/);
+    });
+});
+
+describe('PlaywrightSpecGenerator.generateForSuite', () => {
+    it('names the describe block and file after the suite', async () => {
+        const client = {
+            getTestSuite: async () => ({ name: 'Checkout & Payments' }),
+            getTestCaseList: async () => [{ workItem: { id: 101 } }, { workItem: undefined }],
+            getMultipleTestCaseDetails: async (ids: number[]) => ids.map(id => ({ id, fields: { title: LOGIN.title }, parsedSteps: LOGIN.steps }))
+        } as unknown as AzureDevOpsTestPlansClient;
+
+        const spec = await new PlaywrightSpecGenerator(client).generateForSuite(1, 2, { baseUrl: 'https://shop.example.com' });
+
+        assert.equal(spec.fileName, 'checkout-payments.spec.ts');
+        assert.deepEqual(spec.testCaseIds, [101]);
+        assert.match(spec.content, /^test\.describe\('Checkout & Payments', \(\) => \{$/m);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureOpenAIService } from '../src/AzureOpenAIService';
+import { FakeLlmProvider } from '../src/FakeLlmProvider';
+import { LlmMessage } from '../src/LlmProvider';
+import { PrdParser } from '../src/PrdParser';
+
+const PRD = `Intro text
+
+## 2. Requirements
+
+### 2.1 Workspaces
+
+#### 2.1.1 Create Workspace
+- Enter a name
+
+#### 2.1.2 Delete Workspace
+- Confirm deletion
+
+### 2.2 Billing
+Billing is monthly.
+`;
+
+describe('PrdParser', () => {
+    it('splits sections with their number, parent and content', () => {
+        const sections = PrdParser.splitSections(PRD);
+
+        assert.deepEqual(sections.map(section => section.id), ['preamble', '2', '2.1', '2.1.1', '2.1.2', '2.2']);
+        const create = sections.find(section => section.id === '2.1.1')!;
+        assert.equal(create.title, 'Create Workspace');
+        assert.equal(create.parentTitle, 'Workspaces');
+        assert.equal(create.content, '- Enter a name');
+    });
+
+    it('counts each requirement at its most specific numbered level', () => {
+        assert.deepEqual(PrdParser.requirementSections(PRD).map(section => section.id), ['2.1.1', '2.1.2', '2.2']);
+    });
+
+    it('returns a small PRD as one chunk', () => {
+        assert.deepEqual(PrdParser.chunk(PRD, 10000), [PRD]);
+    });
+
+    it('chunks along headings within the budget', () => {
+        const chunks = PrdParser.chunk(PRD, 60);
+
+        assert.ok(chunks.length > 1);
+        assert.ok(chunks.every(chunk => chunk.length <= 60));
+        assert.ok(chunks.some(chunk => chunk.startsWith('#### 2.1.1 Create Workspace')));
+    });
+
+    it('splits an oversized section and repeats its heading', () => {
+        const prd = `## 1 Big\n\n${'a'.repeat(40)}\n\n${'b'.repeat(40)}`;
+        const chunks = PrdParser.chunk(prd, 70);
+
+        assert.equal(chunks.length, 2);
+        assert.ok(chunks[0].startsWith('## 1 Big'));
+        assert.ok(chunks[1].startsWith('## 1 Big (continued)'));
+    });
+});
+
+describe('AzureOpenAIService prompt budget', () => {
+    it('truncates the existing test case summary and says so in the prompt', async () => {
+        const previous = process.env.LLM_MAX_PROMPT_CHARS;
+        process.env.LLM_MAX_PROMPT_CHARS = '5000';
+        const prompts: string[] = [];
+        const service = new AzureOpenAIService(new FakeLlmProvider((messages: LlmMessage[]) => {
+            prompts.push(messages[messages.length - 1].content);
+            return FakeLlmProvider.recommendationResponder(messages);
+        }));
+        if (previous === undefined) {
+            delete process.env.LLM_MAX_PROMPT_CHARS;
+        } else {
+            process.env.LLM_MAX_PROMPT_CHARS = previous;
+        }
+
+        const existing = Array.from({ length: 500 }, (_, i) => ({ id: i + 1, title: `Existing test case number ${i + 1}` }));
+        await service.generateTestPlanRecommendations(PRD, existing, '10');
+
+        assert.equal(prompts.length, 1);
+        assert.ok(prompts[0].length < 5000);
+        assert.match(prompts[0], /The list is truncated: \d+ more existing test case\(s\) are not shown/);
+        assert.ok(prompts[0].includes('- [1] Existing test case number 1'));
+        assert.ok(!prompts[0].includes('- [500] '));
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { AzureOpenAIService, TestPlanRecommendation } from '../src/AzureOpenAIService';
+import { RecommendationApplier } from '../src/RecommendationApplier';
+
+const recommendation = (name: string, titles: string[]): TestPlanRecommendation => ({
+    name,
+    description: '',
+    objective: '',
+    prdReference: '',
+    missingInAdo: true,
+    testCases: titles.map(title => ({
+        title,
+        description: '',
+        steps: [{ action: 'Open|the page', expectedResult: '' }, { action: 'Submit\nthe form', expectedResult: '' }],
+        expectedResult: 'The form is saved',
+        priority: 'Critical',
+        testType: 'Functional'
+    })),
+    coverage: { functionalAreas: [], riskAreas: [], userScenarios: [] }
+});
+
+/**
+ * Records the calls RecommendationApplier makes; createTestCase fails for titles containing "fail"
+ */
+function fakeClient() {
+    const calls = { created: [] as any[][], suites: [] as any[][], added: [] as any[][] };
+    let nextId = 100;
+    const client = {
+        createTestCase: async (...args: any[]) => {
+            if (String(args[0]).includes('fail')) {
+                throw new Error('ADO rejected the work item');
+            }
+            calls.created.push(args);
+            return { id: nextId++ };
+        },
+        createTestSuite: async (...args: any[]) => {
+            calls.suites.push(args);
+            return { id: 50 };
+        },
+        getTestPlan: async () => ({ rootSuite: { id: 1 } }),
+        addTestCasesToSuite: async (...args: any[]) => {
+            calls.added.push(args);
+        }
+    };
+    return { client: client as unknown as AzureDevOpsTestPlansClient, calls };
+}
+
+describe('RecommendationApplier', () => {
+    it('maps priorities onto the ADO scale', () => {
+        assert.equal(RecommendationApplier.toAdoPriority('Critical'), 1);
+        assert.equal(RecommendationApplier.toAdoPriority('Low'), 4);
+        assert.equal(RecommendationApplier.toAdoPriority('Unknown'), 2);
+    });
+
+    it('writes steps as text and puts the overall expected result on the last step', () => {
+        const testCase = recommendation('Forms', ['Save a form']).testCases[0];
+
+        assert.equal(RecommendationApplier.toStepsText(testCase), '1. Open the page\n2. Submit the form|The form is saved');
+    });
+
+    it('creates the selected test cases in a new suite', async () => {
+        const { client, calls } = fakeClient();
+        const recommendations = [recommendation('Forms', ['Save a form', 'Cancel a form']), recommendation('Search', ['Search by name'])];
+
+        const report = await new RecommendationApplier(client).apply(7, recommendations, [1], { newSuiteName: 'AI', parentSuiteId: 3 });
+
+        assert.deepEqual(calls.suites, [[7, 'AI', 3]]);
+        assert.deepEqual(calls.created.map(args => args[0]), ['Search by name']);
+        assert.deepEqual(calls.added, [[7, 50, ['100']]]);
+        assert.equal(report.suiteId, 50);
+        assert.equal(report.createdCount, 1);
+    });
+
+    it('reports failed test cases and still adds the others to the root suite', async () => {
+        const { client, calls } = fakeClient();
+        const recommendations = [recommendation('Forms', ['Save a form', 'fail to save'])];
+
+        const report = await new RecommendationApplier(client).apply(7, recommendations, [0]);
+
+        assert.equal(report.suiteId, 1);
+        assert.equal(report.createdCount, 1);
+        assert.equal(report.failedCount, 1);
+        assert.equal(report.items[1].error, 'ADO rejected the work item');
+        assert.deepEqual(calls.added, [[7, 1, ['100']]]);
+    });
+});
+
+describe('AzureOpenAIService.validateTestPlanRecommendations', () => {
+    it('accepts recommendations returned by the recommendation routes', () => {
+        assert.deepEqual(AzureOpenAIService.validateTestPlanRecommendations([recommendation('Forms', ['Save a form'])]), []);
+    });
+
+    it('lists every problem with its path', () => {
+        const invalid: any = recommendation('Forms', ['Save a form']);
+        invalid.testCases[0].steps = [{ action: '' }];
+        invalid.testCases[0].priority = 'Urgent';
+
+        const errors = AzureOpenAIService.validateTestPlanRecommendations([invalid, { name: 'Empty', testCases: [] }]);
+
+        assert.ok(errors.length >= 3);
+        assert.ok(errors.some(error => error.includes('[0]') && error.includes('priority')));
+        assert.ok(errors.some(error => error.includes('[1]') && error.includes('testCases')));
+    });
+
+    it('rejects a value that is not an array', () => {
+        assert.notDeepEqual(AzureOpenAIService.validateTestPlanRecommendations({}), []);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureOpenAIService } from '../src/AzureOpenAIService';
+
+function modelTest(overrides: Record<string, any> = {}): Record<string, any> {
+    return {
+        title: 'Pay with a saved card',
+        prd_reference: '2.1.1',
+        reason: 'Payments are not covered',
+        expected_result: 'The order is paid',
+        missing_in_ado: true,
+        priority: 'High',
+        test_type: 'Functional',
+        functional_areas: ['Payments'],
+        risk_areas: [],
+        steps: [{ action: 'Select a saved card', expected_result: 'The card is selected' }],
+        ...overrides
+    };
+}
+
+describe('AzureOpenAIService.validateRecommendations', () => {
+    it('accepts model output that matches the schema and normalizes enum casing', () => {
+        const tests = AzureOpenAIService.validateRecommendations({
+            recommended_e2e_tests: [modelTest({ priority: ' critical ', test_type: 'SECURITY', user_scenarios: ['Returning customer'] })]
+        });
+
+        assert.equal(tests.length, 1);
+        assert.equal(tests[0].priority, 'Critical');
+        assert.equal(tests[0].test_type, 'Security');
+    });
+
+    it('rejects a response without a recommended_e2e_tests array', () => {
+        assert.throws(() => AzureOpenAIService.validateRecommendations({ tests: [] }), /recommended_e2e_tests array/);
+        assert.throws(() => AzureOpenAIService.validateRecommendations(null), /recommended_e2e_tests array/);
+    });
+
+    it('reports every problem with its JSON path', () => {
+        const parsed = {
+            recommended_e2e_tests: [
+                modelTest({ missing_in_ado: 'yes', priority: 'Urgent' }),
+                modelTest({ functional_areas: [], steps: [{ action: '' }] }),
+                'not an object'
+            ]
+        };
+
+        assert.throws(() => AzureOpenAIService.validateRecommendations(parsed), (error: Error) => {
+            assert.match(error.message, /\(6 error\(s\)\)/);
+            assert.match(error.message, /recommended_e2e_tests\[0\]\.missing_in_ado: expected a boolean/);
+            assert.match(error.message, /recommended_e2e_tests\[0\]\.priority: expected one of Critical, High, Medium, Low/);
+            assert.match(error.message, /recommended_e2e_tests\[1\]\.functional_areas: expected a non-empty array/);
+            assert.match(error.message, /recommended_e2e_tests\[1\]\.steps\[0\]\.action: expected a non-empty string/);
+            assert.match(error.message, /recommended_e2e_tests\[1\]\.steps\[0\]\.expected_result: expected a non-empty string/);
+            assert.match(error.message, /recommended_e2e_tests\[2\]: expected an object/);
+            return true;
+        });
+    });
+});
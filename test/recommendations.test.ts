@@ -0,0 +1,108 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureOpenAIService } from '../src/AzureOpenAIService';
+import { FakeLlmProvider } from '../src/FakeLlmProvider';
+
+// Recommendations are generated offline: no Azure OpenAI and no Azure DevOps credentials
+process.env.LLM_PROVIDER = 'fake';
+delete process.env.AZURE_DEVOPS_ORG_URL;
+delete process.env.AZURE_DEVOPS_PROJECT;
+
+const PRD = `# Checkout PRD
+
+## 2. Requirements
+
+### 2.1 Payments
+
+#### 2.1.1 Pay with saved card
+- Select a saved card
+- Confirm the payment
+
+#### 2.1.2 Refund an order
+- Open the order
+- Request a refund
+`;
+
+describe('recommendations with FakeLlmProvider', () => {
+    it('recommends one scenario per requirement section', async () => {
+        const service = new AzureOpenAIService(new FakeLlmProvider());
+        const recommendations = await service.generateTestPlanRecommendations(PRD, [], '10');
+
+        assert.deepEqual(recommendations.map(recommendation => recommendation.prdReference), ['2.1.1 Pay with saved card', '2.1.2 Refund an order']);
+        const [first] = recommendations;
+        assert.equal(first.testCases.length, 1);
+        assert.equal(first.testCases[0].priority, 'High');
+        assert.deepEqual(first.testCases[0].steps.map(step => step.action), ['Select a saved card', 'Confirm the payment']);
+    });
+
+    it('streams each recommendation as it completes', async () => {
+        const service = new AzureOpenAIService(new FakeLlmProvider());
+        const streamed: string[] = [];
+        let tokens = '';
+
+        const recommendations = await service.generateTestPlanRecommendations(PRD, [], '10', {
+            onToken: text => tokens += text,
+            onRecommendation: recommendation => streamed.push(recommendation.name)
+        });
+
+        assert.deepEqual(streamed, recommendations.map(recommendation => recommendation.name));
+        assert.ok(tokens.includes('recommended_e2e_tests'));
+    });
+
+    it('reports a response that does not match the schema', async () => {
+        const service = new AzureOpenAIService(new FakeLlmProvider(() => JSON.stringify({ recommended_e2e_tests: [{ title: 'Incomplete' }] })));
+
+        await assert.rejects(service.generateTestPlanRecommendations(PRD, [], '10'), /does not match the recommendation schema/);
+    });
+});
+
+describe('POST /api/testplans/recommendations without Azure DevOps', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        const { default: app } = await import('../src/server');
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    it('generates recommendations', async () => {
+        const response = await fetch(`${baseUrl}/api/testplans/recommendations`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ prd: PRD, testPlanId: '10' })
+        });
+        const body: any = await response.json();
+
+        assert.equal(response.status, 200);
+        assert.equal(body.success, true);
+        assert.equal(body.data.recommendations.length, 2);
+        assert.equal(body.data.existingTestCasesCount, 0);
+    });
+
+    it('streams recommendations as Server-Sent Events', async () => {
+        const response = await fetch(`${baseUrl}/api/testplans/recommendations/stream`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ prd: PRD, testPlanId: '10' })
+        });
+        const events = (await response.text()).split('\n').filter(line => line.startsWith('event: ')).map(line => line.slice(7));
+
+        assert.equal(response.status, 200);
+        assert.equal(events.filter(event => event === 'recommendation').length, 2);
+        assert.equal(events[events.length - 1], 'done');
+    });
+
+    it('still answers 503 on routes that need Azure DevOps', async () => {
+        const response = await fetch(`${baseUrl}/api/testplans`);
+
+        assert.equal(response.status, 503);
+    });
+});
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryStorage } from '../src/InMemoryStorage';
+import { FileStorage } from '../src/FileStorage';
+import { createStorage, PlanTemplate, RecommendationRecord } from '../src/Storage';
+
+function recommendationRecord(id: string, testPlanId: string, generatedAt: string): RecommendationRecord {
+    return { id, testPlanId, prdLength: 10, existingTestCasesCount: 0, recommendations: [], generatedAt };
+}
+
+function planTemplate(name: string): PlanTemplate {
+    return {
+        name,
+        rootSuite: { name: 'Root', suiteType: 'StaticTestSuite', testCases: [], children: [] },
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+}
+
+describe('InMemoryStorage', () => {
+    it('returns issue links for the requested resource only', async () => {
+        const storage = new InMemoryStorage();
+        const link = { testCaseId: '1', issueId: '10', createdAt: 'c', updatedAt: 'u' };
+        await storage.saveIssueLink({ ...link, resourceId: 'a' });
+        await storage.saveIssueLink({ ...link, resourceId: 'b' });
+        await storage.saveIssueLink({ ...link, resourceId: 'a', issueId: '11' });
+
+        const links = await storage.getIssueLinks('a');
+        assert.deepEqual(links.map(l => l.issueId), ['11']);
+    });
+
+    it('lists recommendation history newest first and filters by plan', async () => {
+        const storage = new InMemoryStorage();
+        await storage.saveRecommendations(recommendationRecord('1', '7', '2024-01-01T00:00:00.000Z'));
+        await storage.saveRecommendations(recommendationRecord('2', '8', '2024-03-01T00:00:00.000Z'));
+        await storage.saveRecommendations(recommendationRecord('3', '7', '2024-02-01T00:00:00.000Z'));
+
+        assert.deepEqual((await storage.getRecommendationHistory()).map(r => r.id), ['2', '3', '1']);
+        assert.deepEqual((await storage.getRecommendationHistory('7')).map(r => r.id), ['3', '1']);
+    });
+
+    it('sorts plan templates by name and reports whether a delete found one', async () => {
+        const storage = new InMemoryStorage();
+        await storage.savePlanTemplate(planTemplate('Regression'));
+        await storage.savePlanTemplate(planTemplate('Accessibility'));
+
+        assert.deepEqual((await storage.getPlanTemplates()).map(t => t.name), ['Accessibility', 'Regression']);
+        assert.equal(await storage.deletePlanTemplate('Regression'), true);
+        assert.equal(await storage.deletePlanTemplate('Regression'), false);
+        assert.equal(await storage.getPlanTemplate('Regression'), undefined);
+    });
+});
+
+describe('FileStorage', () => {
+    let directory: string;
+
+    before(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    });
+
+    after(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('starts empty when the file does not exist', async () => {
+        const storage = new FileStorage(path.join(directory, 'missing.json'));
+        await storage.initialize();
+
+        assert.equal(await storage.getConnection('a'), undefined);
+        assert.deepEqual(await storage.getPlanTemplates(), []);
+    });
+
+    it('reloads what an earlier instance saved', async () => {
+        const filePath = path.join(directory, 'nested', 'storage.json');
+        const writer = new FileStorage(filePath);
+        await writer.initialize();
+        await writer.saveConnection({
+            resourceId: 'a',
+            connectionId: 'c1',
+            github_url: 'https://github.com/o/r',
+            prd: '# PRD',
+            ado_url: 'https://dev.azure.com/o',
+            website_url: 'https://example.com'
+        });
+        await writer.saveRecommendations(recommendationRecord('1', '7', '2024-01-01T00:00:00.000Z'));
+        await writer.savePlanTemplate(planTemplate('Smoke'));
+
+        const reader = new FileStorage(filePath);
+        await reader.initialize();
+
+        assert.equal((await reader.getConnection('a'))?.connectionId, 'c1');
+        assert.deepEqual((await reader.getRecommendationHistory('7')).map(r => r.id), ['1']);
+        assert.equal((await reader.getPlanTemplate('Smoke'))?.rootSuite.name, 'Root');
+    });
+
+    it('fails to initialize from a file that is not JSON', async () => {
+        const filePath = path.join(directory, 'broken.json');
+        await fs.writeFile(filePath, '{ not json', 'utf8');
+
+        await assert.rejects(new FileStorage(filePath).initialize(), /Failed to load storage file/);
+    });
+});
+
+describe('createStorage', () => {
+    it('rejects an unknown provider', () => {
+        assert.throws(() => createStorage('redis'), /Unknown STORAGE_PROVIDER "redis"/);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient, TestCaseRevision, TestStep } from '../src/AzureDevOpsTestPlansClient';
+import { TestCaseHistory } from '../src/TestCaseHistory';
+
+function step(id: string, action: string, expectedResult: string = ''): TestStep {
+    return { id, type: 'ActionStep', action, expectedResult };
+}
+
+const FROM_STEPS = [step('2', 'Open the settings page'), step('3', 'Save', 'Saved'), step('4', 'Log out'), step('5', 'Close')];
+const TO_STEPS = [step('3', 'Save', 'Saved'), step('2', 'Open the settings menu'), step('6', 'Confirm'), step('5', 'Close')];
+
+describe('TestCaseHistory.diffSteps', () => {
+    it('aligns steps by id and tells rewording, moves, insertions and deletions apart', () => {
+        const steps = TestCaseHistory.diffSteps(FROM_STEPS, TO_STEPS);
+
+        assert.deepEqual(steps.map(entry => [entry.stepId, entry.change, entry.moved, entry.fromPosition, entry.toPosition]), [
+            ['3', 'unchanged', false, 2, 1],
+            ['4', 'removed', false, 3, undefined],
+            ['2', 'modified', true, 1, 2],
+            ['6', 'added', false, undefined, 3],
+            ['5', 'unchanged', false, 4, 4]
+        ]);
+        assert.equal(TestCaseHistory.renderSteps(steps), [
+            '  1. Save => Saved',
+            '- (was 3) Log out',
+            '~ 2. Open the settings [-page-]{+menu+} (moved from 1)',
+            '+ 3. Confirm',
+            '  4. Close'
+        ].join('\n'));
+    });
+
+    it('treats a changed shared steps reference as a modification', () => {
+        const reference = (sharedStepsId: number): TestStep => ({ ...step('7', ''), type: 'SharedStepsReference', sharedStepsId });
+
+        const [entry] = TestCaseHistory.diffSteps([reference(10)], [reference(11)]);
+
+        assert.equal(entry.change, 'modified');
+        assert.equal(TestCaseHistory.renderSteps([entry]), '~ 1. [shared steps 11]');
+    });
+});
+
+describe('TestCaseHistory.diffText', () => {
+    it('returns word segments', () => {
+        assert.deepEqual(TestCaseHistory.diffText('Click the blue button', 'Click the red button now').segments, [
+            { type: 'equal', text: 'Click the ' },
+            { type: 'removed', text: 'blue' },
+            { type: 'added', text: 'red' },
+            { type: 'equal', text: ' button' },
+            { type: 'added', text: ' now' }
+        ]);
+        assert.deepEqual(TestCaseHistory.diffText('Same', 'Same'), { changed: false, from: 'Same', to: 'Same', segments: [{ type: 'equal', text: 'Same' }] });
+    });
+});
+
+describe('TestCaseHistory.diffRevisions', () => {
+    it('diffs against the latest revision and ignores bookkeeping fields', async () => {
+        const revisions: Record<number, TestCaseRevision> = {
+            1: { id: 9, revision: 1, changedBy: 'Ana', fields: { 'System.Title': 'Settings', 'System.Rev': 1 }, parsedSteps: FROM_STEPS },
+            3: { id: 9, revision: 3, changedBy: 'Ben', fields: { 'System.Title': 'Settings menu', 'System.Rev': 3 }, parsedSteps: TO_STEPS }
+        };
+        const client = {
+            getTestCaseRevisions: async () => [{ revision: 1 }, { revision: 3 }],
+            getTestCaseRevision: async (testCaseId: number, revision: number) => revisions[revision]
+        } as unknown as AzureDevOpsTestPlansClient;
+
+        const diff = await new TestCaseHistory(client).diffRevisions(9, 1);
+
+        assert.equal(diff.toRevision, 3);
+        assert.equal(diff.toChangedBy, 'Ben');
+        assert.deepEqual(diff.fieldChanges, [{ field: 'System.Title', oldValue: 'Settings', newValue: 'Settings menu' }]);
+        assert.deepEqual(diff.summary, { added: 1, removed: 1, modified: 1, moved: 1, unchanged: 2 });
+    });
+
+    it('fails with statusCode 404 when the test case has no revisions', async () => {
+        const client = { getTestCaseRevisions: async () => [] } as unknown as AzureDevOpsTestPlansClient;
+
+        await assert.rejects(new TestCaseHistory(client).diffRevisions(9, 1), { statusCode: 404, message: 'Test case 9 has no revisions' });
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestCaseImportParser } from '../src/TestCaseImportParser';
+
+describe('TestCaseImportParser.parseCsv', () => {
+    it('reads the ADO export layout: a test case row followed by step rows', () => {
+        const csv = [
+            'ID,Work Item Type,Title,Test Step,Step Action,Step Expected,Priority,Tags',
+            ',Test Case,Log in,1,Open the login page,Login page opens,2,smoke; auth',
+            ',,,2,Submit valid credentials,Dashboard opens,,',
+            '17,Test Case,Log out,,,,5,',
+            ',,,1,,Only an expected result,,',
+            ',Bug,Not a test case,,,,,'
+        ].join('\n');
+
+        const [login, logout, bug] = TestCaseImportParser.parse(csv, 'csv');
+
+        assert.deepEqual(login, {
+            line: 2,
+            title: 'Log in',
+            steps: [
+                { action: 'Open the login page', expectedResult: 'Login page opens' },
+                { action: 'Submit valid credentials', expectedResult: 'Dashboard opens' }
+            ],
+            priority: 2,
+            tags: ['smoke', 'auth'],
+            areaPath: undefined,
+            iterationPath: undefined,
+            description: undefined,
+            errors: [],
+            warnings: []
+        });
+        assert.equal(logout.id, 17);
+        assert.deepEqual(logout.errors, [
+            'Line 4: priority "5" must be 1, 2, 3 or 4',
+            'Line 5: step has an expected result but no action'
+        ]);
+        assert.deepEqual(bug.errors, ['Line 6: work item type "Bug" is not "Test Case"']);
+        assert.deepEqual(bug.warnings, ['Line 6: test case has no steps']);
+    });
+
+    it('rejects files without a Title column or with steps before the first test case', () => {
+        assert.throws(() => TestCaseImportParser.parse('Name,Action\nA,B', 'csv'), /must include a Title column/);
+        assert.throws(() => TestCaseImportParser.parse('Title,Action\n,Orphan step', 'csv'), /Line 2: step row comes before the first test case row/);
+        assert.throws(() => TestCaseImportParser.parse('', 'csv'), /CSV is empty/);
+    });
+});
+
+describe('TestCaseImportParser.parseMarkdown', () => {
+    it('reads headings with fields, description, steps and a parameter table', () => {
+        const markdown = [
+            '# Authentication',
+            '',
+            '## Log in',
+            'ID: 12',
+            '**Priority:** 1',
+            'Tags: `smoke`, auth',
+            'Checks the happy path.',
+            'Parameters:',
+            '| user | password |',
+            '|------|----------|',
+            '| ana  | s3cret   |',
+            '- [ ] Open the login page -> Login page opens',
+            '- [x] Sign in as @user<br>with @password => Dashboard opens',
+            'Trailing note'
+        ].join('\n');
+
+        const [login] = TestCaseImportParser.parse(markdown, 'markdown');
+
+        assert.equal(login.line, 3);
+        assert.equal(login.id, 12);
+        assert.equal(login.priority, 1);
+        assert.deepEqual(login.tags, ['smoke', 'auth']);
+        assert.equal(login.description, 'Checks the happy path.');
+        assert.deepEqual(login.parameters, { names: ['user', 'password'], rows: [{ user: 'ana', password: 's3cret' }] });
+        assert.deepEqual(login.steps, [
+            { action: 'Open the login page', expectedResult: 'Login page opens' },
+            { action: 'Sign in as @user\nwith @password', expectedResult: 'Dashboard opens' }
+        ]);
+        assert.deepEqual(login.warnings, ['Line 14: text after the steps is ignored']);
+    });
+});
+
+describe('TestCaseImportParser.parseGherkin', () => {
+    it('turns scenarios into test cases and outlines into parameterized ones', () => {
+        const feature = [
+            '@smoke',
+            'Feature: Login',
+            '  Background:',
+            '    Given the login page is open',
+            '',
+            '  @priority:1 @tc:34',
+            '  Scenario: Valid login',
+            '    When I sign in',
+            '    Then the dashboard opens',
+            '    And my name is shown',
+            '',
+            '  Scenario Outline: Invalid login',
+            '    When I sign in as <user>',
+            '    Then I see <message>',
+            '    Examples:',
+            '      | user | message |',
+            '      | bob  | Locked  |'
+        ].join('\n');
+
+        const [valid, invalid] = TestCaseImportParser.parse(feature, 'gherkin');
+
+        assert.equal(valid.id, 34);
+        assert.equal(valid.priority, 1);
+        assert.deepEqual(valid.tags, ['smoke']);
+        assert.deepEqual(valid.steps, [
+            { action: 'Given the login page is open', expectedResult: '' },
+            { action: 'When I sign in', expectedResult: 'Then the dashboard opens\nAnd my name is shown' }
+        ]);
+        assert.deepEqual(invalid.steps[1], { action: 'When I sign in as @user', expectedResult: 'Then I see @message' });
+        assert.deepEqual(invalid.parameters, { names: ['user', 'message'], rows: [{ user: 'bob', message: 'Locked' }] });
+        assert.deepEqual(invalid.errors, []);
+    });
+});
+
+describe('TestCaseImportParser.detectFormat', () => {
+    it('uses the extension first, then the content', () => {
+        assert.equal(TestCaseImportParser.detectFormat('# Heading', 'cases.csv'), 'csv');
+        assert.equal(TestCaseImportParser.detectFormat('# comment\n@tag\nFeature: Login'), 'gherkin');
+        assert.equal(TestCaseImportParser.detectFormat('- [ ] Step'), 'markdown');
+        assert.equal(TestCaseImportParser.detectFormat('Title,Action'), 'csv');
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestCaseParameters } from '../src/TestCaseParameters';
+
+describe('TestCaseParameters', () => {
+    it('round-trips the parameter definition and data rows', () => {
+        const names = ['user', 'password'];
+        const rows = [{ user: 'alice', password: 'a<b&c' }, { user: 'bob', password: '' }];
+
+        const parsed = TestCaseParameters.parse(TestCaseParameters.buildParametersXml(names), TestCaseParameters.buildDataSourceXml(names, rows));
+
+        assert.deepEqual(parsed, { names, rows });
+    });
+
+    it('returns no rows for a data source bound to shared parameters', () => {
+        const parsed = TestCaseParameters.parse(TestCaseParameters.buildParametersXml(['user']), '{"parameterMap":[]}');
+
+        assert.deepEqual(parsed, { names: ['user'], rows: [] });
+    });
+
+    it('validates names and rows', () => {
+        assert.equal(TestCaseParameters.validate(['user', 'pass_word'], [{ user: 'a' }]), null);
+        assert.match(TestCaseParameters.validate(['1st'], [])!, /Invalid parameter name/);
+        assert.match(TestCaseParameters.validate(['user', 'User'], [])!, /unique/);
+        assert.match(TestCaseParameters.validate(['user'], [{ other: 'x' }])!, /rows\[0\].*other/);
+    });
+
+    it('finds @name references', () => {
+        assert.deepEqual(TestCaseParameters.referencedNames('Sign in as @user with @password, then @user again'), ['user', 'password']);
+    });
+
+    it('does not treat email addresses and handles as references', () => {
+        assert.deepEqual(TestCaseParameters.referencedNames('Send to user@example.com and first.last@corp.example'), []);
+        assert.deepEqual(TestCaseParameters.referencedNames('(@user) mentions @team'), ['user', 'team']);
+    });
+
+    it('substitutes known references and leaves the rest', () => {
+        const values = { user: 'alice', example: 'WRONG' };
+
+        assert.equal(
+            TestCaseParameters.substitute('Sign in as @user, mail user@example.com, keep @unknown', values),
+            'Sign in as alice, mail user@example.com, keep @unknown'
+        );
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { PlanTemplate } from '../src/Storage';
+import { TestPlanCloner } from '../src/TestPlanCloner';
+
+const TEMPLATE: PlanTemplate = {
+    name: 'Release',
+    areaPath: 'Shop',
+    rootSuite: {
+        name: 'Root',
+        suiteType: 'StaticTestSuite',
+        testCases: [{ id: 1, configurationIds: [] }],
+        children: [
+            {
+                name: 'Checkout',
+                suiteType: 'StaticTestSuite',
+                configurationIds: [10],
+                testCases: [{ id: 2, configurationIds: [10, 11] }, { id: 1, configurationIds: [] }],
+                children: []
+            },
+            { name: 'Open bugs', suiteType: 'DynamicTestSuite', queryString: 'SELECT ...', testCases: [{ id: 3, configurationIds: [] }], children: [] }
+        ]
+    },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+/**
+ * Records the calls made by TestPlanCloner, in order
+ */
+function fakeClient(options: { failPlan?: boolean } = {}) {
+    const calls: string[] = [];
+    let nextSuiteId = 200;
+    const client = {
+        createTestPlan: async (name: string) => {
+            calls.push(`createTestPlan ${name}`);
+            if (options.failPlan) {
+                throw new Error('Iteration not found');
+            }
+            return { id: 99, rootSuite: { id: 100 } };
+        },
+        copyTestCase: async (id: number) => {
+            calls.push(`copyTestCase ${id}`);
+            return { id: id + 1000 };
+        },
+        createTestSuite: async (planId: number, name: string) => {
+            calls.push(`createTestSuite ${name}`);
+            return { id: nextSuiteId++ };
+        },
+        addTestCasesToSuite: async (planId: number, suiteId: number, ids: string[]) => {
+            calls.push(`addTestCasesToSuite ${suiteId} ${ids.join(',')}`);
+        },
+        setSuiteConfigurations: async (planId: number, suiteId: number, ids: number[]) => {
+            calls.push(`setSuiteConfigurations ${suiteId} ${ids.join(',')}`);
+        },
+        setTestCaseConfigurations: async (planId: number, suiteId: number, testCaseIds: number[], configurationIds: number[]) => {
+            calls.push(`setTestCaseConfigurations ${suiteId} ${testCaseIds.join(',')} ${configurationIds.join(',')}`);
+        }
+    };
+    return { client: client as unknown as AzureDevOpsTestPlansClient, calls };
+}
+
+describe('TestPlanCloner', () => {
+    it('counts suites and lists the test cases to copy', () => {
+        assert.equal(TestPlanCloner.countSuites(TEMPLATE.rootSuite), 3);
+        assert.deepEqual(TestPlanCloner.copyableTestCaseIds(TEMPLATE.rootSuite), [1, 2]);
+    });
+
+    it('stamps out the suites with references to the template test cases', async () => {
+        const { client, calls } = fakeClient();
+
+        const result = await new TestPlanCloner(client).createPlanFromTemplate(TEMPLATE, { name: 'Sprint 2', iteration: 'Shop\\Sprint 2' });
+
+        assert.deepEqual(calls, [
+            'createTestPlan Sprint 2',
+            'addTestCasesToSuite 100 1',
+            'createTestSuite Checkout',
+            'setSuiteConfigurations 200 10',
+            'addTestCasesToSuite 200 2,1',
+            'setTestCaseConfigurations 200 2 10,11',
+            'createTestSuite Open bugs'
+        ]);
+        assert.equal(result.suitesCreated, 2);
+        assert.equal(result.testCasesAdded, 3);
+        assert.deepEqual(result.copiedTestCases, {});
+    });
+
+    it('creates the plan before deep-copying test cases and adds the copies', async () => {
+        const { client, calls } = fakeClient();
+
+        const result = await new TestPlanCloner(client).createPlanFromTemplate(TEMPLATE, { name: 'Sprint 2', iteration: 'Shop\\Sprint 2', copyMode: 'deep' });
+
+        assert.deepEqual(calls.slice(0, 3), ['createTestPlan Sprint 2', 'copyTestCase 1', 'copyTestCase 2']);
+        assert.ok(calls.includes('addTestCasesToSuite 200 1002,1001'));
+        assert.deepEqual(result.copiedTestCases, { 1: 1001, 2: 1002 });
+    });
+
+    it('copies no test cases when the plan cannot be created', async () => {
+        const { client, calls } = fakeClient({ failPlan: true });
+
+        await assert.rejects(
+            new TestPlanCloner(client).createPlanFromTemplate(TEMPLATE, { name: 'Sprint 2', iteration: 'Missing', copyMode: 'deep' }),
+            /Iteration not found/
+        );
+        assert.deepEqual(calls, ['createTestPlan Sprint 2']);
+    });
+});
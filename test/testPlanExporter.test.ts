@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TEST_PLAN_SNAPSHOT_FORMAT, TestPlanExporter, TestPlanSnapshot } from '../src/TestPlanExporter';
+import { TestCaseImportParser } from '../src/TestCaseImportParser';
+
+function snapshot(): TestPlanSnapshot {
+    return {
+        format: TEST_PLAN_SNAPSHOT_FORMAT,
+        version: 1,
+        exportedAt: '2024-05-01T00:00:00.000Z',
+        source: { project: 'Shop', planId: 7 },
+        plan: { name: 'Release <1.0>', iteration: 'Shop\\Sprint 1' },
+        testCases: [
+            {
+                id: 11,
+                title: 'Log in',
+                priority: 2,
+                tags: ['smoke', 'auth'],
+                steps: [
+                    { action: 'Open the login page', expectedResult: 'Login page opens' },
+                    { action: 'Sign in as @user\nwith a password', expectedResult: 'Dashboard, with "Welcome"' }
+                ],
+                parameters: { names: ['user'], rows: [{ user: 'ana' }, { user: 'b|ob' }] }
+            },
+            { id: 12, title: 'Log out', tags: [], steps: [] }
+        ],
+        rootSuite: {
+            id: 1,
+            name: 'Release',
+            suiteType: 'StaticTestSuite',
+            testCases: [{ testCaseId: 11, points: [
+                { configurationId: 1, configurationName: 'Chrome', outcome: 'Passed' },
+                { configurationId: 2, configurationName: 'Edge', outcome: 'Failed' }
+            ] }],
+            children: [{
+                id: 2,
+                name: 'Account',
+                suiteType: 'StaticTestSuite',
+                testCases: [{ testCaseId: 12, points: [{ configurationId: 1, outcome: 'None' }] }],
+                children: []
+            }]
+        }
+    };
+}
+
+describe('TestPlanExporter.validateSnapshot', () => {
+    it('accepts an exported snapshot', () => {
+        assert.equal(TestPlanExporter.validateSnapshot(JSON.parse(JSON.stringify(snapshot()))), null);
+    });
+
+    it('names the first problem it finds', () => {
+        const cases: Array<[(value: any) => void, RegExp]> = [
+            [value => { value.format = 'other'; }, /must be a JSON export \(format "ado-test-plan-snapshot"\)/],
+            [value => { value.version = 2; }, /version 2 is not supported \(latest is 1\)/],
+            [value => { delete value.rootSuite; }, /must have plan, testCases and rootSuite/],
+            [value => { value.testCases[0].id = '11'; }, /integer id, a title, steps and tags/],
+            [value => { value.testCases[0].steps[1].expectedResult = null; }, /test case 11: each step needs a string action and expectedResult/],
+            [value => { value.testCases[0].parameters.rows[0].user = 1; }, /test case 11: parameters need a names array/],
+            [value => { value.testCases[0].parameters.names = ['1st']; }, /test case 11: Invalid parameter name/],
+            [value => { value.rootSuite.children[0].testCases[0].testCaseId = 'x'; }, /rootSuite\.children\[0\]: each test case entry needs an integer testCaseId/]
+        ];
+
+        for (const [change, message] of cases) {
+            const value: any = snapshot();
+            change(value);
+            assert.match(TestPlanExporter.validateSnapshot(value) || '', message);
+        }
+    });
+});
+
+describe('TestPlanExporter formats', () => {
+    it('writes CSV that the CSV import reads back', () => {
+        const [login, logout] = TestCaseImportParser.parse(TestPlanExporter.toCsv(snapshot()), 'csv');
+
+        assert.equal(login.id, 11);
+        assert.equal(login.priority, 2);
+        assert.deepEqual(login.tags, ['smoke', 'auth']);
+        assert.deepEqual(login.steps, snapshot().testCases[0].steps);
+        assert.equal(logout.title, 'Log out');
+        assert.deepEqual(logout.steps, []);
+    });
+
+    it('writes Markdown that the Markdown import reads back', () => {
+        const [login, logout] = TestCaseImportParser.parse(TestPlanExporter.toMarkdown(snapshot()), 'markdown');
+
+        assert.equal(login.id, 11);
+        assert.deepEqual(login.steps, snapshot().testCases[0].steps);
+        assert.deepEqual(login.parameters, snapshot().testCases[0].parameters);
+        assert.deepEqual(login.errors, []);
+        assert.equal(logout.id, 12);
+    });
+
+    it('writes an escaped HTML report with an outcome summary', () => {
+        const html = TestPlanExporter.toHtml(snapshot());
+
+        assert.match(html, /<title>Release &lt;1\.0&gt; - Test Report<\/title>/);
+        assert.match(html, /2 test case\(s\), 3 test point\(s\), 2 executed, pass rate 50%/);
+        assert.match(html, /<span class="outcome outcome-failed">Edge: Failed<\/span>/);
+        assert.match(html, /<h3>Account<\/h3>/);
+        assert.doesNotMatch(html, /<1\.0>/);
+    });
+});
@@ -0,0 +1,93 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Outcome, PointState } from 'azure-devops-node-api/interfaces/TestPlanInterfaces';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+
+/**
+ * A client whose test plan API serves list responses in pages of the given items, linked by continuation tokens;
+ * captures the query values of every request
+ */
+function pagedClient(pages: any[][]) {
+    const queries: Record<string, any>[] = [];
+    const client: any = new AzureDevOpsTestPlansClient();
+    client.testPlanApi = {
+        vsoClient: {
+            getVersioningData: async (apiVersion: string, area: string, locationId: string, routeValues: any, queryValues: any) => {
+                queries.push(queryValues);
+                return { apiVersion, requestUrl: `https://example/${locationId}?token=${queryValues.continuationToken ?? ''}` };
+            }
+        },
+        rest: {
+            get: async () => {
+                const index = queries.length - 1;
+                return {
+                    result: pages[index],
+                    headers: index < pages.length - 1 ? { 'x-ms-continuationtoken': `page-${index + 1}` } : {}
+                };
+            }
+        },
+        createRequestOptions: () => ({}),
+        formatResponse: (result: any) => result
+    };
+    return { client: client as AzureDevOpsTestPlansClient, queries };
+}
+
+describe('test points and configurations', () => {
+    before(() => {
+        process.env.AZURE_DEVOPS_ORG_URL = process.env.AZURE_DEVOPS_ORG_URL || 'https://dev.azure.com/example';
+        process.env.AZURE_DEVOPS_PROJECT = process.env.AZURE_DEVOPS_PROJECT || 'Example';
+    });
+
+    it('reads every page of test configurations', async () => {
+        const { client, queries } = pagedClient([[{ id: 1, name: 'Chrome' }], [{ id: 2, name: 'Edge' }], [{ id: 3, name: 'Safari' }]]);
+
+        const configurations = await client.getTestConfigurations();
+
+        assert.deepEqual(configurations.map(configuration => configuration.name), ['Chrome', 'Edge', 'Safari']);
+        assert.deepEqual(queries.map(query => query.continuationToken), [undefined, 'page-1', 'page-2']);
+    });
+
+    it('summarizes test points with their configuration, tester and latest outcome', async () => {
+        const { client, queries } = pagedClient([
+            [{
+                id: 11,
+                testCaseReference: { id: 42, name: 'Checkout' },
+                configuration: { id: 1, name: 'Chrome' },
+                tester: { id: 'u1', displayName: 'Ana', uniqueName: 'ana@example.com', imageUrl: 'x' },
+                results: { outcome: Outcome.Failed, state: PointState.Completed, lastTestRunId: 7, lastResultId: 100000, lastRunBuildNumber: '' },
+                isActive: true
+            }],
+            [{
+                id: 12,
+                testCaseReference: { id: 42, name: 'Checkout' },
+                configuration: { id: 2, name: 'Edge' },
+                results: { outcome: Outcome.Unspecified, state: PointState.Ready, lastTestRunId: 0, lastResultId: 0 },
+                isActive: true
+            }]
+        ]);
+
+        const summaries = await client.getTestPointSummaries(5, 6, 42);
+
+        assert.equal(queries[0].testCaseId, '42');
+        assert.deepEqual(summaries[0], {
+            id: 11,
+            testCaseId: 42,
+            testCaseTitle: 'Checkout',
+            configurationId: 1,
+            configurationName: 'Chrome',
+            tester: { id: 'u1', displayName: 'Ana', uniqueName: 'ana@example.com' },
+            outcome: 'Failed',
+            state: 'Completed',
+            isActive: true,
+            lastRunId: 7,
+            lastResultId: 100000,
+            lastRunBuildNumber: undefined,
+            lastUpdatedDate: undefined,
+            lastUpdatedBy: undefined
+        });
+        assert.equal(summaries[1].outcome, 'None');
+        assert.equal(summaries[1].state, 'Ready');
+        assert.equal(summaries[1].tester, undefined);
+        assert.equal(summaries[1].lastRunId, undefined);
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestReportFormatError, TestResultParser } from '../src/TestResultParser';
+import { CandidateTestCase, TestResultImporter } from '../src/TestResultImporter';
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="checkout">
+    <testcase classname="checkout.Cart" name="adds an item [TC-101]" time="1.5"/>
+    <testcase classname="checkout.Cart" name="removes an item" time="0.25">
+      <failure message="expected 0 items">AssertionError: expected 0 items
+    at Cart.test.ts:12</failure>
+    </testcase>
+    <testcase classname="checkout.Cart" name="applies a coupon"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+const TRX = `<?xml version="1.0" encoding="UTF-8"?>
+<TestRun id="1">
+  <Results>
+    <UnitTestResult testId="a" testName="Login_Succeeds" outcome="Passed" duration="00:00:02.5000000"/>
+    <UnitTestResult testId="b" testName="Login_Fails" outcome="Failed" duration="00:01:00">
+      <Output><ErrorInfo><Message>Wrong password</Message><StackTrace>at Login.cs:7</StackTrace></ErrorInfo></Output>
+    </UnitTestResult>
+  </Results>
+  <TestDefinitions>
+    <UnitTest id="a" storage="auth.dll"><TestMethod className="Auth.LoginTests, Auth" name="Login_Succeeds"/></UnitTest>
+    <UnitTest id="b" storage="auth.dll"><TestMethod className="Auth.LoginTests, Auth" name="Login_Fails"/></UnitTest>
+  </TestDefinitions>
+</TestRun>`;
+
+const PLAYWRIGHT = {
+    suites: [{
+        title: 'checkout.spec.ts',
+        file: 'checkout.spec.ts',
+        suites: [{
+            title: 'Checkout',
+            specs: [{
+                title: 'pays with a saved card',
+                tests: [
+                    { projectName: 'chromium', annotations: [{ type: 'TestCase', description: '202' }], results: [{ status: 'failed', duration: 100, error: { message: '\u001b[31mtimeout\u001b[39m' } }, { status: 'passed', duration: 50 }] },
+                    { projectName: 'firefox', status: 'skipped', results: [] }
+                ]
+            }]
+        }]
+    }]
+};
+
+describe('TestResultParser', () => {
+    it('parses JUnit outcomes, durations, failures and ID annotations', () => {
+        const results = TestResultParser.parse(JUNIT);
+
+        assert.deepEqual(results.map(result => result.outcome), ['Passed', 'Failed', 'NotExecuted']);
+        assert.equal(results[0].fullName, 'checkout.Cart.adds an item [TC-101]');
+        assert.equal(results[0].durationInMs, 1500);
+        assert.equal(results[0].testCaseId, 101);
+        assert.equal(results[1].errorMessage, 'expected 0 items');
+        assert.match(results[1].stackTrace!, /Cart\.test\.ts:12/);
+    });
+
+    it('parses TRX results joined to their test definitions', () => {
+        const results = TestResultParser.parse(TRX);
+
+        assert.deepEqual(results.map(result => result.fullName), ['Auth.LoginTests.Login_Succeeds', 'Auth.LoginTests.Login_Fails']);
+        assert.deepEqual(results.map(result => result.durationInMs), [2500, 60000]);
+        assert.equal(results[1].outcome, 'Failed');
+        assert.equal(results[1].errorMessage, 'Wrong password');
+        assert.equal(results[0].storage, 'auth.dll');
+    });
+
+    it('parses Playwright reports using the last retry and annotations', () => {
+        const results = TestResultParser.parse(PLAYWRIGHT);
+
+        assert.equal(results.length, 2);
+        assert.equal(results[0].fullName, 'checkout.spec.ts › Checkout › pays with a saved card');
+        assert.equal(results[0].outcome, 'Passed');
+        assert.equal(results[0].durationInMs, 150);
+        assert.equal(results[0].testCaseId, 202);
+        assert.equal(results[0].project, 'chromium');
+        assert.equal(results[1].outcome, 'NotExecuted');
+    });
+
+    it('detects the format from the content', () => {
+        assert.equal(TestResultParser.detectFormat(JUNIT), 'junit');
+        assert.equal(TestResultParser.detectFormat(TRX), 'trx');
+        assert.equal(TestResultParser.detectFormat(JSON.stringify(PLAYWRIGHT)), 'playwright');
+    });
+
+    it('extracts test case IDs from common annotations', () => {
+        assert.equal(TestResultParser.extractTestCaseId('[TC-12] works'), 12);
+        assert.equal(TestResultParser.extractTestCaseId('works @TC34'), 34);
+        assert.equal(TestResultParser.extractTestCaseId('ADO#56 works'), 56);
+        assert.equal(TestResultParser.extractTestCaseId('ETC-7 is not an annotation'), undefined);
+    });
+
+    it('rejects malformed reports with a 400 error', () => {
+        for (const [content, format] of [
+            ['<testsuites><testsuite name="a"><testcase name="b"></testsuite></testsuites>', 'junit'],
+            ['<TestRun><Results></TestRun>', 'trx'],
+            ['{ "suites": [', 'playwright'],
+            ['{ "config": {} }', 'playwright'],
+            ['plain text', undefined]
+        ] as const) {
+            assert.throws(() => TestResultParser.parse(content, format), (error: unknown) => {
+                assert.ok(error instanceof TestReportFormatError);
+                assert.equal(error.statusCode, 400);
+                return true;
+            });
+        }
+    });
+});
+
+describe('TestResultImporter.match', () => {
+    const candidate = (id: number, title: string, automatedTestName?: string): CandidateTestCase => ({
+        id,
+        title,
+        automatedTestName,
+        tokens: new Set(title.toLowerCase().split(/\s+/))
+    });
+    const candidates = [candidate(1, 'Pay with a saved card'), candidate(2, 'Refund an order', 'Orders.RefundTests.Refund')];
+    const result = (name: string, fullName: string = name, testCaseId?: number) => ({ name, fullName, outcome: 'Passed' as const, durationInMs: 0, testCaseId });
+
+    it('matches by annotation, then automated test name, then title', () => {
+        assert.equal(TestResultImporter.match(result('anything', 'anything', 2), candidates, 0.6).matchedBy, 'annotation');
+        assert.deepEqual(
+            [TestResultImporter.match(result('Refund', 'Orders.RefundTests.Refund'), candidates, 0.6)].map(item => [item.testCaseId, item.matchedBy]),
+            [[2, 'automatedTestName']]
+        );
+        const byTitle = TestResultImporter.match(result('pay with a saved card'), candidates, 0.6);
+        assert.equal(byTitle.testCaseId, 1);
+        assert.equal(byTitle.matchedBy, 'title');
+    });
+
+    it('leaves results below the threshold unmatched', () => {
+        assert.equal(TestResultImporter.match(result('export invoices to PDF'), candidates, 0.6).testCaseId, undefined);
+    });
+
+    it('keeps the worst outcome when several results map to one test case', () => {
+        const update = TestResultImporter.toResultUpdate(7, [
+            { ...result('a'), outcome: 'Passed', durationInMs: 10, project: 'chromium' },
+            { ...result('a'), outcome: 'Failed', durationInMs: 20, errorMessage: 'boom', project: 'firefox' }
+        ]);
+
+        assert.equal(update.outcome, 'Failed');
+        assert.equal(update.durationInMs, 30);
+        assert.equal(update.errorMessage, '[firefox] boom');
+    });
+});
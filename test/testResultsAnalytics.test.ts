@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShallowTestCaseResult } from 'azure-devops-node-api/interfaces/TestInterfaces';
+import { BuildTrendPoint, TestResultsAnalytics } from '../src/TestResultsAnalytics';
+
+function result(id: number, automatedTestName: string, outcome: string, durationInMs: number, runId: number = 1): ShallowTestCaseResult {
+    return { id, runId, automatedTestName, automatedTestStorage: 'web.dll', outcome, durationInMs };
+}
+
+function entries(...results: ShallowTestCaseResult[]) {
+    return TestResultsAnalytics.toEntries(results);
+}
+
+describe('TestResultsAnalytics.toEntries', () => {
+    it('keeps the latest result of a re-run test', () => {
+        const collapsed = entries(
+            result(1, 'Login', 'Failed', 100, 1),
+            result(2, 'LOGIN', 'Passed', 90, 2),
+            result(3, 'Logout', 'Passed', 10, 1)
+        );
+
+        assert.deepEqual(collapsed.map(entry => [entry.key, entry.outcome]), [
+            ['web.dll::login', 'Passed'],
+            ['web.dll::logout', 'Passed']
+        ]);
+    });
+
+    it('falls back to the test case title for manual results', () => {
+        assert.equal(TestResultsAnalytics.testKey({ id: 4, testCaseTitle: 'Checkout' }), 'title::checkout');
+    });
+});
+
+describe('TestResultsAnalytics.summarize', () => {
+    it('counts outcomes and excludes skipped tests from the pass rate and durations', () => {
+        const summary = TestResultsAnalytics.summarize(42, entries(
+            result(1, 'A', 'Passed', 100),
+            result(2, 'B', 'Passed', 300),
+            result(3, 'C', 'Timeout', 200),
+            result(4, 'D', 'NotExecuted', 5000),
+            result(5, 'E', 'Inconclusive', 400)
+        ), 2);
+
+        assert.equal(summary.buildId, 42);
+        assert.deepEqual([summary.total, summary.passed, summary.failed, summary.skipped, summary.other], [5, 2, 1, 1, 1]);
+        assert.equal(summary.passRate, 50);
+        assert.equal(summary.countsByOutcome.Timeout, 1);
+        assert.deepEqual(summary.duration, {
+            totalMs: 1000,
+            averageMs: 250,
+            p50Ms: 200,
+            p90Ms: 400,
+            p95Ms: 400,
+            p99Ms: 400,
+            maxMs: 400
+        });
+        assert.deepEqual(summary.slowestTests.map(entry => entry.name), ['D', 'E']);
+    });
+
+    it('reports a zero pass rate when nothing was executed', () => {
+        const summary = TestResultsAnalytics.summarize(1, entries(result(1, 'A', 'NotApplicable', 0)));
+
+        assert.equal(summary.passRate, 0);
+        assert.equal(summary.duration.maxMs, 0);
+    });
+});
+
+describe('TestResultsAnalytics.compare', () => {
+    it('classifies each test by how its outcome changed', () => {
+        const baseEntries = entries(
+            result(1, 'Fixed', 'Failed', 1),
+            result(2, 'Broken', 'Passed', 1),
+            result(3, 'StillBroken', 'Failed', 1),
+            result(4, 'Removed', 'Passed', 1),
+            result(5, 'Stable', 'Passed', 1)
+        );
+        const targetEntries = entries(
+            result(1, 'Fixed', 'Passed', 1),
+            result(2, 'Broken', 'Error', 1),
+            result(3, 'StillBroken', 'Failed', 1),
+            result(5, 'Stable', 'Passed', 1),
+            result(6, 'Added', 'Passed', 1),
+            result(7, 'AlsoAdded', 'Passed', 1)
+        );
+
+        const comparison = TestResultsAnalytics.compare(
+            TestResultsAnalytics.summarize(1, baseEntries), baseEntries,
+            TestResultsAnalytics.summarize(2, targetEntries), targetEntries
+        );
+
+        const names = (list: { name: string }[]) => list.map(entry => entry.name);
+        assert.equal(comparison.passRateDelta, 6.67);
+        assert.deepEqual(names(comparison.newlyFailing), ['Broken']);
+        assert.deepEqual(names(comparison.newlyPassing), ['Fixed']);
+        assert.deepEqual(names(comparison.stillFailing), ['StillBroken']);
+        assert.deepEqual(names(comparison.addedTests), ['Added', 'AlsoAdded']);
+        assert.deepEqual(names(comparison.removedTests), ['Removed']);
+    });
+});
+
+describe('TestResultsAnalytics.trend', () => {
+    it('reports pass rate and duration changes and tests failing in every build', () => {
+        const point = (buildId: number, passRate: number, p90DurationMs: number): BuildTrendPoint =>
+            ({ buildId, total: 2, passed: 1, failed: 1, skipped: 0, passRate, totalDurationMs: 0, p90DurationMs });
+
+        const trend = TestResultsAnalytics.trend([point(1, 50, 100), point(2, 60, 80), point(3, 75, 120)], [
+            entries(result(1, 'Flaky', 'Failed', 1), result(2, 'Broken', 'Failed', 1)),
+            entries(result(1, 'Flaky', 'Passed', 1), result(2, 'Broken', 'Failed', 1)),
+            entries(result(1, 'Flaky', 'Failed', 1), result(2, 'Broken', 'Aborted', 1))
+        ]);
+
+        assert.equal(trend.averagePassRate, 61.67);
+        assert.equal(trend.passRateChange, 25);
+        assert.equal(trend.p90DurationChangeMs, 20);
+        assert.deepEqual(trend.consistentlyFailing, ['Broken']);
+    });
+});
@@ -0,0 +1,66 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+
+const STEPS_XML = `<steps id="0" last="5">
+  <step id="1" type="ActionStep"><parameterizedString isformatted="true">Open the shop</parameterizedString><parameterizedString isformatted="true"></parameterizedString></step>
+  <compref id="2" ref="310">
+    <step id="4" type="ValidateStep"><parameterizedString isformatted="true">Check the cart</parameterizedString><parameterizedString isformatted="true">Cart is empty</parameterizedString></step>
+  </compref>
+  <step id="5" type="ActionStep"><parameterizedString isformatted="true">Pay</parameterizedString><parameterizedString isformatted="true"></parameterizedString></step>
+</steps>`;
+
+/**
+ * A client whose test results and work item APIs are replaced by fakes; captures what updateTestResults sends
+ */
+function fakeClient() {
+    const sent: any[] = [];
+    const client: any = new AzureDevOpsTestPlansClient();
+    client.testResultsApi = {
+        getTestResults: async () => [{ id: 100000, testCase: { id: '42' } }],
+        updateTestResults: async (results: any[]) => {
+            sent.push(...results);
+            return results;
+        }
+    };
+    client.workItemApi = {
+        getWorkItem: async (id: number) => ({ id, fields: { 'Microsoft.VSTS.TCM.Steps': STEPS_XML } })
+    };
+    return { client: client as AzureDevOpsTestPlansClient, sent };
+}
+
+describe('AzureDevOpsTestPlansClient.updateTestResults', () => {
+    before(() => {
+        process.env.AZURE_DEVOPS_ORG_URL = process.env.AZURE_DEVOPS_ORG_URL || 'https://dev.azure.com/example';
+        process.env.AZURE_DEVOPS_PROJECT = process.env.AZURE_DEVOPS_PROJECT || 'Example';
+    });
+
+    it('records step outcomes under nested action paths', async () => {
+        const { client, sent } = fakeClient();
+
+        await client.updateTestResults(7, [{
+            resultId: 100000,
+            outcome: 'Failed',
+            steps: [
+                { stepId: 1, outcome: 'Passed' },
+                { stepId: 4, outcome: 'Passed' },
+                { stepId: '2.3', outcome: 'Failed', comment: 'Shared step failed' }
+            ]
+        }]);
+
+        const actions = sent[0].iterationDetails[0].actionResults;
+        assert.deepEqual(actions.map((action: any) => action.actionPath), ['00000001', '0000000200000004', '0000000200000003']);
+        assert.deepEqual(actions.map((action: any) => action.stepIdentifier), ['1', '2;4', '2;3']);
+        assert.equal(sent[0].state, 'Completed');
+    });
+
+    it('does not fetch the test case when no step outcomes are recorded', async () => {
+        const { client, sent } = fakeClient();
+        (client as any).workItemApi = {};
+
+        await client.updateTestResults(7, [{ resultId: 100000, outcome: 'InProgress' }]);
+
+        assert.equal(sent[0].state, 'InProgress');
+        assert.equal(sent[0].iterationDetails, undefined);
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestStepsXml } from '../src/TestStepsXml';
+
+// Steps document as ADO stores it: escaped HTML, a shared steps reference with a grouped step, a description
+const STEPS_XML = '<steps id="0" last="5">' +
+    '<step id="2" type="ActionStep">' +
+    '<parameterizedString isformatted="true">&lt;DIV&gt;&lt;P&gt;Open &lt;B&gt;Settings&lt;/B&gt;&lt;/P&gt;&lt;/DIV&gt;</parameterizedString>' +
+    '<parameterizedString isformatted="true">&lt;P&gt;Settings page opens&lt;/P&gt;</parameterizedString>' +
+    '<description/></step>' +
+    '<compref id="3" ref="77">' +
+    '<step id="4" type="ValidateStep">' +
+    '<parameterizedString isformatted="true">Save</parameterizedString>' +
+    '<parameterizedString isformatted="true">Saved &amp;amp; closed</parameterizedString>' +
+    '<description/></step>' +
+    '</compref>' +
+    '</steps>';
+
+describe('TestStepsXml.parse and serialize', () => {
+    it('reads steps, formatting and shared steps references', () => {
+        const document = TestStepsXml.parse(STEPS_XML);
+
+        assert.equal(document.last, 5);
+        assert.equal(document.nodes.length, 2);
+        assert.deepEqual(document.nodes[0], {
+            kind: 'step',
+            id: 2,
+            type: 'ActionStep',
+            action: '<DIV><P>Open <B>Settings</B></P></DIV>',
+            expectedResult: '<P>Settings page opens</P>',
+            formatted: true,
+            description: '',
+            attributes: undefined
+        });
+        assert.equal(document.nodes[1].kind, 'compref');
+        assert.equal(TestStepsXml.flatten(document).map(node => node.id).join(','), '2,3,4');
+    });
+
+    it('writes an unedited document back unchanged', () => {
+        assert.equal(TestStepsXml.serialize(TestStepsXml.parse(STEPS_XML)), STEPS_XML);
+    });
+
+    it('returns an empty document for missing steps and rejects malformed XML', () => {
+        assert.deepEqual(TestStepsXml.parse(undefined), { last: 0, nodes: [] });
+        assert.throws(() => TestStepsXml.parse('<steps><step></steps>'), /Invalid steps XML/);
+        assert.throws(() => TestStepsXml.parse('<other/>'), /missing <steps> element/);
+    });
+
+    it('maps every id to the references it is grouped under', () => {
+        const paths = TestStepsXml.idPaths(TestStepsXml.parse(STEPS_XML));
+
+        assert.deepEqual(Array.from(paths.entries()), [[2, [2]], [3, [3]], [4, [3, 4]]]);
+    });
+});
+
+describe('TestStepsXml.fromText and insert', () => {
+    it('builds steps and shared steps references with increasing ids', () => {
+        const document = TestStepsXml.fromText('1. Open <home>|Home opens\n\n[shared:12]\n2. Log out');
+
+        assert.deepEqual(TestStepsXml.flatten(document).map(node => node.id), [1, 2, 3]);
+        assert.equal(document.last, 3);
+        assert.deepEqual(document.nodes[1], { kind: 'compref', id: 2, ref: 12, children: [] });
+
+        const [open, , logout] = document.nodes as any[];
+        assert.equal(open.action, 'Open &lt;home&gt;');
+        assert.equal(logout.expectedResult, 'Verify step completes successfully');
+    });
+
+    it('inserts at a display position inside a reference', () => {
+        const document = TestStepsXml.parse(STEPS_XML);
+
+        TestStepsXml.insert(document, TestStepsXml.createStep('Confirm'), 2);
+
+        assert.deepEqual(Array.from(TestStepsXml.idPaths(document).entries()), [[2, [2]], [3, [3]], [6, [3, 6]], [4, [3, 4]]]);
+    });
+});
+
+describe('TestStepsXml HTML helpers', () => {
+    it('keeps formatting and drops scripts, handlers and unsafe links', () => {
+        const html = '<p onclick="x()">Hi <script>alert(1)</script><a href="javascript:x()">a</a> <a href="https://x.test/?a=1&amp;b=2">b</a> 1 < 2</p><!-- note --><img src="x.png">';
+
+        assert.equal(TestStepsXml.sanitizeHtml(html), '<p>Hi <a>a</a> <a href="https://x.test/?a=1&amp;b=2">b</a> 1 &lt; 2</p><img />');
+    });
+
+    it('converts between step HTML and plain text', () => {
+        assert.equal(TestStepsXml.htmlToText('<DIV><P>Open&nbsp; the   menu</P><P>Save<BR/>Close &amp; exit</P></DIV>'), 'Open the menu\nSave\nClose & exit');
+        assert.equal(TestStepsXml.textToHtml('a < b & c\nnext'), 'a &lt; b &amp; c<BR/>next');
+    });
+
+    it('groups attachment relations by step id', () => {
+        const attachments = TestStepsXml.stepAttachments([
+            { rel: 'AttachedFile', url: 'https://x/_apis/wit/attachments/1', attributes: { comment: '[TestStep=2]: screenshot', name: 'a.png' } },
+            { rel: 'AttachedFile', url: 'https://x/_apis/wit/attachments/2', attributes: { comment: '[TestStep=2]:' } },
+            { rel: 'AttachedFile', url: 'https://x/_apis/wit/attachments/3', attributes: { comment: 'Not a step' } },
+            { rel: 'Hyperlink', url: 'https://x', attributes: { comment: '[TestStep=4]:' } }
+        ]);
+
+        assert.deepEqual(Array.from(attachments.entries()), [[2, [
+            { name: 'a.png', url: 'https://x/_apis/wit/attachments/1', comment: 'screenshot' },
+            { name: '2', url: 'https://x/_apis/wit/attachments/2', comment: undefined }
+        ]]]);
+    });
+});
+
+describe('TestStepsXml.applyEdits', () => {
+    it('keeps listed steps, adds new ones and deletes the rest', () => {
+        const edited = TestStepsXml.applyEdits(TestStepsXml.parse(STEPS_XML), [
+            { id: 4, action: 'Save all', expectedResult: 'Saved & closed' },
+            { id: '2', action: 'Open Settings' },
+            { action: 'Close <dialog>', expectedResult: 'Dialog closes' },
+            { sharedStepsId: 88 }
+        ]);
+
+        assert.deepEqual(edited.nodes.map(node => node.id), [4, 2, 6, 7]);
+        assert.equal(edited.last, 7);
+
+        const [save, open, close, shared] = edited.nodes as any[];
+        // Unchanged plain text keeps the formatting; changed text replaces it
+        assert.equal(open.action, '<DIV><P>Open <B>Settings</B></P></DIV>');
+        assert.equal(save.action, 'Save all');
+        assert.equal(save.expectedResult, 'Saved &amp; closed');
+        assert.equal(close.action, 'Close &lt;dialog&gt;');
+        assert.deepEqual(shared, { kind: 'compref', id: 7, ref: 88, children: [] });
+    });
+
+    it('sanitizes formatted text', () => {
+        const edited = TestStepsXml.applyEdits(TestStepsXml.parse(STEPS_XML), [
+            { id: 2, actionHtml: '<b onmouseover="x()">Open</b><script>x()</script>' }
+        ]);
+
+        assert.equal((edited.nodes[0] as any).action, '<b>Open</b>');
+        assert.equal((edited.nodes[0] as any).expectedResult, '<P>Settings page opens</P>');
+    });
+
+    it('rejects unknown, repeated and incomplete entries with statusCode 400', () => {
+        const cases: Array<[any[], RegExp]> = [
+            [[{ id: 9 }], /steps\[0\]: step 9 does not exist/],
+            [[{ id: 2 }, { id: '2' }], /steps\[1\]: step 2 is listed more than once/],
+            [[{ expectedResult: 'Only a result' }], /action or actionHtml is required/],
+            [[{ id: 2, sharedStepsId: 5 }], /only be given for new entries/],
+            [[{ sharedStepsId: 0 }], /sharedStepsId must be a positive integer/]
+        ];
+
+        for (const [edits, message] of cases) {
+            assert.throws(() => TestStepsXml.applyEdits(TestStepsXml.parse(STEPS_XML), edits), (error: any) => {
+                assert.match(error.message, message);
+                assert.equal(error.statusCode, 400);
+                return true;
+            });
+        }
+    });
+});
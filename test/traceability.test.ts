@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SuiteTestCase } from '../src/AzureDevOpsTestPlansClient';
+import { PrdParser } from '../src/PrdParser';
+import { TraceabilityService } from '../src/TraceabilityService';
+
+const PRD = `# Checkout PRD
+
+## 2. Requirements
+
+### 2.1 Payments
+
+#### 2.1.1 Pay with saved card
+Customers pay with a saved card during checkout.
+
+#### 2.1.2 Refund an order
+Customers request a refund for a delivered order.
+
+#### 2.1.10 Export invoices
+Accountants export monthly invoices as PDF.
+`;
+
+function testCase(id: number, name: string, action: string = ''): SuiteTestCase {
+    return { id, name, steps: action ? [{ id: '1', type: 'ActionStep', action, expectedResult: '' }] : [] };
+}
+
+describe('TraceabilityService.computeMatrix', () => {
+    const sections = PrdParser.requirementSections(PRD);
+
+    it('classifies coverage per requirement section', () => {
+        const matrix = TraceabilityService.computeMatrix(7, sections, [
+            testCase(1, 'Checkout with saved card', 'Pay with the saved card'),
+            testCase(2, '[2.1.2] Customer return flow'),
+            testCase(3, 'Change the profile avatar')
+        ]);
+
+        assert.deepEqual(matrix.sections.map(row => [row.sectionId, row.status]), [
+            ['2.1.1', 'covered'],
+            ['2.1.2', 'covered'],
+            ['2.1.10', 'uncovered']
+        ]);
+        assert.equal(matrix.sections[0].parentTitle, 'Payments');
+        assert.deepEqual(matrix.sections[1].testCases, [
+            { testCaseId: 2, title: '[2.1.2] Customer return flow', score: 1, explicitReference: true }
+        ]);
+        assert.deepEqual(matrix.summary, {
+            totalSections: 3,
+            covered: 2,
+            partial: 0,
+            uncovered: 1,
+            coveragePercent: 66.7,
+            totalTestCases: 3,
+            unmappedTestCases: 1
+        });
+    });
+
+    it('does not treat a longer section number as an explicit reference', () => {
+        const matrix = TraceabilityService.computeMatrix(7, sections, [testCase(1, 'Covers 2.1.10 only')]);
+
+        const savedCard = matrix.sections.find(row => row.sectionId === '2.1.1')!;
+        const invoices = matrix.sections.find(row => row.sectionId === '2.1.10')!;
+        assert.equal(savedCard.testCases.some(link => link.explicitReference), false);
+        assert.equal(invoices.testCases[0].explicitReference, true);
+    });
+
+    it('honours custom thresholds', () => {
+        const matrix = TraceabilityService.computeMatrix(7, sections, [testCase(1, 'Checkout with saved card', 'Pay with the saved card')], {
+            coveredThreshold: 1
+        });
+
+        assert.equal(matrix.sections[0].status, 'partial');
+    });
+});
+
+describe('TraceabilityService.flattenTestCases', () => {
+    it('collects each test case once across the suite tree', () => {
+        const suite = (id: number, testCases: SuiteTestCase[], children: any[] = []) => ({ id, name: `Suite ${id}`, testCases, children }) as any;
+        const shared = testCase(1, 'Shared');
+
+        const testCases = TraceabilityService.flattenTestCases([suite(1, [shared], [suite(2, [shared, testCase(2, 'Child')])])]);
+
+        assert.deepEqual(testCases.map(t => t.id), [1, 2]);
+    });
+});